@@ -6,9 +6,13 @@ import {
   AdminPuzzleForm,
   type PuzzleFormData,
 } from "@/components/admin-puzzle-form";
+import { AdminDailySchedule } from "@/components/admin-daily-schedule";
+import { AdminXpAdjustment } from "@/components/admin-xp-adjustment";
+import { AdminSeasonForm } from "@/components/admin-season-form";
 
 // Shape of a puzzle as returned by the admin GET endpoint, including
-// nested events with all fields visible (sortDate, orderIndex, etc.)
+// nested bank events with all fields visible (structured date, orderIndex,
+// etc.)
 interface AdminPuzzle {
   id: string;
   title: string;
@@ -20,16 +24,23 @@ interface AdminPuzzle {
     id: string;
     text: string;
     date: string;
-    sortDate: string;
+    year: number;
+    month: number | null;
+    day: number | null;
+    precision: string;
+    circa: boolean;
     url: string | null;
+    tags: string[];
     orderIndex: number;
+    tieGroup: number | null;
   }[];
 }
 
 // Admin page — provides CRUD operations for puzzles via the admin API.
 // Access is gated: unauthenticated users are prompted to connect a wallet,
-// and non-admin users see a 403 error. The page displays a list of existing
-// puzzles with delete functionality and a toggleable create form.
+// and non-admin users see a 403 error. The page displays the upcoming daily
+// schedule with its queue, a list of existing puzzles with delete
+// functionality and a toggleable create form.
 export default function AdminPage() {
   const { data: session, status } = useSession();
 
@@ -193,6 +204,30 @@ export default function AdminPage() {
         </div>
       )}
 
+      {/* ── Daily schedule, queue and gap warnings ─────────────────────────── */}
+      {!loading && !error && (
+        <div className="mb-8">
+          <AdminDailySchedule
+            puzzles={puzzles}
+            onDatesChanged={fetchPuzzles}
+          />
+        </div>
+      )}
+
+      {/* ── XP corrections ─────────────────────────────────────────────────── */}
+      {!loading && !error && (
+        <div className="mb-8">
+          <AdminXpAdjustment />
+        </div>
+      )}
+
+      {/* ── Leaderboard seasons ────────────────────────────────────────────── */}
+      {!loading && !error && (
+        <div className="mb-8">
+          <AdminSeasonForm />
+        </div>
+      )}
+
       {/* ── Loading spinner ────────────────────────────────────────────────── */}
       {loading && (
         <div className="flex items-center justify-center py-12">
@@ -264,6 +299,12 @@ export default function AdminPage() {
                       <span className="shrink-0 text-gray-400">
                         ({event.date})
                       </span>
+                      {/* Tie group label for events sharing a date */}
+                      {event.tieGroup !== null && (
+                        <span className="shrink-0 rounded-full bg-navy/10 px-1.5 font-medium text-navy">
+                          tie {event.tieGroup}
+                        </span>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getAchievementCatalog } from "@/lib/achievements";
+
+// GET /api/achievements
+// Returns the achievement catalog with each achievement's rarity: the share
+// of active players who have unlocked it. Rarity is cached and refreshed
+// when stale rather than computed per request (see src/lib/achievements.ts).
+// Hidden achievements are listed with their description withheld. No
+// authentication required.
+//
+// Response:
+//   { id, title, description: string | null, icon, xpReward, hidden,
+//     unlockPercent: number | null }[]   (cheapest reward first)
+export async function GET() {
+  try {
+    return NextResponse.json(await getAchievementCatalog());
+  } catch (error) {
+    console.error("Failed to fetch achievements:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { db } from "@/db";
+import { achievements } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { parseAchievementDefinition } from "@/lib/achievement-rules";
+
+// PUT /api/admin/achievements/[id]
+// Replaces an achievement's display fields, reward and rule. Players who
+// already unlocked it keep it, and XP already awarded is not changed.
+//
+// Request body:
+//   { title: string, description: string, icon: string, xpReward: number,
+//     rule: AchievementRule, hidden?: boolean }
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Gate: only admin wallets may manage achievements
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const parsed = parseAchievementDefinition(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const [updated] = await db
+      .update(achievements)
+      .set(parsed.definition)
+      .where(eq(achievements.id, id))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Achievement not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Failed to update achievement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { db } from "@/db";
+import { achievements } from "@/db/schema";
+import { asc, eq } from "drizzle-orm";
+import {
+  isValidAchievementId,
+  parseAchievementDefinition,
+} from "@/lib/achievement-rules";
+
+// GET /api/admin/achievements
+// Lists every achievement with its unlock rule (see
+// src/lib/achievement-rules.ts), cheapest reward first.
+//
+// Response:
+//   { id, title, description, icon, xpReward,
+//     rule: AchievementRule | null, hidden: boolean,
+//     unlockPercent: number | null, rarityUpdatedAt: string | null }[]
+export async function GET() {
+  try {
+    // Gate: only admin wallets may manage achievements
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const rows = await db
+      .select()
+      .from(achievements)
+      .orderBy(asc(achievements.xpReward), asc(achievements.id));
+
+    return NextResponse.json(rows);
+  } catch (error) {
+    console.error("Failed to fetch achievements:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/achievements
+// Adds an achievement. It starts unlocking for players on their next game;
+// players who already meet the rule unlock it then.
+//
+// Request body:
+//   { id: string, title: string, description: string, icon: string,
+//     xpReward: number, rule: AchievementRule, hidden?: boolean }
+export async function POST(request: Request) {
+  try {
+    // Gate: only admin wallets may manage achievements
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (!isValidAchievementId(body.id)) {
+      return NextResponse.json(
+        { error: "id must be 1-50 lowercase letters, digits or underscores" },
+        { status: 400 }
+      );
+    }
+    const parsed = parseAchievementDefinition(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const existing = await db
+      .select({ id: achievements.id })
+      .from(achievements)
+      .where(eq(achievements.id, body.id))
+      .limit(1);
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { error: `An achievement with id "${body.id}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const [created] = await db
+      .insert(achievements)
+      .values({ id: body.id, ...parsed.definition })
+      .returning();
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create achievement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { db } from "@/db";
+import { dailyQueue, gameResults, puzzles } from "@/db/schema";
+import { asc, eq, inArray } from "drizzle-orm";
+import { DAILY_SCHEDULE_HORIZON_DAYS } from "@/lib/constants";
+import {
+  previewDailySchedule,
+  scheduleDailies,
+} from "@/lib/daily-scheduler";
+import { DEFAULT_TIME_ZONE, localDate } from "@/lib/time-zones";
+
+// Returns the daily queue in order, with each puzzle's title and category
+async function loadQueue() {
+  return db
+    .select({
+      puzzleId: dailyQueue.puzzleId,
+      title: puzzles.title,
+      category: puzzles.category,
+      position: dailyQueue.position,
+    })
+    .from(dailyQueue)
+    .innerJoin(puzzles, eq(dailyQueue.puzzleId, puzzles.id))
+    .orderBy(asc(dailyQueue.position));
+}
+
+// GET /api/admin/daily-schedule
+// Returns the daily schedule for the next DAILY_SCHEDULE_HORIZON_DAYS days
+// (from today in UTC) and the daily queue. Open dates show the puzzle the
+// scheduler would assign next; `gaps` lists the dates it cannot fill under
+// the category and repeat rules (see src/lib/daily-scheduler.ts).
+//
+// Response:
+//   { days: DailyScheduleDay[], gaps: string[],
+//     queue: { puzzleId, title, category, position }[] }
+export async function GET() {
+  try {
+    // Gate: only admin wallets may view the schedule
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const schedule = await previewDailySchedule(
+      localDate(DEFAULT_TIME_ZONE),
+      DAILY_SCHEDULE_HORIZON_DAYS
+    );
+
+    return NextResponse.json({ ...schedule, queue: await loadQueue() });
+  } catch (error) {
+    console.error("Failed to fetch daily schedule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/daily-schedule
+// Replaces the daily queue. The array order becomes the queue order, so the
+// same call adds, removes and reorders queued puzzles. Puzzles that are
+// already a daily cannot be queued, and neither can puzzles someone has
+// played, which would make a pre-solved daily.
+//
+// Request body:
+//   { puzzleIds: string[] }
+//
+// Response:
+//   { queue: { puzzleId, title, category, position }[] }
+export async function PUT(request: Request) {
+  try {
+    // Gate: only admin wallets may edit the queue
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { puzzleIds } = body;
+
+    if (
+      !Array.isArray(puzzleIds) ||
+      !puzzleIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { error: "puzzleIds must be an array of puzzle ids" },
+        { status: 400 }
+      );
+    }
+    if (new Set(puzzleIds).size !== puzzleIds.length) {
+      return NextResponse.json(
+        { error: "A puzzle can only be queued once" },
+        { status: 400 }
+      );
+    }
+
+    if (puzzleIds.length > 0) {
+      const found = await db
+        .select({ id: puzzles.id, isDaily: puzzles.isDaily })
+        .from(puzzles)
+        .where(inArray(puzzles.id, puzzleIds));
+
+      if (found.length !== puzzleIds.length) {
+        return NextResponse.json(
+          { error: "One or more puzzles do not exist" },
+          { status: 400 }
+        );
+      }
+      if (found.some((p) => p.isDaily)) {
+        return NextResponse.json(
+          { error: "Puzzles that are already a daily cannot be queued" },
+          { status: 400 }
+        );
+      }
+
+      const played = await db
+        .selectDistinct({ title: puzzles.title })
+        .from(gameResults)
+        .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
+        .where(inArray(gameResults.puzzleId, puzzleIds));
+      if (played.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Puzzles that have been played cannot be queued: ${played
+              .map((p) => `"${p.title}"`)
+              .join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Replace the whole queue
+    await db.delete(dailyQueue);
+    if (puzzleIds.length > 0) {
+      await db.insert(dailyQueue).values(
+        puzzleIds.map((puzzleId: string, position: number) => ({
+          puzzleId,
+          position,
+        }))
+      );
+    }
+
+    return NextResponse.json({ queue: await loadQueue() });
+  } catch (error) {
+    console.error("Failed to update daily queue:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/daily-schedule
+// Runs the scheduler now over the next DAILY_SCHEDULE_HORIZON_DAYS days,
+// the same as `npm run db:schedule-dailies`. Returns the assignments made
+// and the dates left open.
+//
+// Response:
+//   { assignments: DailyAssignment[], gaps: string[] }
+export async function POST() {
+  try {
+    // Gate: only admin wallets may run the scheduler
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const plan = await scheduleDailies(
+      localDate(DEFAULT_TIME_ZONE),
+      DAILY_SCHEDULE_HORIZON_DAYS
+    );
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error("Failed to schedule dailies:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
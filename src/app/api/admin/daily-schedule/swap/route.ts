@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { swapDailyDates } from "@/lib/daily-scheduler";
+
+// POST /api/admin/daily-schedule/swap
+// Swaps the daily dates of two scheduled daily puzzles atomically: either
+// both move or neither does, and no date is ever held by two puzzles.
+//
+// Request body:
+//   { puzzleIds: [string, string] }
+//
+// Response:
+//   { swapped: { puzzleId, title, dailyDate }[] } — each puzzle's new date
+export async function POST(request: Request) {
+  try {
+    // Gate: only admin wallets may move dailies
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { puzzleIds } = body;
+
+    if (
+      !Array.isArray(puzzleIds) ||
+      puzzleIds.length !== 2 ||
+      !puzzleIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { error: "puzzleIds must be an array of two puzzle ids" },
+        { status: 400 }
+      );
+    }
+
+    const result = await swapDailyDates(puzzleIds[0], puzzleIds[1]);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to swap dailies:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
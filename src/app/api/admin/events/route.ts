@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { db } from "@/db";
+import { events } from "@/db/schema";
+import { and, arrayContains, asc, ilike, sql } from "drizzle-orm";
+import { formatEventDate } from "@/lib/event-dates";
+
+// Maximum number of bank events returned by one search
+const EVENT_SEARCH_LIMIT = 50;
+
+// GET /api/admin/events
+// Searches the shared event bank so admins can compose puzzles from existing
+// events. Results are ordered chronologically (coarser dates before finer
+// ones within the same year) and carry their structured date fields plus the
+// formatted display `date`. Access is restricted to admin wallets.
+//
+// Query parameters:
+//   q   — case-insensitive substring of the event text
+//   tag — only events carrying this tag
+export async function GET(request: Request) {
+  try {
+    // Gate: only admin wallets may browse the bank
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const q = searchParams.get("q")?.trim();
+    const tag = searchParams.get("tag")?.trim();
+
+    const results = await db
+      .select({
+        id: events.id,
+        text: events.text,
+        year: events.year,
+        month: events.month,
+        day: events.day,
+        precision: events.precision,
+        circa: events.circa,
+        url: events.url,
+        tags: events.tags,
+      })
+      .from(events)
+      .where(
+        and(
+          q ? ilike(events.text, `%${q}%`) : undefined,
+          tag ? arrayContains(events.tags, [tag]) : undefined
+        )
+      )
+      .orderBy(
+        asc(events.year),
+        sql`${events.month} ASC NULLS FIRST`,
+        sql`${events.day} ASC NULLS FIRST`
+      )
+      .limit(EVENT_SEARCH_LIMIT);
+
+    return NextResponse.json(
+      results.map((e) => ({ ...e, date: formatEventDate(e) }))
+    );
+  } catch (error) {
+    console.error("Failed to search events:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
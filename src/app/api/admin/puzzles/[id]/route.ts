@@ -1,18 +1,38 @@
 import { NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin";
 import { db } from "@/db";
-import { puzzles, puzzleEvents } from "@/db/schema";
+import { puzzles } from "@/db/schema";
+import {
+  getPuzzleEvents,
+  resolvePuzzleEventInputs,
+  setPuzzleEvents,
+  validatePuzzleEventInputs,
+} from "@/lib/puzzle-events";
+import {
+  dailyConflictBody,
+  findDailyConflict,
+  isDailyDateConflict,
+} from "@/lib/daily-scheduler";
 import { eq } from "drizzle-orm";
 
 // PUT /api/admin/puzzles/[id]
 // Updates an existing puzzle's metadata and replaces all its events. The old
-// events are deleted and new ones are inserted from the request body. This
-// "replace all" strategy avoids complex diff logic and keeps the event ordering
-// consistent with the array position.
+// links are deleted and new ones are inserted from the request body. This
+// "replace all" strategy avoids complex diff logic and re-derives the event
+// ordering from the event dates on every save. Bank events that are unlinked
+// stay in the bank for other puzzles.
 //
 // Request body:
 //   { title: string, category: string, isDaily: boolean, dailyDate?: string,
-//     events: [{ text: string, date: string, sortDate: string, url?: string }] }
+//     events: (({ eventId: string }
+//              | { text: string, year: number, month?: number,
+//                  day?: number, precision: DatePrecision, circa?: boolean,
+//                  url?: string, tags?: string[] }) & { tieGroup?: number })[] }
+// Entries with an `eventId` reuse an event from the bank; other entries are
+// added to the bank as new events (tagged with the category by default).
+// Events whose dates overlap are rejected unless they carry the same
+// `tieGroup`. A `dailyDate` held by another daily is rejected with 409 and
+// { error, conflict: { puzzleId, title, dailyDate } }.
 export async function PUT(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -41,6 +61,16 @@ export async function PUT(
         { status: 400 }
       );
     }
+    if (
+      isDaily &&
+      dailyDate &&
+      (typeof dailyDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(dailyDate))
+    ) {
+      return NextResponse.json(
+        { error: "dailyDate must be formatted as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
     if (!Array.isArray(events) || events.length === 0) {
       return NextResponse.json(
         { error: "Events array is required and must not be empty" },
@@ -48,27 +78,10 @@ export async function PUT(
       );
     }
 
-    // Validate each event has the required fields
-    for (let i = 0; i < events.length; i++) {
-      const ev = events[i];
-      if (!ev.text || typeof ev.text !== "string") {
-        return NextResponse.json(
-          { error: `Event at index ${i} is missing a valid text field` },
-          { status: 400 }
-        );
-      }
-      if (!ev.date || typeof ev.date !== "string") {
-        return NextResponse.json(
-          { error: `Event at index ${i} is missing a valid date field` },
-          { status: 400 }
-        );
-      }
-      if (!ev.sortDate || typeof ev.sortDate !== "string") {
-        return NextResponse.json(
-          { error: `Event at index ${i} is missing a valid sortDate field` },
-          { status: 400 }
-        );
-      }
+    // Validate each event is a bank reference or a complete new event
+    const eventError = validatePuzzleEventInputs(events);
+    if (eventError) {
+      return NextResponse.json({ error: eventError }, { status: 400 });
     }
 
     // ── Verify the puzzle exists ──────────────────────────────────────────
@@ -85,50 +98,55 @@ export async function PUT(
       );
     }
 
-    // ── Update puzzle metadata ────────────────────────────────────────────
-    const [updatedPuzzle] = await db
-      .update(puzzles)
-      .set({
-        title,
-        category,
-        isDaily: Boolean(isDaily),
-        dailyDate: isDaily ? dailyDate || null : null,
-      })
-      .where(eq(puzzles.id, id))
-      .returning();
-
-    // ── Replace all events ────────────────────────────────────────────────
-    // Delete existing events (FK cascade would handle this on puzzle delete,
-    // but here we want to keep the puzzle and replace events only)
-    await db.delete(puzzleEvents).where(eq(puzzleEvents.puzzleId, id));
-
-    // Insert new events with orderIndex derived from array position
-    const eventValues = events.map(
-      (ev: { text: string; date: string; sortDate: string; url?: string }, i: number) => ({
-        puzzleId: id,
-        text: ev.text,
-        date: ev.date,
-        sortDate: new Date(ev.sortDate),
-        url: ev.url || null,
-        orderIndex: i,
-      })
-    );
+    // ── Check the daily date is free ──────────────────────────────────────
+    // The puzzle's own date does not conflict with itself
+    if (isDaily && dailyDate) {
+      const conflict = await findDailyConflict(dailyDate, id);
+      if (conflict) {
+        return NextResponse.json(dailyConflictBody(conflict), {
+          status: 409,
+        });
+      }
+    }
 
-    const insertedEvents = await db
-      .insert(puzzleEvents)
-      .values(eventValues)
-      .returning();
+    // ── Resolve events, update the puzzle and replace its links ──────────
+    // One transaction, so a failed save neither leaves new bank events
+    // behind nor strips the puzzle of its links. Events are resolved first
+    // so an unknown eventId or an unmarked tie writes nothing.
+    let saved: { puzzle: typeof puzzles.$inferSelect } | { error: string };
+    try {
+      saved = await db.transaction(async (tx) => {
+        const resolved = await resolvePuzzleEventInputs(tx, events, category);
+        if ("error" in resolved) return resolved;
+
+        const [puzzle] = await tx
+          .update(puzzles)
+          .set({
+            title,
+            category,
+            isDaily: Boolean(isDaily),
+            dailyDate: isDaily ? dailyDate || null : null,
+          })
+          .where(eq(puzzles.id, id))
+          .returning();
+        await setPuzzleEvents(tx, id, resolved.links);
+        return { puzzle };
+      });
+    } catch (error) {
+      // Another write took the daily date after the check above
+      const conflict =
+        isDailyDateConflict(error) && (await findDailyConflict(dailyDate, id));
+      if (!conflict) throw error;
+      return NextResponse.json(dailyConflictBody(conflict), { status: 409 });
+    }
+    if ("error" in saved) {
+      return NextResponse.json({ error: saved.error }, { status: 400 });
+    }
+    const updatedPuzzle = saved.puzzle;
 
     return NextResponse.json({
       ...updatedPuzzle,
-      events: insertedEvents.map((e) => ({
-        id: e.id,
-        text: e.text,
-        date: e.date,
-        sortDate: e.sortDate,
-        url: e.url,
-        orderIndex: e.orderIndex,
-      })),
+      events: await getPuzzleEvents(id),
     });
   } catch (error) {
     console.error("Failed to update puzzle:", error);
@@ -140,8 +158,9 @@ export async function PUT(
 }
 
 // DELETE /api/admin/puzzles/[id]
-// Deletes a puzzle by ID. Associated events are automatically removed via the
-// ON DELETE CASCADE foreign key constraint on puzzle_events.puzzle_id.
+// Deletes a puzzle by ID. Its event links are automatically removed via the
+// ON DELETE CASCADE foreign key constraint on puzzle_events.puzzle_id; the
+// events themselves stay in the bank.
 export async function DELETE(
   _request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -169,7 +188,7 @@ export async function DELETE(
       );
     }
 
-    // Delete the puzzle — events are cascade-deleted by the FK constraint
+    // Delete the puzzle — event links are cascade-deleted by the FK constraint
     await db.delete(puzzles).where(eq(puzzles.id, id));
 
     return NextResponse.json({ success: true });
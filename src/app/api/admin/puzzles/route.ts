@@ -1,8 +1,19 @@
 import { NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin";
 import { db } from "@/db";
-import { puzzles, puzzleEvents } from "@/db/schema";
-import { eq, desc, asc } from "drizzle-orm";
+import { puzzles } from "@/db/schema";
+import {
+  getPuzzleEvents,
+  resolvePuzzleEventInputs,
+  setPuzzleEvents,
+  validatePuzzleEventInputs,
+} from "@/lib/puzzle-events";
+import {
+  dailyConflictBody,
+  findDailyConflict,
+  isDailyDateConflict,
+} from "@/lib/daily-scheduler";
+import { desc } from "drizzle-orm";
 
 // GET /api/admin/puzzles
 // Lists all puzzles with their associated events, ordered by creation date
@@ -25,23 +36,8 @@ export async function GET() {
     // For each puzzle, fetch its events in chronological order (orderIndex)
     const result = await Promise.all(
       allPuzzles.map(async (puzzle) => {
-        const events = await db
-          .select()
-          .from(puzzleEvents)
-          .where(eq(puzzleEvents.puzzleId, puzzle.id))
-          .orderBy(asc(puzzleEvents.orderIndex));
-
-        return {
-          ...puzzle,
-          events: events.map((e) => ({
-            id: e.id,
-            text: e.text,
-            date: e.date,
-            sortDate: e.sortDate,
-            url: e.url,
-            orderIndex: e.orderIndex,
-          })),
-        };
+        const events = await getPuzzleEvents(puzzle.id);
+        return { ...puzzle, events };
       })
     );
 
@@ -58,8 +54,19 @@ export async function GET() {
 // POST /api/admin/puzzles
 // Creates a new puzzle with its events. The request body must include:
 //   { title: string, category: string, isDaily: boolean, dailyDate?: string,
-//     events: [{ text: string, date: string, sortDate: string, url?: string }] }
-// The `orderIndex` for each event is derived from its position in the array.
+//     events: (({ eventId: string }
+//              | { text: string, year: number, month?: number,
+//                  day?: number, precision: DatePrecision, circa?: boolean,
+//                  url?: string, tags?: string[] }) & { tieGroup?: number })[] }
+// Entries with an `eventId` reuse an event from the bank; other entries are
+// added to the bank as new events (tagged with the category by default).
+// The `orderIndex` for each event is derived from its date, not its
+// position in the array. Events whose dates overlap are rejected unless
+// they carry the same `tieGroup`, which lets players order them freely.
+//
+// Each date holds at most one daily. A `dailyDate` that is already taken is
+// rejected with 409 and { error, conflict: { puzzleId, title, dailyDate } }
+// naming the puzzle that holds it.
 export async function POST(request: Request) {
   try {
     // Gate: only admin wallets may create puzzles
@@ -84,6 +91,16 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+    if (
+      isDaily &&
+      dailyDate &&
+      (typeof dailyDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(dailyDate))
+    ) {
+      return NextResponse.json(
+        { error: "dailyDate must be formatted as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
     if (!Array.isArray(events) || events.length === 0) {
       return NextResponse.json(
         { error: "Events array is required and must not be empty" },
@@ -91,69 +108,59 @@ export async function POST(request: Request) {
       );
     }
 
-    // Validate each event has the required fields
-    for (let i = 0; i < events.length; i++) {
-      const ev = events[i];
-      if (!ev.text || typeof ev.text !== "string") {
-        return NextResponse.json(
-          { error: `Event at index ${i} is missing a valid text field` },
-          { status: 400 }
-        );
-      }
-      if (!ev.date || typeof ev.date !== "string") {
-        return NextResponse.json(
-          { error: `Event at index ${i} is missing a valid date field` },
-          { status: 400 }
-        );
-      }
-      if (!ev.sortDate || typeof ev.sortDate !== "string") {
-        return NextResponse.json(
-          { error: `Event at index ${i} is missing a valid sortDate field` },
-          { status: 400 }
-        );
-      }
+    // Validate each event is a bank reference or a complete new event
+    const eventError = validatePuzzleEventInputs(events);
+    if (eventError) {
+      return NextResponse.json({ error: eventError }, { status: 400 });
     }
 
-    // ── Insert puzzle ─────────────────────────────────────────────────────
-    const [newPuzzle] = await db
-      .insert(puzzles)
-      .values({
-        title,
-        category,
-        isDaily: Boolean(isDaily),
-        dailyDate: isDaily ? dailyDate || null : null,
-      })
-      .returning();
+    // ── Check the daily date is free ──────────────────────────────────────
+    if (isDaily && dailyDate) {
+      const conflict = await findDailyConflict(dailyDate);
+      if (conflict) {
+        return NextResponse.json(dailyConflictBody(conflict), {
+          status: 409,
+        });
+      }
+    }
 
-    // ── Insert events with orderIndex derived from array position ────────
-    const eventValues = events.map(
-      (ev: { text: string; date: string; sortDate: string; url?: string }, i: number) => ({
-        puzzleId: newPuzzle.id,
-        text: ev.text,
-        date: ev.date,
-        sortDate: new Date(ev.sortDate),
-        url: ev.url || null,
-        orderIndex: i,
-      })
-    );
+    // ── Resolve events, insert the puzzle and link them ──────────────────
+    // One transaction, so new bank events are only kept if the puzzle is
+    // saved with them. Events are resolved first so an unknown eventId or an
+    // unmarked tie writes nothing; each link's orderIndex is derived from
+    // the event dates.
+    let saved: { puzzle: typeof puzzles.$inferSelect } | { error: string };
+    try {
+      saved = await db.transaction(async (tx) => {
+        const resolved = await resolvePuzzleEventInputs(tx, events, category);
+        if ("error" in resolved) return resolved;
 
-    const insertedEvents = await db
-      .insert(puzzleEvents)
-      .values(eventValues)
-      .returning();
+        const [puzzle] = await tx
+          .insert(puzzles)
+          .values({
+            title,
+            category,
+            isDaily: Boolean(isDaily),
+            dailyDate: isDaily ? dailyDate || null : null,
+          })
+          .returning();
+        await setPuzzleEvents(tx, puzzle.id, resolved.links);
+        return { puzzle };
+      });
+    } catch (error) {
+      // Another write took the daily date after the check above
+      const conflict =
+        isDailyDateConflict(error) && (await findDailyConflict(dailyDate));
+      if (!conflict) throw error;
+      return NextResponse.json(dailyConflictBody(conflict), { status: 409 });
+    }
+    if ("error" in saved) {
+      return NextResponse.json({ error: saved.error }, { status: 400 });
+    }
+    const newPuzzle = saved.puzzle;
 
     return NextResponse.json(
-      {
-        ...newPuzzle,
-        events: insertedEvents.map((e) => ({
-          id: e.id,
-          text: e.text,
-          date: e.date,
-          sortDate: e.sortDate,
-          url: e.url,
-          orderIndex: e.orderIndex,
-        })),
-      },
+      { ...newPuzzle, events: await getPuzzleEvents(newPuzzle.id) },
       { status: 201 }
     );
   } catch (error) {
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { createSeason } from "@/lib/seasons";
+
+// POST /api/admin/seasons
+// Creates a leaderboard season: players are ranked by the XP they earn
+// between `startsAt` (inclusive) and `endsAt` (exclusive), and the final
+// standings are archived once it ends (see src/lib/seasons.ts). Seasons may
+// not overlap.
+//
+// Request body:
+//   { name: string, startsAt: string, endsAt: string } — ISO timestamps
+//
+// Response:
+//   Season — 201 on success, 409 if it overlaps an existing season
+export async function POST(request: Request) {
+  try {
+    // Gate: only admin wallets may create seasons
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const startsAt = new Date(body.startsAt);
+    const endsAt = new Date(body.endsAt);
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: "name is required (at most 100 characters)" },
+        { status: 400 }
+      );
+    }
+    if (
+      typeof body.startsAt !== "string" ||
+      typeof body.endsAt !== "string" ||
+      isNaN(startsAt.getTime()) ||
+      isNaN(endsAt.getTime())
+    ) {
+      return NextResponse.json(
+        { error: "startsAt and endsAt must be ISO timestamps" },
+        { status: 400 }
+      );
+    }
+    if (endsAt <= startsAt) {
+      return NextResponse.json(
+        { error: "endsAt must be after startsAt" },
+        { status: 400 }
+      );
+    }
+
+    const result = await createSeason(name, startsAt, endsAt);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json(result.season, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create season:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { requireAdmin } from "@/lib/admin";
+import { adjustXp } from "@/lib/xp-ledger";
+
+// POST /api/admin/xp-adjustments
+// Corrects a player's XP by appending an "admin" entry to the XP ledger
+// (see src/lib/xp-ledger.ts). A positive amount grants XP and a negative
+// one removes it; the player's total may not drop below zero. The reason is
+// shown to the player in their XP history.
+//
+// Request body:
+//   { walletAddress: string, amount: number (non-zero integer), reason: string }
+//
+// Response:
+//   { event: XpEvent, xp: number } — the new ledger entry and the new total
+export async function POST(request: Request) {
+  try {
+    // Gate: only admin wallets may adjust XP
+    const admin = await requireAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { walletAddress, amount } = body;
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+    if (typeof walletAddress !== "string" || !isAddress(walletAddress)) {
+      return NextResponse.json(
+        { error: "walletAddress must be an Ethereum address" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(amount) || amount === 0) {
+      return NextResponse.json(
+        { error: "amount must be a non-zero integer" },
+        { status: 400 }
+      );
+    }
+    if (!reason || reason.length > 255) {
+      return NextResponse.json(
+        { error: "reason is required (at most 255 characters)" },
+        { status: 400 }
+      );
+    }
+
+    const result = await adjustXp(walletAddress, amount, reason, admin);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Failed to adjust XP:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { gameSessions } from "@/db/schema";
+import { eq, and, isNull, sql } from "drizzle-orm";
+import { MAX_HINTS } from "@/lib/constants";
+import { getGameSession } from "@/lib/game-sessions";
+import { getPuzzleEvents } from "@/lib/puzzle-events";
+import { alignTies } from "@/lib/scoring";
+
+// POST /api/game/hint
+// Reveals one misplaced event from the player's current ordering: its display
+// date and the slot it belongs in. The hint is recorded on the play session so
+// that /api/game/submit counts hints from the server-side record rather than
+// trusting the client.
+//
+// Request body:
+//   { sessionToken: string, orderedEventIds: string[] }
+//
+// Response:
+//   { eventId: string | null, date: string | null, correctIndex: number | null,
+//     hintsUsed: number, hintsLeft: number }
+export async function POST(request: Request) {
+  try {
+    // ── Parse and validate request body ────────────────────────────────────
+    const body = await request.json();
+    const { sessionToken, orderedEventIds } = body;
+
+    if (!sessionToken || typeof sessionToken !== "string") {
+      return NextResponse.json(
+        { error: "Missing or invalid sessionToken" },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(orderedEventIds) || orderedEventIds.length === 0) {
+      return NextResponse.json(
+        { error: "Missing or invalid orderedEventIds" },
+        { status: 400 }
+      );
+    }
+
+    // ── Load the play session ──────────────────────────────────────────────
+    const gameSession = await getGameSession(sessionToken);
+    if (!gameSession) {
+      return NextResponse.json(
+        { error: "Game session not found" },
+        { status: 404 }
+      );
+    }
+    if (gameSession.completedAt) {
+      return NextResponse.json(
+        { error: "Game session has already been submitted" },
+        { status: 409 }
+      );
+    }
+    if (gameSession.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: "Game session has expired" },
+        { status: 410 }
+      );
+    }
+    if (gameSession.mode !== "classic") {
+      return NextResponse.json(
+        { error: "Hints are only available in classic mode" },
+        { status: 400 }
+      );
+    }
+
+    const alreadyHinted = new Set(gameSession.hintedEventIds);
+    if (alreadyHinted.size >= MAX_HINTS) {
+      return NextResponse.json(
+        { error: "No hints remaining for this puzzle" },
+        { status: 409 }
+      );
+    }
+
+    // ── Fetch the correct event order from the database ────────────────────
+    // Tied events are correct in any order among themselves, so their slots
+    // follow the player's current arrangement (see alignTies)
+    const correctEvents = await getPuzzleEvents(gameSession.puzzleId);
+    const dates = new Map(correctEvents.map((e) => [e.id, e.date]));
+    const correctOrder = alignTies(
+      orderedEventIds,
+      correctEvents.map((e) => e.id),
+      correctEvents.map((e) => e.tieGroup)
+    );
+
+    // ── Pick a misplaced event ─────────────────────────────────────────────
+    // Walk the player's ordering top to bottom and reveal the first event that
+    // is out of place, preferring events that have not been hinted yet. If
+    // every misplaced event was already hinted, repeat the first one without
+    // consuming another hint so the player still gets a useful nudge.
+    const misplaced = correctOrder
+      .map((id, correctIndex) => ({ id, date: dates.get(id)!, correctIndex }))
+      .filter((e) => orderedEventIds[e.correctIndex] !== e.id)
+      .sort(
+        (a, b) =>
+          orderedEventIds.indexOf(a.id) - orderedEventIds.indexOf(b.id)
+      );
+
+    if (misplaced.length === 0) {
+      // Nothing to reveal — do not consume a hint
+      return NextResponse.json({
+        eventId: null,
+        date: null,
+        correctIndex: null,
+        hintsUsed: alreadyHinted.size,
+        hintsLeft: MAX_HINTS - alreadyHinted.size,
+      });
+    }
+
+    const target =
+      misplaced.find((e) => !alreadyHinted.has(e.id)) ?? misplaced[0];
+
+    let hintsUsed = alreadyHinted.size;
+
+    // ── Record the hint on the session ─────────────────────────────────────
+    // The conditional update re-checks the hint budget and completion state
+    // in the database, so two concurrent hint requests cannot both spend the
+    // last hint.
+    if (!alreadyHinted.has(target.id)) {
+      const updated = await db
+        .update(gameSessions)
+        .set({
+          hintedEventIds: sql`array_append(${gameSessions.hintedEventIds}, ${target.id})`,
+        })
+        .where(
+          and(
+            eq(gameSessions.id, gameSession.id),
+            isNull(gameSessions.completedAt),
+            sql`cardinality(${gameSessions.hintedEventIds}) < ${MAX_HINTS}`
+          )
+        )
+        .returning({ hintedEventIds: gameSessions.hintedEventIds });
+
+      if (updated.length === 0) {
+        return NextResponse.json(
+          { error: "No hints remaining for this puzzle" },
+          { status: 409 }
+        );
+      }
+      hintsUsed = updated[0].hintedEventIds.length;
+    }
+
+    return NextResponse.json({
+      eventId: target.id,
+      date: target.date,
+      correctIndex: target.correctIndex,
+      hintsUsed,
+      hintsLeft: MAX_HINTS - hintsUsed,
+    });
+  } catch (error) {
+    console.error("Failed to generate hint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
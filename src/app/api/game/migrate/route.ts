@@ -2,8 +2,12 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/db";
-import { users, gameResults, puzzles } from "@/db/schema";
-import { eq, inArray } from "drizzle-orm";
+import { gameResults, puzzleEvents, puzzles } from "@/db/schema";
+import { eq, inArray, sql } from "drizzle-orm";
+import { GAME_SESSION_TTL_MS, MAX_HINTS } from "@/lib/constants";
+import { rebuildPlayerStats } from "@/lib/player-stats";
+import { renumberAttempts } from "@/lib/puzzle-stats";
+import { maxScoreFor } from "@/lib/scoring";
 import type { GuestGameResult } from "@/types";
 
 // POST /api/game/migrate
@@ -21,20 +25,25 @@ import type { GuestGameResult } from "@/types";
 // Authentication: Required. Returns 401 if no valid session exists.
 // Idempotency: If a puzzle referenced by a guest result does not exist in
 // the database, that result is silently skipped (no error).
+//
+// Guest results are reported by the client and cannot be verified. They are
+// stored as classic games flagged `migrated`, with their figures clamped to
+// what a real play session allows, and per-puzzle stats leave them out.
 export async function POST(request: Request) {
   try {
     // ── Require authentication ──────────────────────────────────────────────
     // next-auth v4 pattern: getServerSession with authOptions
     const session = await getServerSession(authOptions);
 
-    if (!session?.user?.id) {
+    if (!session?.user?.dbId) {
       return NextResponse.json(
         { error: "Authentication required" },
         { status: 401 }
       );
     }
 
-    const walletAddress = session.user.id;
+    // The users row is provisioned at sign-in (see src/lib/auth.ts)
+    const userId = session.user.dbId;
 
     // ── Parse and validate request body ─────────────────────────────────────
     const body = await request.json();
@@ -52,9 +61,9 @@ export async function POST(request: Request) {
       if (
         typeof r.puzzleId !== "string" ||
         typeof r.won !== "boolean" ||
-        typeof r.score !== "number" ||
-        typeof r.hintsUsed !== "number" ||
-        typeof r.solveTimeMs !== "number" ||
+        !Number.isFinite(r.score) ||
+        !Number.isFinite(r.hintsUsed) ||
+        !Number.isFinite(r.solveTimeMs) ||
         typeof r.playedAt !== "string"
       ) {
         return NextResponse.json(
@@ -64,42 +73,30 @@ export async function POST(request: Request) {
       }
     }
 
-    // ── Upsert user by wallet address ───────────────────────────────────────
-    // The user may already exist (returning player) or this may be their
-    // first authenticated session. We look up first and create if needed.
-    let userResult = await db
-      .select()
-      .from(users)
-      .where(eq(users.walletAddress, walletAddress))
-      .limit(1);
-
-    if (userResult.length === 0) {
-      // First-time authenticated user — create their record
-      const inserted = await db
-        .insert(users)
-        .values({ walletAddress })
-        .returning();
-      userResult = inserted;
-    }
-
-    const user = userResult[0];
-
     // ── Filter to results with valid puzzles ────────────────────────────────
     // Collect all unique puzzle IDs from the guest results, then query the
-    // database to find which ones actually exist. Results referencing
-    // non-existent puzzles are silently skipped.
+    // database to find which ones actually exist, with their event counts
+    // to scale the score. Results referencing non-existent puzzles are
+    // silently skipped.
     const uniquePuzzleIds = [...new Set(results.map((r) => r.puzzleId))];
 
     const existingPuzzles = await db
-      .select({ id: puzzles.id })
+      .select({
+        id: puzzles.id,
+        eventCount: sql<number>`count(${puzzleEvents.eventId})::int`,
+      })
       .from(puzzles)
-      .where(inArray(puzzles.id, uniquePuzzleIds));
+      .leftJoin(puzzleEvents, eq(puzzleEvents.puzzleId, puzzles.id))
+      .where(inArray(puzzles.id, uniquePuzzleIds))
+      .groupBy(puzzles.id);
 
-    const existingPuzzleIdSet = new Set(existingPuzzles.map((p) => p.id));
+    const maxScoreByPuzzle = new Map(
+      existingPuzzles.map((p) => [p.id, maxScoreFor(p.eventCount)])
+    );
 
     // Filter results to only include those referencing existing puzzles
     const validResults = results.filter((r) =>
-      existingPuzzleIdSet.has(r.puzzleId)
+      maxScoreByPuzzle.has(r.puzzleId)
     );
 
     // ── Insert valid results into game_results ──────────────────────────────
@@ -110,14 +107,22 @@ export async function POST(request: Request) {
       // unique constraint violations) do not block the rest of the batch.
       // This is safer than a bulk insert for migration scenarios.
       for (const r of validResults) {
+        const maxScore = maxScoreByPuzzle.get(r.puzzleId)!;
         try {
           await db.insert(gameResults).values({
-            userId: user.id,
+            userId,
             puzzleId: r.puzzleId,
+            mode: "classic",
             won: r.won,
-            score: r.score,
-            hintsUsed: r.hintsUsed,
-            solveTimeMs: r.solveTimeMs,
+            score: clamp(Math.round(r.score), 0, maxScore),
+            maxScore,
+            hintsUsed: clamp(Math.round(r.hintsUsed), 0, MAX_HINTS),
+            solveTimeMs: clamp(
+              Math.round(r.solveTimeMs),
+              0,
+              GAME_SESSION_TTL_MS
+            ),
+            migrated: true,
             playedAt: new Date(r.playedAt),
           });
           migrated++;
@@ -132,6 +137,15 @@ export async function POST(request: Request) {
       }
     }
 
+    // ── Rebuild player stats ────────────────────────────────────────────────
+    // Guest games are back-dated into the history, so the running totals in
+    // player_stats are recomputed rather than advanced game by game, and
+    // attempts are renumbered in the order the games were played
+    if (migrated > 0) {
+      await rebuildPlayerStats(userId);
+      await renumberAttempts(userId);
+    }
+
     return NextResponse.json({ migrated });
   } catch (error) {
     console.error("Migration failed:", error);
@@ -141,3 +155,8 @@ export async function POST(request: Request) {
     );
   }
 }
+
+// Limits `value` to [min, max]
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,266 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/db";
+import { calculatePinpointXp } from "@/lib/xp";
+import { scorePinpointGame } from "@/lib/pinpoint";
+import {
+  claimGameSession,
+  getGameSession,
+  parseIdempotencyKey,
+  replayedSubmission,
+  saveSubmissionResponse,
+} from "@/lib/game-sessions";
+import { getPuzzleEvents } from "@/lib/puzzle-events";
+import { DuplicateDailyError, recordGameResult } from "@/lib/game-results";
+import { fasterThanPercent } from "@/lib/puzzle-stats";
+import type { Achievement, PinpointGuess } from "@/types";
+
+// Validates a single guess from the request body. Years are whole
+// astronomical years (0 is 1 BC, negative years are earlier); months are
+// 1-12 or omitted for a year-only guess.
+function parseGuess(value: unknown): PinpointGuess | null {
+  if (!value || typeof value !== "object") return null;
+  const { eventId, year, month } = value as Record<string, unknown>;
+
+  if (typeof eventId !== "string" || !Number.isInteger(year)) return null;
+  if (month === undefined || month === null) {
+    return { eventId, year: year as number, month: null };
+  }
+  if (!Number.isInteger(month)) return null;
+  if ((month as number) < 1 || (month as number) > 12) return null;
+
+  return { eventId, year: year as number, month: month as number };
+}
+
+// POST /api/game/pinpoint/submit
+// Scores a Pinpoint game: the player guessed the year (and optionally the
+// month) of every event in the puzzle. Each guess earns points that decay
+// with its distance from the event's date, at the date's precision (see
+// src/lib/pinpoint.ts).
+// For authenticated users the result is persisted through the same pipeline
+// as classic games, with Pinpoint XP rules. Like /api/game/submit, the
+// submission is one transaction and retries with the same `idempotencyKey`
+// get the original response back.
+//
+// Request body:
+//   { sessionToken: string, guesses: { eventId: string, year: number, month?: number }[],
+//     idempotencyKey?: string }
+//
+// Response:
+//   { won: boolean, score: number, maxScore: number, normalizedScore: number,
+//     events: PinpointEventResult[], xpEarned: number, newAchievements: Achievement[],
+//     levelBefore: number, levelAfter: number,
+//     fasterThanPercent: number | null }
+export async function POST(request: Request) {
+  try {
+    // ── Parse and validate request body ────────────────────────────────────
+    const body = await request.json();
+    const { sessionToken } = body;
+    const idempotencyKey = parseIdempotencyKey(body.idempotencyKey);
+
+    if (!sessionToken || typeof sessionToken !== "string") {
+      return NextResponse.json(
+        { error: "Missing or invalid sessionToken" },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(body.guesses) || body.guesses.length === 0) {
+      return NextResponse.json(
+        { error: "Missing or invalid guesses" },
+        { status: 400 }
+      );
+    }
+    if (idempotencyKey === undefined) {
+      return NextResponse.json(
+        { error: "Invalid idempotencyKey" },
+        { status: 400 }
+      );
+    }
+
+    const parsed: (PinpointGuess | null)[] = body.guesses.map(parseGuess);
+    const guesses = parsed.filter((g): g is PinpointGuess => g !== null);
+    if (guesses.length !== parsed.length) {
+      return NextResponse.json(
+        {
+          error:
+            "Each guess needs an eventId, a whole year and an optional month (1-12)",
+        },
+        { status: 400 }
+      );
+    }
+
+    // ── Load and validate the play session ─────────────────────────────────
+    const gameSession = await getGameSession(sessionToken);
+    if (!gameSession) {
+      return NextResponse.json(
+        { error: "Game session not found" },
+        { status: 404 }
+      );
+    }
+    if (gameSession.completedAt) {
+      const replay = replayedSubmission(gameSession, idempotencyKey);
+      if (replay) {
+        return NextResponse.json(replay);
+      }
+      return NextResponse.json(
+        { error: "Game session has already been submitted" },
+        { status: 409 }
+      );
+    }
+    if (gameSession.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: "Game session has expired" },
+        { status: 410 }
+      );
+    }
+    if (gameSession.mode !== "pinpoint") {
+      return NextResponse.json(
+        { error: "Game session is not a pinpoint game" },
+        { status: 400 }
+      );
+    }
+
+    // Exactly one guess for every event that was served
+    const servedIds = new Set(gameSession.shuffle);
+    const guessedIds = new Set(guesses.map((g) => g.eventId));
+    if (
+      guesses.length !== servedIds.size ||
+      guessedIds.size !== servedIds.size ||
+      ![...guessedIds].every((id) => servedIds.has(id))
+    ) {
+      return NextResponse.json(
+        { error: "Guesses do not match the game session" },
+        { status: 400 }
+      );
+    }
+
+    // Only the player who started the session may submit it (see
+    // /api/game/submit)
+    const session = await getServerSession(authOptions);
+    if (gameSession.userId) {
+      if (session?.user?.dbId !== gameSession.userId) {
+        return NextResponse.json(
+          { error: "Game session belongs to another player" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const puzzleId = gameSession.puzzleId;
+
+    // ── Score the guesses against the stored dates ─────────────────────────
+    const answers = (await getPuzzleEvents(puzzleId)).map((e) => ({
+      ...e,
+      eventId: e.id,
+    }));
+
+    if (answers.length === 0) {
+      return NextResponse.json(
+        { error: "Puzzle not found or has no events" },
+        { status: 404 }
+      );
+    }
+
+    const result = scorePinpointGame(guesses, answers);
+
+    const completedAt = new Date();
+    const solveTimeMs =
+      completedAt.getTime() - gameSession.startedAt.getTime();
+
+    // ── Claim the session and persist, in one transaction ─────────────────
+    const submission = await db.transaction(async (tx) => {
+      const claimed = await claimGameSession(
+        tx,
+        gameSession.id,
+        completedAt,
+        idempotencyKey
+      );
+      if (!claimed) {
+        const current = await getGameSession(sessionToken, tx);
+        const replay = current && replayedSubmission(current, idempotencyKey);
+        return replay
+          ? { response: replay }
+          : { error: "Game session has already been submitted" };
+      }
+
+      let xpEarned = 0;
+      let newAchievements: Achievement[] = [];
+      let levelBefore = 0;
+      let levelAfter = 0;
+      // Guests' attempts are not tracked; their games count as first ones
+      let attemptNumber = 1;
+
+      if (session?.user?.dbId) {
+        const outcome = await recordGameResult(
+          tx,
+          {
+            userId: session.user.dbId,
+            puzzleId,
+            mode: "pinpoint",
+            won: result.won,
+            score: result.score,
+            maxScore: result.maxScore,
+            hintsUsed: 0,
+            solveTimeMs,
+          },
+          (context) =>
+            calculatePinpointXp({
+              won: result.won,
+              normalizedScore: result.normalizedScore,
+              ...context,
+            })
+        );
+
+        if (outcome.status === "recorded") {
+          xpEarned = outcome.xpEarned;
+          newAchievements = outcome.newAchievements;
+          levelBefore = outcome.levelBefore;
+          levelAfter = outcome.levelAfter;
+          attemptNumber = outcome.attemptNumber;
+        }
+      }
+
+      // A winning first attempt is compared with other players' winning
+      // first attempts (see src/lib/puzzle-stats.ts)
+      const fasterThan =
+        result.won && attemptNumber === 1
+          ? await fasterThanPercent(
+              tx,
+              puzzleId,
+              "pinpoint",
+              solveTimeMs,
+              session?.user?.dbId ?? null
+            )
+          : null;
+
+      const response = {
+        ...result,
+        xpEarned,
+        newAchievements,
+        levelBefore,
+        levelAfter,
+        fasterThanPercent: fasterThan,
+      };
+      await saveSubmissionResponse(tx, gameSession.id, response);
+      return { response };
+    });
+
+    if ("error" in submission) {
+      return NextResponse.json({ error: submission.error }, { status: 409 });
+    }
+
+    return NextResponse.json(submission.response);
+  } catch (error) {
+    // Thrown inside the transaction, so the session claim was rolled back
+    // and the session can still be submitted
+    if (error instanceof DuplicateDailyError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Failed to submit pinpoint game:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
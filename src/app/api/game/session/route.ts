@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { startGameSession } from "@/lib/game-sessions";
+import { getPuzzleEvents } from "@/lib/puzzle-events";
+
+// POST /api/game/session
+// Starts a fresh play session for a puzzle the client already has loaded.
+// Used when the player retries a puzzle: the previous session was consumed
+// by its submission, so the retry needs a new token and a new server-side
+// start time. The client reshuffles the events locally, so the session only
+// records the puzzle's event set.
+//
+// Request body:
+//   { puzzleId: string }
+//
+// Response:
+//   { sessionToken: string }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { puzzleId } = body;
+
+    if (!puzzleId || typeof puzzleId !== "string") {
+      return NextResponse.json(
+        { error: "Missing or invalid puzzleId" },
+        { status: 400 }
+      );
+    }
+
+    const events = await getPuzzleEvents(puzzleId);
+
+    if (events.length === 0) {
+      return NextResponse.json(
+        { error: "Puzzle not found or has no events" },
+        { status: 404 }
+      );
+    }
+
+    const sessionToken = await startGameSession(
+      puzzleId,
+      events.map((e) => e.id)
+    );
+
+    return NextResponse.json({ sessionToken }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to start game session:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
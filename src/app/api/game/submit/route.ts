@@ -2,40 +2,67 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/db";
-import {
-  puzzles,
-  puzzleEvents,
-  gameResults,
-  users,
-  achievements,
-  userAchievements,
-} from "@/db/schema";
-import { eq, and, desc, asc, inArray } from "drizzle-orm";
 import { calculateXp } from "@/lib/xp";
-import { checkAchievements } from "@/lib/achievements";
+import { alignTies, scoreOrdering } from "@/lib/scoring";
+import {
+  claimGameSession,
+  getGameSession,
+  parseIdempotencyKey,
+  replayedSubmission,
+  saveSubmissionResponse,
+} from "@/lib/game-sessions";
+import { getPuzzleEvents } from "@/lib/puzzle-events";
+import { DuplicateDailyError, recordGameResult } from "@/lib/game-results";
+import { fasterThanPercent } from "@/lib/puzzle-stats";
+import type { Achievement } from "@/types";
 
 // POST /api/game/submit
 // Validates the player's submitted event ordering against the correct
 // chronological order stored in the database. For authenticated users, persists
 // the game result, computes streak information, checks for newly unlocked
-// achievements, calculates XP, and updates the user record. For unauthenticated
-// users, returns the result without any persistence.
+// achievements, calculates XP, and updates the user record (see
+// src/lib/game-results.ts). For unauthenticated users, returns the result
+// without any persistence.
+//
+// Solve time and hints are not reported by the client: both come from the
+// play session started when the puzzle was served. Each session can be
+// submitted exactly once and only before it expires.
+//
+// The whole submission — claiming the session, recording the result,
+// unlocking achievements and awarding XP — is one database transaction.
+// Clients send an `idempotencyKey` that stays the same when a failed submit
+// is retried; a retry of a submission that was in fact recorded gets the
+// original response back instead of a conflict (see
+// src/lib/game-sessions.ts).
+//
+// A puzzle counts as the daily challenge only on its daily date in the
+// player's stored time zone, for both the duplicate check and daily streaks.
+//
+// Events the admin marked as a tie group share a date and are accepted in
+// any order among themselves.
 //
 // Request body:
-//   { puzzleId: string, orderedEventIds: string[], hintsUsed: number, solveTimeMs: number }
+//   { sessionToken: string, orderedEventIds: string[],
+//     idempotencyKey?: string }
 //
 // Response:
-//   { won: boolean, score: number, correctOrder: string[], xpEarned: number, newAchievements: Achievement[] }
+//   { won: boolean, score: number, maxScore: number, normalizedScore: number,
+//     strategy: ScoringStrategy, eventDeltas: EventDelta[],
+//     correctOrder: string[], eventDates: Record<string, string>,
+//     xpEarned: number, newAchievements: Achievement[],
+//     levelBefore: number, levelAfter: number,
+//     fasterThanPercent: number | null }
 export async function POST(request: Request) {
   try {
     // ── Parse and validate request body ────────────────────────────────────
     const body = await request.json();
-    const { puzzleId, orderedEventIds, hintsUsed, solveTimeMs } = body;
+    const { sessionToken, orderedEventIds } = body;
+    const idempotencyKey = parseIdempotencyKey(body.idempotencyKey);
 
     // Validate all required fields are present and correctly typed
-    if (!puzzleId || typeof puzzleId !== "string") {
+    if (!sessionToken || typeof sessionToken !== "string") {
       return NextResponse.json(
-        { error: "Missing or invalid puzzleId" },
+        { error: "Missing or invalid sessionToken" },
         { status: 400 }
       );
     }
@@ -45,27 +72,75 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
-    if (typeof hintsUsed !== "number" || hintsUsed < 0) {
+    if (idempotencyKey === undefined) {
+      return NextResponse.json(
+        { error: "Invalid idempotencyKey" },
+        { status: 400 }
+      );
+    }
+
+    // ── Load and validate the play session ─────────────────────────────────
+    const gameSession = await getGameSession(sessionToken);
+    if (!gameSession) {
+      return NextResponse.json(
+        { error: "Game session not found" },
+        { status: 404 }
+      );
+    }
+    if (gameSession.completedAt) {
+      // A retry of a recorded submission gets the original response
+      const replay = replayedSubmission(gameSession, idempotencyKey);
+      if (replay) {
+        return NextResponse.json(replay);
+      }
+      return NextResponse.json(
+        { error: "Game session has already been submitted" },
+        { status: 409 }
+      );
+    }
+    if (gameSession.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: "Game session has expired" },
+        { status: 410 }
+      );
+    }
+    if (gameSession.mode !== "classic") {
       return NextResponse.json(
-        { error: "Missing or invalid hintsUsed" },
+        { error: "Game session is not a classic game" },
         { status: 400 }
       );
     }
-    if (typeof solveTimeMs !== "number" || solveTimeMs < 0) {
+
+    // The submission must be a permutation of the events that were served
+    const servedIds = new Set(gameSession.shuffle);
+    if (
+      orderedEventIds.length !== servedIds.size ||
+      !orderedEventIds.every((id: string) => servedIds.has(id))
+    ) {
       return NextResponse.json(
-        { error: "Missing or invalid solveTimeMs" },
+        { error: "Submitted events do not match the game session" },
         { status: 400 }
       );
     }
 
+    // Only the player who started the session may submit it. Guest sessions
+    // (no userId) may be submitted by anyone holding the token, which covers
+    // players who sign in mid-game.
+    const session = await getServerSession(authOptions);
+    if (gameSession.userId) {
+      if (session?.user?.dbId !== gameSession.userId) {
+        return NextResponse.json(
+          { error: "Game session belongs to another player" },
+          { status: 403 }
+        );
+      }
+    }
+
     // ── Fetch the correct event order from the database ────────────────────
     // Events are ordered by `orderIndex` which represents the correct
     // chronological sequence
-    const correctEvents = await db
-      .select({ id: puzzleEvents.id })
-      .from(puzzleEvents)
-      .where(eq(puzzleEvents.puzzleId, puzzleId))
-      .orderBy(asc(puzzleEvents.orderIndex));
+    const puzzleId = gameSession.puzzleId;
+    const correctEvents = await getPuzzleEvents(puzzleId);
 
     if (correctEvents.length === 0) {
       return NextResponse.json(
@@ -74,252 +149,139 @@ export async function POST(request: Request) {
       );
     }
 
-    // Build the correct order as an array of event IDs
-    const correctOrder = correctEvents.map((e) => e.id);
-
-    // ── Compute score ──────────────────────────────────────────────────────
-    // Score = count of events in the correct position. A perfect score means
-    // every event matches its expected index in the chronological sequence.
-    const score = orderedEventIds.reduce(
-      (acc: number, id: string, i: number) =>
-        id === correctOrder[i] ? acc + 1 : acc,
-      0
+    // Build the correct order as an array of event IDs. Events in a tie
+    // group share a date and may be submitted in any order, so their slots
+    // follow the player's arrangement.
+    const correctOrder = alignTies(
+      orderedEventIds,
+      correctEvents.map((e) => e.id),
+      correctEvents.map((e) => e.tieGroup)
     );
-    const won = score === correctOrder.length;
-
-    // ── Check authentication ───────────────────────────────────────────────
-    // next-auth v4: use getServerSession with authOptions to retrieve the
-    // current session. If no session exists, the user is playing as a guest.
-    const session = await getServerSession(authOptions);
-
-    let xpEarned = 0;
-    let newAchievementDetails: {
-      id: string;
-      title: string;
-      description: string;
-      icon: string;
-      xpReward: number;
-    }[] = [];
-
-    if (session?.user?.id) {
-      // ── Authenticated user flow ────────────────────────────────────────
-      const walletAddress = session.user.id;
 
-      // Look up the user record by wallet address
-      const userResult = await db
-        .select()
-        .from(users)
-        .where(eq(users.walletAddress, walletAddress))
-        .limit(1);
-
-      if (userResult.length === 0) {
-        // User exists in session (JWT) but not in the database — this can
-        // happen if the DB was reset. Return the result without persisting.
-        return NextResponse.json({
-          won,
-          score,
-          correctOrder,
-          xpEarned: 0,
-          newAchievements: [],
-        });
-      }
-
-      const user = userResult[0];
-
-      // ── Daily duplicate check ───────────────────────────────────────────
-      // If this puzzle is a daily challenge and the authenticated user has
-      // already submitted a result for it, reject the submission with a 409
-      // to prevent repeated XP farming on the same daily.
-      const puzzleCheck = await db
-        .select({ isDaily: puzzles.isDaily })
-        .from(puzzles)
-        .where(eq(puzzles.id, puzzleId))
-        .limit(1);
-
-      if (puzzleCheck.length > 0 && puzzleCheck[0].isDaily) {
-        const existingResult = await db
-          .select({ id: gameResults.id })
-          .from(gameResults)
-          .where(
-            and(
-              eq(gameResults.userId, user.id),
-              eq(gameResults.puzzleId, puzzleId)
-            )
-          )
-          .limit(1);
-
-        if (existingResult.length > 0) {
-          return NextResponse.json(
-            { error: "You have already completed today's daily challenge" },
-            { status: 409 }
-          );
-        }
+    // ── Compute score ──────────────────────────────────────────────────────
+    // Scored by the configured strategy (see src/lib/scoring.ts). Every
+    // strategy reaches its maximum only for a perfectly ordered submission,
+    // so a normalized score of 1 is a win.
+    const scoreResult = scoreOrdering(orderedEventIds, correctOrder);
+    const { score, maxScore, normalizedScore } = scoreResult;
+    const won = normalizedScore === 1;
+
+    // Solve time and hints are derived from the server-side session
+    const completedAt = new Date();
+    const solveTimeMs =
+      completedAt.getTime() - gameSession.startedAt.getTime();
+    const hintsUsed = gameSession.hintedEventIds.length;
+
+    // ── Claim the session and persist, in one transaction ─────────────────
+    // The conditional update claims the session exactly once; a concurrent
+    // replay of the same token waits for this transaction and then finds
+    // the session claimed. Results are persisted for authenticated users
+    // only (next-auth v4 session retrieved above); guests store nothing
+    // beyond the claim.
+    const submission = await db.transaction(async (tx) => {
+      const claimed = await claimGameSession(
+        tx,
+        gameSession.id,
+        completedAt,
+        idempotencyKey
+      );
+      if (!claimed) {
+        // If the concurrent submission was this request retried, answer
+        // with the response it stored
+        const current = await getGameSession(sessionToken, tx);
+        const replay = current && replayedSubmission(current, idempotencyKey);
+        return replay
+          ? { response: replay }
+          : { error: "Game session has already been submitted" };
       }
 
-      // ── Record the game result ─────────────────────────────────────────
-      await db.insert(gameResults).values({
-        userId: user.id,
-        puzzleId,
-        won,
-        score,
-        hintsUsed,
-        solveTimeMs,
-      });
-
-      // ── Compute streak ─────────────────────────────────────────────────
-      // Fetch all game results for this user ordered by playedAt descending
-      // to compute the current consecutive win streak
-      const allResults = await db
-        .select({ won: gameResults.won })
-        .from(gameResults)
-        .where(eq(gameResults.userId, user.id))
-        .orderBy(desc(gameResults.playedAt));
-
-      // Count consecutive wins from the most recent game backwards
-      let currentStreak = 0;
-      for (const r of allResults) {
-        if (r.won) {
-          currentStreak++;
-        } else {
-          break;
-        }
-      }
+      let xpEarned = 0;
+      let newAchievements: Achievement[] = [];
+      let levelBefore = 0;
+      let levelAfter = 0;
+      // Guests' attempts are not tracked; their games count as first ones
+      let attemptNumber = 1;
+
+      if (session?.user?.dbId) {
+        const outcome = await recordGameResult(
+          tx,
+          {
+            userId: session.user.dbId,
+            puzzleId,
+            mode: "classic",
+            won,
+            score,
+            maxScore,
+            hintsUsed,
+            solveTimeMs,
+          },
+          (context) =>
+            calculateXp({
+              won,
+              normalizedScore,
+              hintsUsed,
+              solveTimeMs,
+              ...context,
+            })
+        );
 
-      // Compute best streak by scanning all results chronologically
-      let bestStreak = 0;
-      let tempStreak = 0;
-      // Reverse to process in chronological order (oldest first)
-      const chronologicalResults = [...allResults].reverse();
-      for (const r of chronologicalResults) {
-        if (r.won) {
-          tempStreak++;
-          if (tempStreak > bestStreak) bestStreak = tempStreak;
-        } else {
-          tempStreak = 0;
+        // A "user-missing" outcome (DB reset after sign-in) falls through
+        // and returns the result without persisting, like a guest game
+        if (outcome.status === "recorded") {
+          xpEarned = outcome.xpEarned;
+          newAchievements = outcome.newAchievements;
+          levelBefore = outcome.levelBefore;
+          levelAfter = outcome.levelAfter;
+          attemptNumber = outcome.attemptNumber;
         }
       }
 
-      // ── Compute additional stats for achievement checks ────────────────
-      const totalGames = allResults.length;
-      const totalWins = allResults.filter((r) => r.won).length;
-
-      // Count perfect wins (wins with 0 hints) from the full game history
-      const perfectWinResults = await db
-        .select({ id: gameResults.id })
-        .from(gameResults)
-        .where(
-          and(
-            eq(gameResults.userId, user.id),
-            eq(gameResults.won, true),
-            eq(gameResults.hintsUsed, 0)
-          )
-        );
-      const totalPerfectWins = perfectWinResults.length;
-
-      // Count daily challenge completions — games where the puzzle was a daily
-      const dailyResults = await db
-        .select({ id: gameResults.id })
-        .from(gameResults)
-        .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
-        .where(
-          and(eq(gameResults.userId, user.id), eq(puzzles.isDaily, true))
-        );
-      const totalDailies = dailyResults.length;
-
-      // ── Fetch already-unlocked achievements ────────────────────────────
-      const unlockedRows = await db
-        .select({ achievementId: userAchievements.achievementId })
-        .from(userAchievements)
-        .where(eq(userAchievements.userId, user.id));
-      const alreadyUnlocked = new Set(unlockedRows.map((r) => r.achievementId));
+      // A winning first attempt is compared with other players' winning
+      // first attempts (see src/lib/puzzle-stats.ts)
+      const fasterThan =
+        won && attemptNumber === 1
+          ? await fasterThanPercent(
+              tx,
+              puzzleId,
+              "classic",
+              solveTimeMs,
+              session?.user?.dbId ?? null
+            )
+          : null;
 
-      // ── Check for newly unlocked achievements ──────────────────────────
-      const newlyUnlockedIds = checkAchievements({
-        totalWins,
-        totalGames,
-        currentStreak,
-        bestStreak,
-        hintsUsedThisGame: hintsUsed,
-        solveTimeMsThisGame: solveTimeMs,
-        totalPerfectWins,
-        totalDailies,
+      // Both authenticated and unauthenticated users receive the same
+      // response shape. Unauthenticated users get xpEarned=0 and no
+      // achievements.
+      const response = {
         won,
-        alreadyUnlocked,
-      });
-
-      // ── Persist newly unlocked achievements ────────────────────────────
-      let achievementXp = 0;
-      if (newlyUnlockedIds.length > 0) {
-        // Insert rows into the user_achievements join table
-        await db.insert(userAchievements).values(
-          newlyUnlockedIds.map((achievementId) => ({
-            userId: user.id,
-            achievementId,
-          }))
-        );
-
-        // Fetch full achievement details using inArray to handle any number of
-        // newly unlocked achievements in a single query
-        const achievementRows = await db
-          .select()
-          .from(achievements)
-          .where(inArray(achievements.id, newlyUnlockedIds));
-
-        newAchievementDetails = achievementRows.map((a) => ({
-          id: a.id,
-          title: a.title,
-          description: a.description,
-          icon: a.icon,
-          xpReward: a.xpReward,
-        }));
-
-        // Sum all achievement XP rewards for the total bonus
-        achievementXp = achievementRows.reduce(
-          (sum, a) => sum + a.xpReward,
-          0
-        );
-      }
-
-      // ── Check if the puzzle is a daily challenge ───────────────────────
-      const puzzleRow = await db
-        .select({ isDaily: puzzles.isDaily })
-        .from(puzzles)
-        .where(eq(puzzles.id, puzzleId))
-        .limit(1);
-      const isDaily = puzzleRow.length > 0 && puzzleRow[0].isDaily;
-
-      // ── Calculate XP earned ────────────────────────────────────────────
-      xpEarned =
-        calculateXp({
-          won,
-          hintsUsed,
-          solveTimeMs,
-          currentStreak,
-          isDaily,
-        }) + achievementXp;
+        ...scoreResult,
+        correctOrder,
+        // Dates are withheld while the puzzle is played; reveal them now
+        eventDates: Object.fromEntries(
+          correctEvents.map((e) => [e.id, e.date])
+        ),
+        xpEarned,
+        newAchievements,
+        levelBefore,
+        levelAfter,
+        fasterThanPercent: fasterThan,
+      };
+      await saveSubmissionResponse(tx, gameSession.id, response);
+      return { response };
+    });
 
-      // ── Update user record ─────────────────────────────────────────────
-      // Increment XP and update last played timestamp
-      await db
-        .update(users)
-        .set({
-          xp: user.xp + xpEarned,
-          lastPlayedAt: new Date(),
-        })
-        .where(eq(users.id, user.id));
+    if ("error" in submission) {
+      return NextResponse.json({ error: submission.error }, { status: 409 });
     }
 
     // ── Return result ──────────────────────────────────────────────────────
-    // Both authenticated and unauthenticated users receive the same response
-    // shape. Unauthenticated users get xpEarned=0 and no achievements.
-    return NextResponse.json({
-      won,
-      score,
-      correctOrder,
-      xpEarned,
-      newAchievements: newAchievementDetails,
-    });
+    return NextResponse.json(submission.response);
   } catch (error) {
+    // Thrown inside the transaction, so the session claim was rolled back
+    // and the session can still be submitted
+    if (error instanceof DuplicateDailyError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Failed to submit game:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { db } from "@/db";
-import { puzzles, puzzleEvents } from "@/db/schema";
+import { puzzles } from "@/db/schema";
 import { eq } from "drizzle-orm";
-import { asc } from "drizzle-orm";
+import { startGameSession, parseGameMode } from "@/lib/game-sessions";
+import { getPuzzleEvents } from "@/lib/puzzle-events";
 
 // Fisher-Yates shuffle — produces a uniformly random permutation of the input
 // array. Used to randomize event order so the client never receives events in
@@ -18,10 +19,16 @@ function shuffle<T>(arr: T[]): T[] {
 
 // GET /api/puzzles/[id]
 // Returns a specific puzzle by its UUID. Events are shuffled so the client
-// receives them in a non-chronological order. The response omits `sortDate` and
-// `orderIndex` to prevent the client from trivially solving the puzzle.
+// receives them in a non-chronological order. The response omits every
+// event date and `orderIndex` to prevent the client from trivially solving
+// the puzzle.
+// Each response starts a new play session whose token must be sent back with
+// hints and the final submission.
+//
+// Query parameters:
+//   mode — "classic" (default) or "pinpoint"
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
@@ -38,6 +45,14 @@ export async function GET(
       );
     }
 
+    const mode = parseGameMode(new URL(request.url).searchParams.get("mode"));
+    if (!mode) {
+      return NextResponse.json(
+        { error: "Invalid game mode" },
+        { status: 400 }
+      );
+    }
+
     // Fetch the puzzle by primary key
     const puzzleResult = await db
       .select()
@@ -56,26 +71,33 @@ export async function GET(
 
     // Fetch all events for this puzzle, ordered by orderIndex (for shuffling
     // purposes — the index itself is not exposed)
-    const events = await db
-      .select()
-      .from(puzzleEvents)
-      .where(eq(puzzleEvents.puzzleId, puzzle.id))
-      .orderBy(asc(puzzleEvents.orderIndex));
+    const events = await getPuzzleEvents(puzzle.id);
 
-    // Shuffle events and strip sensitive fields (sortDate, orderIndex) that
-    // would reveal the answer
+    // Shuffle events and strip every field that would reveal the answer:
+    // the dates and orderIndex. Event IDs are shared by both modes, so the
+    // display date is withheld in classic mode too; hints and the submission
+    // result reveal it.
     const shuffledEvents = shuffle(events).map((e) => ({
       id: e.id,
       text: e.text,
-      date: e.date,
       url: e.url,
     }));
 
+    // Start a play session so the submit route can measure solve time and
+    // count hints server-side
+    const sessionToken = await startGameSession(
+      puzzle.id,
+      shuffledEvents.map((e) => e.id),
+      mode
+    );
+
     return NextResponse.json({
       id: puzzle.id,
       title: puzzle.title,
       category: puzzle.category,
+      mode,
       events: shuffledEvents,
+      sessionToken,
     });
   } catch (error) {
     console.error("Failed to fetch puzzle:", error);
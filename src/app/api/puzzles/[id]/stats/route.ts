@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { puzzles } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { parseGameMode } from "@/lib/game-sessions";
+import { getPuzzleStats } from "@/lib/puzzle-stats";
+
+// GET /api/puzzles/[id]/stats
+// Returns how players fare on a puzzle: solve rate, average hints, a
+// solve-time histogram and the fastest solvers. Only each player's first
+// attempt counts, so replays do not skew the numbers; retries are summarized
+// separately. Migrated guest games are left out (see src/lib/puzzle-stats.ts).
+// No authentication required.
+//
+// Query parameters:
+//   mode — "classic" (default) or "pinpoint"
+//
+// Response:
+//   PuzzleStats — { puzzleId, mode, players, solveRate, avgHints,
+//     retries: { plays, solveRate }, solveTimeHistogram: SolveTimeBucket[],
+//     fastestSolvers: PuzzleSolver[] }
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Basic UUID format validation to reject obviously invalid IDs before
+    // hitting the database
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid puzzle ID format" },
+        { status: 400 }
+      );
+    }
+
+    const mode = parseGameMode(new URL(request.url).searchParams.get("mode"));
+    if (!mode) {
+      return NextResponse.json(
+        { error: "Invalid game mode" },
+        { status: 400 }
+      );
+    }
+
+    const puzzle = await db
+      .select({ id: puzzles.id })
+      .from(puzzles)
+      .where(eq(puzzles.id, id))
+      .limit(1);
+    if (puzzle.length === 0) {
+      return NextResponse.json(
+        { error: "Puzzle not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await getPuzzleStats(id, mode));
+  } catch (error) {
+    console.error("Failed to fetch puzzle stats:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
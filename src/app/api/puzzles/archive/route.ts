@@ -1,30 +1,185 @@
 import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
 import { db } from "@/db";
-import { puzzles } from "@/db/schema";
-import { desc } from "drizzle-orm";
+import { dailyQueue, gameResults, puzzles } from "@/db/schema";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lt,
+  lte,
+  notExists,
+  or,
+  sql,
+} from "drizzle-orm";
+import { ARCHIVE_PAGE_SIZE } from "@/lib/constants";
+import { localDate } from "@/lib/time-zones";
+import { getPlayerTimeZone } from "@/lib/users";
+import type { ArchiveStatus } from "@/types";
 
 // GET /api/puzzles/archive
-// Returns metadata for all puzzles ordered by creation date (newest first).
-// Events are intentionally excluded to keep the payload small — the client
-// should fetch individual puzzles via /api/puzzles/[id] when the player
-// selects one from the archive.
-export async function GET() {
+// Returns one page of puzzle metadata, past dailies first (newest first),
+// then the other puzzles by creation date. Dailies scheduled after today, in
+// the player's time zone, and puzzles waiting in the daily queue are never
+// listed. Events are intentionally
+// excluded to keep the payload small — the client should fetch individual
+// puzzles via /api/puzzles/[id] when the player selects one from the archive.
+//
+// For signed-in players each puzzle carries a `status` of "won", "lost" or
+// "unplayed"; guests get `status: null`.
+//
+// Query parameters:
+//   page     — 1-based page number (default 1)
+//   category — only puzzles in this category
+//   daily    — "true" for dailies only, "false" for non-daily puzzles only
+//   month    — "YYYY-MM": only dailies scheduled in that month (used by the
+//              calendar view)
+//   tz       — the browser's IANA time zone (see /api/puzzles/today)
+//
+// Response:
+//   { puzzles: ArchivePuzzle[], page: number, pageSize: number,
+//     total: number, categories: string[] }
+export async function GET(request: Request) {
   try {
-    // Select only metadata columns, omitting events. Ordered by createdAt
-    // descending so the most recently added puzzles appear first.
-    const allPuzzles = await db
-      .select({
-        id: puzzles.id,
-        title: puzzles.title,
-        category: puzzles.category,
-        isDaily: puzzles.isDaily,
-        dailyDate: puzzles.dailyDate,
-        createdAt: puzzles.createdAt,
-      })
-      .from(puzzles)
-      .orderBy(desc(puzzles.createdAt));
-
-    return NextResponse.json(allPuzzles);
+    // ── Parse and validate query parameters ────────────────────────────────
+    const { searchParams } = new URL(request.url);
+    const page = Number(searchParams.get("page") ?? "1");
+    const category = searchParams.get("category");
+    const daily = searchParams.get("daily");
+    const month = searchParams.get("month");
+
+    if (!Number.isInteger(page) || page < 1) {
+      return NextResponse.json(
+        { error: "page must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+    if (daily !== null && daily !== "true" && daily !== "false") {
+      return NextResponse.json(
+        { error: "daily must be true or false" },
+        { status: 400 }
+      );
+    }
+    if (month !== null && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json(
+        { error: "month must be formatted as YYYY-MM" },
+        { status: 400 }
+      );
+    }
+
+    // ── Build filters ──────────────────────────────────────────────────────
+    // Today's date in the player's time zone, as YYYY-MM-DD for comparison
+    // with `daily_date`
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.dbId;
+    const today = localDate(
+      await getPlayerTimeZone(userId, searchParams.get("tz"))
+    );
+
+    // Future dailies stay hidden until their day comes, and so do queued
+    // puzzles, which are future dailies without a date yet
+    const released = or(
+      and(
+        eq(puzzles.isDaily, false),
+        notExists(
+          db
+            .select({ puzzleId: dailyQueue.puzzleId })
+            .from(dailyQueue)
+            .where(eq(dailyQueue.puzzleId, puzzles.id))
+        )
+      ),
+      lte(puzzles.dailyDate, today)
+    );
+
+    let monthFilter;
+    if (month) {
+      // First day of the following month, as an exclusive upper bound
+      const [year, m] = month.split("-").map(Number);
+      const next =
+        m === 12
+          ? `${year + 1}-01`
+          : `${year}-${String(m + 1).padStart(2, "0")}`;
+      monthFilter = and(
+        eq(puzzles.isDaily, true),
+        gte(puzzles.dailyDate, `${month}-01`),
+        lt(puzzles.dailyDate, `${next}-01`)
+      );
+    }
+
+    const where = and(
+      released,
+      category ? eq(puzzles.category, category) : undefined,
+      daily !== null ? eq(puzzles.isDaily, daily === "true") : undefined,
+      monthFilter
+    );
+
+    // ── Fetch the page, total count and category list ──────────────────────
+    const [rows, [{ total }], categoryRows] = await Promise.all([
+      db
+        .select({
+          id: puzzles.id,
+          title: puzzles.title,
+          category: puzzles.category,
+          isDaily: puzzles.isDaily,
+          dailyDate: puzzles.dailyDate,
+          createdAt: puzzles.createdAt,
+        })
+        .from(puzzles)
+        .where(where)
+        .orderBy(
+          sql`${puzzles.dailyDate} DESC NULLS LAST`,
+          desc(puzzles.createdAt)
+        )
+        .limit(ARCHIVE_PAGE_SIZE)
+        .offset((page - 1) * ARCHIVE_PAGE_SIZE),
+      db.select({ total: count() }).from(puzzles).where(where),
+      db
+        .selectDistinct({ category: puzzles.category })
+        .from(puzzles)
+        .where(released)
+        .orderBy(asc(puzzles.category)),
+    ]);
+
+    // ── Per-player completion state ────────────────────────────────────────
+    // A puzzle counts as won if any of the player's plays was a win
+    const outcomes = new Map<string, boolean>();
+
+    if (userId && rows.length > 0) {
+      const played = await db
+        .select({
+          puzzleId: gameResults.puzzleId,
+          won: sql<boolean>`bool_or(${gameResults.won})`,
+        })
+        .from(gameResults)
+        .where(
+          and(
+            eq(gameResults.userId, userId),
+            inArray(gameResults.puzzleId, rows.map((r) => r.id))
+          )
+        )
+        .groupBy(gameResults.puzzleId);
+
+      for (const p of played) outcomes.set(p.puzzleId, p.won);
+    }
+
+    const statusOf = (puzzleId: string): ArchiveStatus | null => {
+      if (!userId) return null;
+      if (!outcomes.has(puzzleId)) return "unplayed";
+      return outcomes.get(puzzleId) ? "won" : "lost";
+    };
+
+    return NextResponse.json({
+      puzzles: rows.map((r) => ({ ...r, status: statusOf(r.id) })),
+      page,
+      pageSize: ARCHIVE_PAGE_SIZE,
+      total,
+      categories: categoryRows.map((c) => c.category),
+    });
   } catch (error) {
     console.error("Failed to fetch puzzle archive:", error);
     return NextResponse.json(
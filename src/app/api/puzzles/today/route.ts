@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
 import { db } from "@/db";
-import { puzzles, puzzleEvents } from "@/db/schema";
-import { eq, and, sql } from "drizzle-orm";
-import { asc } from "drizzle-orm";
+import { puzzles } from "@/db/schema";
+import { sql } from "drizzle-orm";
+import { ensureDailyPuzzle } from "@/lib/daily-scheduler";
+import { startGameSession, parseGameMode } from "@/lib/game-sessions";
+import { getPuzzleEvents } from "@/lib/puzzle-events";
+import { localDate } from "@/lib/time-zones";
+import { getPlayerTimeZone } from "@/lib/users";
 
 // Fisher-Yates shuffle — produces a uniformly random permutation of the input
 // array. Used to randomize event order so the client never receives events in
@@ -17,29 +23,46 @@ function shuffle<T>(arr: T[]): T[] {
 }
 
 // GET /api/puzzles/today
-// Returns the daily puzzle if one exists for today's date, otherwise falls back
-// to a random puzzle from the database. Events are shuffled so the client
-// receives them in a non-chronological order. The response omits `sortDate` and
-// `orderIndex` to prevent the client from trivially solving the puzzle.
-export async function GET() {
+// Returns the daily puzzle for today's date in the player's time zone. If the
+// date has no daily yet, the daily scheduler fills it from the queue (see
+// src/lib/daily-scheduler.ts); only when nothing can be scheduled does the
+// route fall back to a random puzzle. Events are shuffled so the client
+// receives them in a non-chronological order. The response omits every
+// event date and `orderIndex` to prevent the client from trivially solving
+// the puzzle.
+// Each response starts a new play session whose token must be sent back with
+// hints and the final submission.
+//
+// Query parameters:
+//   mode — "classic" (default) or "pinpoint"
+//   tz   — the browser's IANA time zone. Used for guests, and saved for
+//          players with no stored zone (see getPlayerTimeZone in
+//          src/lib/users.ts).
+export async function GET(request: Request) {
   try {
-    // Format today's date as YYYY-MM-DD for comparison with the `daily_date` column
-    const today = new Date().toISOString().split("T")[0];
+    const { searchParams } = new URL(request.url);
+    const mode = parseGameMode(searchParams.get("mode"));
+    if (!mode) {
+      return NextResponse.json(
+        { error: "Invalid game mode" },
+        { status: 400 }
+      );
+    }
 
-    // Attempt to find a puzzle marked as the daily challenge for today
-    const dailyPuzzle = await db
-      .select()
-      .from(puzzles)
-      .where(and(eq(puzzles.isDaily, true), eq(puzzles.dailyDate, today)))
-      .limit(1);
+    // Today's date in the player's time zone, as YYYY-MM-DD for comparison
+    // with the `daily_date` column
+    const session = await getServerSession(authOptions);
+    const timeZone = await getPlayerTimeZone(
+      session?.user?.dbId,
+      searchParams.get("tz")
+    );
+    const today = localDate(timeZone);
 
-    let puzzle;
+    // Find today's daily, scheduling one if the date is still open
+    let puzzle = await ensureDailyPuzzle(today);
 
-    if (dailyPuzzle.length > 0) {
-      // Daily puzzle found — use it directly
-      puzzle = dailyPuzzle[0];
-    } else {
-      // No daily puzzle for today — fall back to a random puzzle.
+    if (!puzzle) {
+      // Nothing could be scheduled — fall back to a random puzzle.
       // `sql<number>\`random()\`` uses PostgreSQL's built-in random() to select
       // a uniformly random row without loading the entire table.
       const randomPuzzle = await db
@@ -61,27 +84,34 @@ export async function GET() {
     // Fetch all events belonging to the selected puzzle, ordered by their
     // correct chronological index (needed for shuffling only — index is not
     // exposed to the client)
-    const events = await db
-      .select()
-      .from(puzzleEvents)
-      .where(eq(puzzleEvents.puzzleId, puzzle.id))
-      .orderBy(asc(puzzleEvents.orderIndex));
+    const events = await getPuzzleEvents(puzzle.id);
 
-    // Shuffle events and strip sensitive fields (sortDate, orderIndex) that
-    // would reveal the answer
+    // Shuffle events and strip every field that would reveal the answer:
+    // the dates and orderIndex. Event IDs are shared by both modes, so the
+    // display date is withheld in classic mode too; hints and the submission
+    // result reveal it.
     const shuffledEvents = shuffle(events).map((e) => ({
       id: e.id,
       text: e.text,
-      date: e.date,
       url: e.url,
     }));
 
+    // Start a play session so the submit route can measure solve time and
+    // count hints server-side
+    const sessionToken = await startGameSession(
+      puzzle.id,
+      shuffledEvents.map((e) => e.id),
+      mode
+    );
+
     return NextResponse.json({
       id: puzzle.id,
       title: puzzle.title,
       category: puzzle.category,
       isDaily: puzzle.isDaily,
+      mode,
       events: shuffledEvents,
+      sessionToken,
     });
   } catch (error) {
     console.error("Failed to fetch today's puzzle:", error);
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { listSeasons } from "@/lib/seasons";
+
+// GET /api/seasons
+// Lists every leaderboard season, most recent first, so the leaderboard can
+// offer the current season and past ones (see src/lib/seasons.ts). No
+// authentication required.
+//
+// Response:
+//   { id, name, startsAt, endsAt, archived }[]
+export async function GET() {
+  try {
+    return NextResponse.json(await listSeasons());
+  } catch (error) {
+    console.error("Failed to fetch seasons:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
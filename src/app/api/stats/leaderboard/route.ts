@@ -2,18 +2,69 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/db";
-import { users, gameResults } from "@/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { users, playerStats } from "@/db/schema";
+import { eq, desc, inArray, sql } from "drizzle-orm";
 import { LEADERBOARD_PAGE_SIZE } from "@/lib/constants";
+import {
+  archiveEndedSeasons,
+  findSeason,
+  getArchivedStandings,
+  getWindowStandings,
+  periodWindow,
+} from "@/lib/seasons";
+import type { WindowStanding } from "@/lib/seasons";
+import { getBestSurvivalScores, getSurvivalStandings } from "@/lib/survival";
+
+// Columns shown for each leaderboard player. Win streaks come from
+// player_stats (see src/lib/player-stats.ts); players who have not finished
+// a game yet have no row there and show zero.
+const playerColumns = {
+  id: users.id,
+  walletAddress: users.walletAddress,
+  ensName: users.ensName,
+  xp: users.xp,
+  currentStreak: sql<number>`coalesce(${playerStats.currentStreak}, 0)`,
+  bestStreak: sql<number>`coalesce(${playerStats.bestStreak}, 0)`,
+};
+
+function selectPlayers() {
+  return db
+    .select(playerColumns)
+    .from(users)
+    .leftJoin(playerStats, eq(playerStats.userId, users.id))
+    .$dynamic();
+}
+
+// Loads the players with the given IDs, in the order given
+async function selectPlayersInOrder(ids: string[]) {
+  const rows =
+    ids.length > 0 ? await selectPlayers().where(inArray(users.id, ids)) : [];
+  const rowById = new Map(rows.map((u) => [u.id, u]));
+  return ids.map((id) => rowById.get(id)).filter((u) => u !== undefined);
+}
+
+// Basic UUID format check for the `season` parameter
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // GET /api/stats/leaderboard
-// Returns the top players sorted by the requested metric. Supports three sort
+// Returns the top players sorted by the requested metric. Supports four sort
 // modes via the `?sort=` query parameter:
 //   - "xp" (default): ranks by total XP from the users table
 //   - "streak": ranks by current consecutive win streak
 //   - "best_streak": ranks by best-ever consecutive win streak
+//   - "survival": ranks by longest finished Survival run
 //
-// Each entry includes a rank, wallet address, ENS name, XP, and streak info.
+// The `?period=` query parameter picks the time window:
+//   - "all" (default): all-time rankings, in any sort mode
+//   - "week" / "month": XP earned this week (from Monday) or this month, UTC
+//   - "season": XP earned in a season; `?season=<id>` picks one, otherwise
+//     the season running now. Ended seasons show their archived final
+//     standings (see src/lib/seasons.ts).
+// Periods other than "all" rank by XP earned in the window only.
+//
+// Each entry includes a rank, wallet address, ENS name, XP, streak info and
+// best Survival run, plus `periodXp` when ranked over a period.
 // If the requesting user is authenticated, their entry is flagged with
 // `isCurrentUser: true`.
 export async function GET(request: Request) {
@@ -21,11 +72,29 @@ export async function GET(request: Request) {
     // Parse the `sort` query parameter, defaulting to "xp" if not provided
     const { searchParams } = new URL(request.url);
     const sort = searchParams.get("sort") || "xp";
+    const period = searchParams.get("period") || "all";
 
     // Validate sort parameter against known values
-    if (!["xp", "streak", "best_streak"].includes(sort)) {
+    if (!["xp", "streak", "best_streak", "survival"].includes(sort)) {
       return NextResponse.json(
-        { error: "Invalid sort parameter. Use: xp, streak, or best_streak" },
+        {
+          error:
+            "Invalid sort parameter. Use: xp, streak, best_streak, or survival",
+        },
+        { status: 400 }
+      );
+    }
+    if (!["all", "week", "month", "season"].includes(period)) {
+      return NextResponse.json(
+        {
+          error: "Invalid period parameter. Use: all, week, month, or season",
+        },
+        { status: 400 }
+      );
+    }
+    if (period !== "all" && sort !== "xp") {
+      return NextResponse.json(
+        { error: "Only the all-time leaderboard can be sorted by streaks" },
         { status: 400 }
       );
     }
@@ -34,102 +103,107 @@ export async function GET(request: Request) {
     // This is optional — unauthenticated users can still view the leaderboard,
     // they just won't see their own entry highlighted.
     const session = await getServerSession(authOptions);
-    const currentWallet = session?.user?.id ?? null;
-
-    if (sort === "xp") {
-      // ── XP sort: simple query on the users table ─────────────────────────
-      // XP is stored directly on the user record so no aggregation is needed
-      const topUsers = await db
-        .select({
-          walletAddress: users.walletAddress,
-          ensName: users.ensName,
-          xp: users.xp,
-        })
-        .from(users)
-        .orderBy(desc(users.xp))
-        .limit(LEADERBOARD_PAGE_SIZE);
-
-      // For XP sort, we still need streak data for each user. Fetch game
-      // results for each user to compute streaks.
-      const entries = await Promise.all(
-        topUsers.map(async (u, index) => {
-          // Fetch this user's game results to compute streaks
-          const userResults = await db
-            .select({ won: gameResults.won })
-            .from(gameResults)
-            .innerJoin(users, eq(gameResults.userId, users.id))
-            .where(eq(users.walletAddress, u.walletAddress))
-            .orderBy(desc(gameResults.playedAt));
-
-          const { currentStreak, bestStreak } =
-            computeStreaks(userResults);
-
-          return {
-            rank: index + 1,
-            walletAddress: u.walletAddress,
-            ensName: u.ensName,
-            xp: u.xp,
-            currentStreak,
-            bestStreak,
-            isCurrentUser: u.walletAddress === currentWallet,
-          };
-        })
+    const currentUserId = session?.user?.dbId ?? null;
+
+    // Ranks rows that are already in leaderboard order. Best Survival runs
+    // are shown in all sort modes and looked up for the listed players only.
+    // `periodXp` holds the XP each player earned in the period, for period
+    // rankings.
+    const toEntries = async (
+      rows: Awaited<ReturnType<typeof selectPlayers>>,
+      periodXp?: Map<string, number>
+    ) => {
+      const bestSurvival = await getBestSurvivalScores(rows.map((u) => u.id));
+      return rows.map((u, index) => ({
+        rank: index + 1,
+        walletAddress: u.walletAddress,
+        ensName: u.ensName,
+        xp: u.xp,
+        currentStreak: u.currentStreak,
+        bestStreak: u.bestStreak,
+        bestSurvival: bestSurvival.get(u.id) ?? 0,
+        ...(periodXp && { periodXp: periodXp.get(u.id) ?? 0 }),
+        isCurrentUser: u.id === currentUserId,
+      }));
+    };
+
+    if (period !== "all") {
+      // ── Period rankings: XP earned within the window ───────────────────
+      let standings: WindowStanding[];
+
+      if (period === "season") {
+        const seasonId = searchParams.get("season");
+        if (seasonId !== null && !uuidRegex.test(seasonId)) {
+          return NextResponse.json(
+            { error: "Invalid season ID format" },
+            { status: 400 }
+          );
+        }
+
+        const season = await findSeason(seasonId);
+        if (!season) {
+          return NextResponse.json(
+            {
+              error: seasonId
+                ? "Season not found"
+                : "No season is running right now",
+            },
+            { status: 404 }
+          );
+        }
+
+        if (new Date(season.endsAt) <= new Date()) {
+          // Ended seasons are ranked by their final standings, archiving
+          // them first if the archive script has not run yet
+          if (!season.archived) await archiveEndedSeasons();
+          standings = await getArchivedStandings(
+            season.id,
+            LEADERBOARD_PAGE_SIZE
+          );
+        } else {
+          standings = await getWindowStandings(
+            new Date(season.startsAt),
+            new Date(),
+            LEADERBOARD_PAGE_SIZE
+          );
+        }
+      } else {
+        const { start, end } = periodWindow(period as "week" | "month");
+        standings = await getWindowStandings(
+          start,
+          end,
+          LEADERBOARD_PAGE_SIZE
+        );
+      }
+
+      const rows = await selectPlayersInOrder(standings.map((s) => s.userId));
+      return NextResponse.json(
+        await toEntries(rows, new Map(standings.map((s) => [s.userId, s.xp])))
       );
+    }
 
-      return NextResponse.json(entries);
+    if (sort === "survival") {
+      // ── Survival sort: players ranked by their longest run ───────────────
+      // Only players with at least one finished run are ranked
+      const standings = await getSurvivalStandings(LEADERBOARD_PAGE_SIZE);
+      const rows = await selectPlayersInOrder(standings.map((s) => s.userId));
+      return NextResponse.json(await toEntries(rows));
     }
 
-    // ── Streak-based sorts ─────────────────────────────────────────────────
-    // For streak and best_streak sorts, we need to compute streaks for every
-    // user from their game results, then sort and rank.
-
-    // Fetch all users
-    const allUsers = await db
-      .select({
-        id: users.id,
-        walletAddress: users.walletAddress,
-        ensName: users.ensName,
-        xp: users.xp,
-      })
-      .from(users);
-
-    // Compute streaks for each user
-    const usersWithStreaks = await Promise.all(
-      allUsers.map(async (u) => {
-        const userResults = await db
-          .select({ won: gameResults.won })
-          .from(gameResults)
-          .where(eq(gameResults.userId, u.id))
-          .orderBy(desc(gameResults.playedAt));
-
-        const { currentStreak, bestStreak } = computeStreaks(userResults);
-
-        return {
-          walletAddress: u.walletAddress,
-          ensName: u.ensName,
-          xp: u.xp,
-          currentStreak,
-          bestStreak,
-          isCurrentUser: u.walletAddress === currentWallet,
-        };
-      })
-    );
+    // ── XP and streak sorts ────────────────────────────────────────────────
+    // XP is stored on the user record and streaks in player_stats, so the
+    // database sorts and limits directly. Ties go to the player with more XP.
+    const orderColumn = {
+      xp: users.xp,
+      streak: playerColumns.currentStreak,
+      best_streak: playerColumns.bestStreak,
+    }[sort as "xp" | "streak" | "best_streak"];
 
-    // Sort by the requested streak metric (descending) and take the top N
-    usersWithStreaks.sort((a, b) => {
-      const key = sort === "streak" ? "currentStreak" : "bestStreak";
-      return b[key] - a[key];
-    });
+    const rows = await selectPlayers()
+      .orderBy(desc(orderColumn), desc(users.xp))
+      .limit(LEADERBOARD_PAGE_SIZE);
 
-    // Apply the page size limit and assign ranks
-    const entries = usersWithStreaks
-      .slice(0, LEADERBOARD_PAGE_SIZE)
-      .map((u, index) => ({
-        rank: index + 1,
-        ...u,
-      }));
-
-    return NextResponse.json(entries);
+    return NextResponse.json(await toEntries(rows));
   } catch (error) {
     console.error("Failed to fetch leaderboard:", error);
     return NextResponse.json(
@@ -138,35 +212,3 @@ export async function GET(request: Request) {
     );
   }
 }
-
-// computeStreaks takes game results ordered by playedAt descending and computes
-// both the current consecutive win streak (from most recent game backwards)
-// and the best-ever consecutive win streak (scanning all games chronologically).
-function computeStreaks(
-  results: { won: boolean }[]
-): { currentStreak: number; bestStreak: number } {
-  // Current streak: count consecutive wins from the most recent game
-  let currentStreak = 0;
-  for (const r of results) {
-    if (r.won) {
-      currentStreak++;
-    } else {
-      break;
-    }
-  }
-
-  // Best streak: scan chronologically (oldest first) for the longest run
-  let bestStreak = 0;
-  let tempStreak = 0;
-  const chronological = [...results].reverse();
-  for (const r of chronological) {
-    if (r.won) {
-      tempStreak++;
-      if (tempStreak > bestStreak) bestStreak = tempStreak;
-    } else {
-      tempStreak = 0;
-    }
-  }
-
-  return { currentStreak, bestStreak };
-}
@@ -9,7 +9,16 @@ import {
   achievements,
 } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { XP_PER_LEVEL } from "@/lib/constants";
+import { getAchievementProgress } from "@/lib/achievements";
+import { levelProgress } from "@/lib/levels";
+import {
+  getCategoryStats,
+  getPlayerStats,
+  summarizePlayerStats,
+} from "@/lib/player-stats";
+import { getDailyStreaks } from "@/lib/streaks";
+import { DEFAULT_TIME_ZONE } from "@/lib/time-zones";
+import { getXpBreakdown, getXpHistory } from "@/lib/xp-ledger";
 
 // GET /api/stats/me
 // Returns comprehensive statistics for the currently authenticated user.
@@ -18,9 +27,15 @@ import { XP_PER_LEVEL } from "@/lib/constants";
 // Response shape:
 //   {
 //     gamesPlayed, wins, winRate, currentStreak, bestStreak,
-//     avgSolveTimeMs, fastestSolveTimeMs, xp, level,
+//     dailyStreak, bestDailyStreak, avgSolveTimeMs, fastestSolveTimeMs,
+//     xp, level, levelStartXp, nextLevelXp, levelProgress,
+//     categories: CategoryStats[] (per puzzle category, most played first),
 //     achievements: UserAchievement[],
-//     recentGames: GameResult[] (last 20)
+//     achievementProgress: Record<string, AchievementProgress>
+//       (by achievement ID; the catalog itself is GET /api/achievements),
+//     recentGames: GameResult[] (last 20),
+//     xpBreakdown: XpSourceTotal[],
+//     xpHistory: XpEvent[] (last 20 awards)
 //   }
 export async function GET() {
   try {
@@ -28,20 +43,18 @@ export async function GET() {
     // next-auth v4: getServerSession with authOptions retrieves the JWT-based
     // session. Returns null if the user is not authenticated.
     const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
+    if (!session?.user?.dbId) {
       return NextResponse.json(
         { error: "Authentication required" },
         { status: 401 }
       );
     }
 
-    const walletAddress = session.user.id;
-
     // ── Fetch user record ──────────────────────────────────────────────────
     const userResult = await db
       .select()
       .from(users)
-      .where(eq(users.walletAddress, walletAddress))
+      .where(eq(users.id, session.user.dbId))
       .limit(1);
 
     if (userResult.length === 0) {
@@ -53,66 +66,25 @@ export async function GET() {
 
     const user = userResult[0];
 
-    // ── Fetch all game results ─────────────────────────────────────────────
-    // Ordered by playedAt descending for streak computation and recent history
-    const allResults = await db
-      .select()
-      .from(gameResults)
-      .where(eq(gameResults.userId, user.id))
-      .orderBy(desc(gameResults.playedAt));
-
-    // ── Compute basic stats ────────────────────────────────────────────────
-    const gamesPlayed = allResults.length;
-    const wins = allResults.filter((r) => r.won).length;
-    const winRate = gamesPlayed > 0 ? wins / gamesPlayed : 0;
-
-    // ── Compute current streak ─────────────────────────────────────────────
-    // Count consecutive wins from the most recent game backwards. A single
-    // loss breaks the streak.
-    let currentStreak = 0;
-    for (const r of allResults) {
-      if (r.won) {
-        currentStreak++;
-      } else {
-        break;
-      }
-    }
-
-    // ── Compute best streak ────────────────────────────────────────────────
-    // Scan all results in chronological order (oldest first) to find the
-    // longest consecutive win run
-    let bestStreak = 0;
-    let tempStreak = 0;
-    const chronologicalResults = [...allResults].reverse();
-    for (const r of chronologicalResults) {
-      if (r.won) {
-        tempStreak++;
-        if (tempStreak > bestStreak) bestStreak = tempStreak;
-      } else {
-        tempStreak = 0;
-      }
-    }
+    // ── Read stored stats ──────────────────────────────────────────────────
+    // Totals, win streaks and solve times come from player_stats (see
+    // src/lib/player-stats.ts); daily streaks count consecutive days with a
+    // completed daily challenge in the player's time zone (see
+    // src/lib/streaks.ts)
+    const counters = await getPlayerStats(user.id);
+    const stats = summarizePlayerStats(counters);
+    const { dailyStreak, bestDailyStreak } = await getDailyStreaks(
+      user.id,
+      user.timeZone ?? DEFAULT_TIME_ZONE
+    );
 
-    // ── Compute solve time stats ───────────────────────────────────────────
-    // Only consider winning games for solve time statistics (losses don't
-    // represent meaningful solve times)
-    const winningResults = allResults.filter((r) => r.won);
-    const avgSolveTimeMs =
-      winningResults.length > 0
-        ? Math.round(
-            winningResults.reduce((sum, r) => sum + r.solveTimeMs, 0) /
-              winningResults.length
-          )
-        : 0;
-    const fastestSolveTimeMs =
-      winningResults.length > 0
-        ? Math.min(...winningResults.map((r) => r.solveTimeMs))
-        : null;
+    // Win rate, games and fastest solve in each puzzle category
+    const categories = await getCategoryStats(user.id);
 
     // ── Compute level from XP ──────────────────────────────────────────────
-    // Level N requires N * XP_PER_LEVEL total XP. Integer division gives the
-    // current level.
-    const level = Math.floor(user.xp / XP_PER_LEVEL);
+    // The level and the XP bounds of the current level come from the level
+    // curve (see src/lib/levels.ts)
+    const level = levelProgress(user.xp);
 
     // ── Fetch achievements with details ────────────────────────────────────
     // Inner join user_achievements with achievements to get full metadata
@@ -143,31 +115,60 @@ export async function GET() {
       unlockedAt: a.unlockedAt.toISOString(),
     }));
 
+    // ── Compute achievement progress ───────────────────────────────────────
+    // How close the player is to each locked achievement, so the profile
+    // can show progress bars. Progress is measured with the same facts the
+    // unlock rules use (see src/lib/achievement-rules.ts).
+    const achievementProgress = await getAchievementProgress(user.id, {
+      lifetime: {
+        gamesPlayed: counters.gamesPlayed,
+        wins: counters.wins,
+        perfectWins: counters.perfectWins,
+        winStreak: counters.currentStreak,
+      },
+      daily: { completed: counters.dailiesCompleted, streak: dailyStreak },
+    });
+
     // ── Fetch recent game history ──────────────────────────────────────────
     // Return the last 20 games with relevant details for the player's
     // activity feed
-    const recentGames = allResults.slice(0, 20).map((r) => ({
+    const recentResults = await db
+      .select()
+      .from(gameResults)
+      .where(eq(gameResults.userId, user.id))
+      .orderBy(desc(gameResults.playedAt))
+      .limit(20);
+
+    const recentGames = recentResults.map((r) => ({
       id: r.id,
       puzzleId: r.puzzleId,
       won: r.won,
       score: r.score,
+      mode: r.mode,
+      maxScore: r.maxScore,
       hintsUsed: r.hintsUsed,
       solveTimeMs: r.solveTimeMs,
       playedAt: r.playedAt.toISOString(),
     }));
 
+    // ── Fetch XP history ───────────────────────────────────────────────────
+    // Where the player's XP came from, by source and award by award (see
+    // src/lib/xp-ledger.ts)
+    const xpBreakdown = await getXpBreakdown(user.id);
+    const xpHistory = await getXpHistory(user.id, 20);
+
     return NextResponse.json({
-      gamesPlayed,
-      wins,
-      winRate,
-      currentStreak,
-      bestStreak,
-      avgSolveTimeMs,
-      fastestSolveTimeMs,
+      ...stats,
+      dailyStreak,
+      bestDailyStreak,
       xp: user.xp,
-      level,
+      ...level,
+      categories,
       achievements: formattedAchievements,
+      achievementProgress,
       recentGames,
+      xpBreakdown,
+      xpHistory,
     });
   } catch (error) {
     console.error("Failed to fetch user stats:", error);
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getDailyStreaks } from "@/lib/streaks";
+import { getPlayerTimeZone } from "@/lib/users";
+
+// GET /api/stats/streak
+// Returns only the authenticated user's daily streak, for the navbar badge.
+// The full statistics are GET /api/stats/me. Returns 401 if not
+// authenticated.
+//
+// Response:
+//   { dailyStreak: number }
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbId) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Streak days are dates in the player's stored time zone
+    const timeZone = await getPlayerTimeZone(session.user.dbId, null);
+    const { dailyStreak } = await getDailyStreaks(session.user.dbId, timeZone);
+
+    return NextResponse.json({ dailyStreak });
+  } catch (error) {
+    console.error("Failed to fetch daily streak:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/db";
+import { survivalRuns } from "@/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import {
+  expireSurvivalRuns,
+  getSurvivalRun,
+  isSurvivalRunExpired,
+  loadSurvivalEvents,
+  dealSurvivalEvent,
+  isValidPlacement,
+  findPlacement,
+  toTimelineCard,
+  toPendingCard,
+} from "@/lib/survival";
+import type { SurvivalEventRow } from "@/lib/survival";
+
+// POST /api/survival/place
+// Places the run's pending event at `position` in the timeline (0 = before
+// the earliest card). A correct placement extends the timeline and deals the
+// next event; the first misplacement ends the run with the timeline length
+// as its score. The run also ends, unbeaten, when the event bank runs out.
+// A run left idle for too long expires with the score it reached (see
+// src/lib/survival.ts).
+//
+// Request body:
+//   { runToken: string, position: number }
+//
+// Response:
+//   { correct: boolean, placed: PuzzleEvent, position: number, score: number,
+//     pending: { id, text, url } | null, ended: boolean }
+export async function POST(request: Request) {
+  try {
+    // ── Parse and validate request body ────────────────────────────────────
+    const body = await request.json();
+    const { runToken, position } = body;
+
+    if (!runToken || typeof runToken !== "string") {
+      return NextResponse.json(
+        { error: "Missing or invalid runToken" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(position) || position < 0) {
+      return NextResponse.json(
+        { error: "Missing or invalid position" },
+        { status: 400 }
+      );
+    }
+
+    // ── Load and validate the run ──────────────────────────────────────────
+    const run = await getSurvivalRun(runToken);
+    if (!run) {
+      return NextResponse.json(
+        { error: "Survival run not found" },
+        { status: 404 }
+      );
+    }
+    if (run.endedAt || !run.pendingEventId) {
+      return NextResponse.json(
+        { error: "Survival run has already ended" },
+        { status: 409 }
+      );
+    }
+    if (isSurvivalRunExpired(run)) {
+      await expireSurvivalRuns(run.id);
+      return NextResponse.json(
+        { error: "Survival run has expired" },
+        { status: 410 }
+      );
+    }
+    if (position > run.timeline.length) {
+      return NextResponse.json(
+        { error: "Position is outside the timeline" },
+        { status: 400 }
+      );
+    }
+
+    // Only the player who started the run may continue it
+    if (run.userId) {
+      const session = await getServerSession(authOptions);
+      if (session?.user?.dbId !== run.userId) {
+        return NextResponse.json(
+          { error: "Survival run belongs to another player" },
+          { status: 403 }
+        );
+      }
+    }
+
+    // ── Check the placement against the stored dates ───────────────────────
+    const events = await loadSurvivalEvents([
+      ...run.timeline,
+      run.pendingEventId,
+    ]);
+    const pendingEvent = events.get(run.pendingEventId);
+    const timelineEvents = run.timeline.map((id) => events.get(id));
+
+    if (!pendingEvent || timelineEvents.some((d) => d === undefined)) {
+      // An event was deleted from the bank mid-run
+      return NextResponse.json(
+        { error: "Survival run can no longer continue" },
+        { status: 410 }
+      );
+    }
+
+    const dates = timelineEvents as SurvivalEventRow[];
+    const correct = isValidPlacement(dates, position, pendingEvent);
+
+    // ── Advance or end the run ─────────────────────────────────────────────
+    let timeline = run.timeline;
+    let next = null;
+    if (correct) {
+      timeline = [
+        ...run.timeline.slice(0, position),
+        pendingEvent.id,
+        ...run.timeline.slice(position),
+      ];
+      next = await dealSurvivalEvent(timeline);
+    }
+
+    const ended = next === null;
+    const score = timeline.length;
+
+    // The conditional update only succeeds if this card is still pending,
+    // so a replayed or concurrent request cannot place it twice
+    const updated = await db
+      .update(survivalRuns)
+      .set({
+        timeline,
+        pendingEventId: next?.id ?? null,
+        score,
+        lastPlayedAt: new Date(),
+        endedAt: ended ? new Date() : null,
+      })
+      .where(
+        and(
+          eq(survivalRuns.id, run.id),
+          eq(survivalRuns.pendingEventId, run.pendingEventId),
+          isNull(survivalRuns.endedAt)
+        )
+      )
+      .returning({ id: survivalRuns.id });
+
+    if (updated.length === 0) {
+      return NextResponse.json(
+        { error: "This card has already been placed" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      correct,
+      placed: toTimelineCard(pendingEvent),
+      position: correct
+        ? position
+        : findPlacement(dates, pendingEvent),
+      score,
+      pending: next ? toPendingCard(next) : null,
+      ended,
+    });
+  } catch (error) {
+    console.error("Failed to place survival event:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
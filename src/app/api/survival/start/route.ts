@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  dealSurvivalEvent,
+  createSurvivalRun,
+  toTimelineCard,
+  toPendingCard,
+} from "@/lib/survival";
+
+// POST /api/survival/start
+// Starts a Survival run: deals one event onto the timeline (date revealed)
+// and one event for the player to place (date withheld). Signed-in players
+// own their run, so only they can continue it and its best score counts
+// towards the Survival leaderboard.
+//
+// Response:
+//   { runToken: string, timeline: PuzzleEvent[], pending: { id, text, url }, score: number }
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    const first = await dealSurvivalEvent([]);
+    const pending = first ? await dealSurvivalEvent([first.id]) : null;
+
+    if (!first || !pending) {
+      return NextResponse.json(
+        { error: "Not enough events to start a run" },
+        { status: 404 }
+      );
+    }
+
+    const runToken = await createSurvivalRun(
+      session?.user?.dbId ?? null,
+      first.id,
+      pending.id
+    );
+
+    return NextResponse.json(
+      {
+        runToken,
+        timeline: [toTimelineCard(first)],
+        pending: toPendingCard(pending),
+        score: 1,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to start survival run:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
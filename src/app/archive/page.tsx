@@ -0,0 +1,313 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { GameBoard } from "@/components/game-board";
+import { ArchiveCalendar } from "@/components/archive-calendar";
+import { browserTimeZone, localDate } from "@/lib/time-zones";
+import { usePuzzleSession } from "@/lib/use-puzzle-session";
+import type {
+  ArchivePage as ArchivePageData,
+  ArchivePuzzle,
+  ArchiveStatus,
+  Puzzle,
+} from "@/types";
+
+// ─── Status Badges ───────────────────────────────────────────────────────────
+// Labels and colours for the player's outcome on each listed puzzle
+const STATUS_BADGES: Record<
+  ArchiveStatus,
+  { label: string; className: string }
+> = {
+  won: { label: "Won", className: "bg-lime/30 text-navy" },
+  lost: { label: "Lost", className: "bg-red-100 text-red-700" },
+  unplayed: { label: "Not played", className: "bg-gray-100 text-gray-500" },
+};
+
+// ─── Archive Page ─────────────────────────────────────────────────────────────
+// Lists past puzzles from GET /api/puzzles/archive: a calendar of past daily
+// challenges and a paginated list filterable by category. Signed-in players
+// see whether they won, lost or haven't played each puzzle. Selecting a
+// puzzle loads it through GET /api/puzzles/[id] into the GameBoard, backed by
+// the same submit, hint and retry endpoints as the home page.
+
+export default function ArchivePage() {
+  // ── List state ──────────────────────────────────────────────────────────
+  const [category, setCategory] = useState("");
+  const [page, setPage] = useState(1);
+  const [list, setList] = useState<ArchivePageData | null>(null);
+  const [listLoading, setListLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // ── Calendar state ──────────────────────────────────────────────────────
+  const [month, setMonth] = useState(() =>
+    localDate(browserTimeZone()).slice(0, 7)
+  );
+  const [monthPuzzles, setMonthPuzzles] = useState<ArchivePuzzle[]>([]);
+
+  // Counter incremented after a game so completion states are refetched
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // ── Selected puzzle state ───────────────────────────────────────────────
+  // `selected` is the archive entry that was clicked, `puzzle` the playable
+  // puzzle loaded for it
+  const [selected, setSelected] = useState<ArchivePuzzle | null>(null);
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [puzzleLoading, setPuzzleLoading] = useState(false);
+
+  // ─── Fetch List Page ────────────────────────────────────────────────────
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchList() {
+      setListLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({
+          page: String(page),
+          tz: browserTimeZone(),
+        });
+        if (category) params.set("category", category);
+
+        const res = await fetch(`/api/puzzles/archive?${params}`);
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(
+            data?.error || `Failed to load archive (${res.status})`
+          );
+        }
+
+        const data: ArchivePageData = await res.json();
+        if (!cancelled) {
+          setList(data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load archive"
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setListLoading(false);
+        }
+      }
+    }
+
+    fetchList();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [category, page, refreshKey]);
+
+  // ─── Fetch Calendar Month ───────────────────────────────────────────────
+  // A month holds at most 31 dailies, so the first page covers it
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchMonth() {
+      try {
+        const params = new URLSearchParams({ month, tz: browserTimeZone() });
+        const res = await fetch(`/api/puzzles/archive?${params}`);
+        if (!res.ok) return;
+
+        const data: ArchivePageData = await res.json();
+        if (!cancelled) {
+          setMonthPuzzles(data.puzzles);
+        }
+      } catch (err) {
+        console.error("Failed to load archive month:", err);
+      }
+    }
+
+    fetchMonth();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [month, refreshKey]);
+
+  // ─── Load Selected Puzzle ───────────────────────────────────────────────
+  // Each fetch of /api/puzzles/[id] starts a new play session
+  const handleSelect = useCallback(async (entry: ArchivePuzzle) => {
+    setPuzzleLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/puzzles/${entry.id}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || `Failed to load puzzle (${res.status})`);
+      }
+
+      const data: Puzzle = await res.json();
+      setSelected(entry);
+      setPuzzle(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load puzzle");
+    } finally {
+      setPuzzleLoading(false);
+    }
+  }, []);
+
+  // ─── Server-Backed Game Handlers ────────────────────────────────────────
+  // Same play session handling as the home page (see
+  // src/lib/use-puzzle-session.ts)
+  const { handleSubmit, handleHint, handleRetry } = usePuzzleSession(puzzle);
+
+  // Returns to the archive and refetches completion states
+  const handleBack = useCallback(() => {
+    setSelected(null);
+    setPuzzle(null);
+    setRefreshKey((prev) => prev + 1);
+  }, []);
+
+  // ─── Puzzle View ────────────────────────────────────────────────────────
+  if (puzzle) {
+    // Only today's daily carries the badge; past dailies replay as ordinary
+    // games, as the submit route scores them
+    const isTodaysDaily =
+      selected !== null &&
+      selected.isDaily &&
+      selected.dailyDate === localDate(browserTimeZone());
+
+    return (
+      <div className="mx-auto max-w-2xl px-4">
+        <button
+          type="button"
+          onClick={handleBack}
+          className="mb-4 text-sm font-medium text-navy hover:underline"
+        >
+          ← Back to archive
+        </button>
+
+        <h1 className="mb-6 text-center text-2xl font-bold text-navy">
+          {puzzle.title}
+        </h1>
+
+        <GameBoard
+          key={puzzle.id}
+          puzzle={puzzle}
+          onSubmit={handleSubmit}
+          onHint={handleHint}
+          onRetry={handleRetry}
+          onNextPuzzle={handleBack}
+          isDaily={isTodaysDaily}
+        />
+      </div>
+    );
+  }
+
+  const totalPages = list
+    ? Math.max(1, Math.ceil(list.total / list.pageSize))
+    : 1;
+
+  // ─── Archive View ───────────────────────────────────────────────────────
+  return (
+    <div className="mx-auto max-w-2xl space-y-6 px-4">
+      <h1 className="text-center text-2xl font-bold text-navy">Archive</h1>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* ── Calendar of past dailies ───────────────────────────────────── */}
+      <ArchiveCalendar
+        month={month}
+        puzzles={monthPuzzles}
+        onSelect={handleSelect}
+        onMonthChange={setMonth}
+      />
+
+      {/* ── Category filter ────────────────────────────────────────────── */}
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-navy">All Puzzles</h2>
+        <select
+          value={category}
+          onChange={(e) => {
+            setCategory(e.target.value);
+            setPage(1);
+          }}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+        >
+          <option value="">All categories</option>
+          {list?.categories.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* ── Puzzle list ────────────────────────────────────────────────── */}
+      {listLoading || puzzleLoading ? (
+        <div className="flex justify-center py-10">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-navy/20 border-t-navy" />
+        </div>
+      ) : list && list.puzzles.length > 0 ? (
+        <div className="space-y-2">
+          {list.puzzles.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => handleSelect(p)}
+              className="flex w-full items-center gap-3 rounded-lg border border-border bg-white px-4 py-3 text-left transition-colors hover:bg-navy/5"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-semibold text-navy">
+                  {p.title}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {p.category}
+                  {p.isDaily && p.dailyDate && ` · Daily ${p.dailyDate}`}
+                </p>
+              </div>
+              {/* Completion state, only for signed-in players */}
+              {p.status && (
+                <span
+                  className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${
+                    STATUS_BADGES[p.status].className
+                  }`}
+                >
+                  {STATUS_BADGES[p.status].label}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="py-10 text-center text-sm text-gray-500">
+          No puzzles found.
+        </p>
+      )}
+
+      {/* ── Pagination ─────────────────────────────────────────────────── */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4 text-sm">
+          <button
+            type="button"
+            onClick={() => setPage((prev) => prev - 1)}
+            disabled={page <= 1}
+            className="rounded-lg px-3 py-1 text-navy hover:bg-navy/10 disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage((prev) => prev + 1)}
+            disabled={page >= totalPages}
+            className="rounded-lg px-3 py-1 text-navy hover:bg-navy/10 disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
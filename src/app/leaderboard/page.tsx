@@ -2,31 +2,68 @@
 
 import { useEffect, useState } from "react";
 import { LeaderboardTable } from "@/components/leaderboard-table";
-import type { LeaderboardEntry } from "@/types";
+import type { LeaderboardEntry, LeaderboardPeriod, Season } from "@/types";
 
 // ─── Sort Options ────────────────────────────────────────────────────────────
-// Defines the three available sort modes for the leaderboard. Each option has
+// Defines the four available sort modes for the leaderboard. Each option has
 // a `value` matching the API query parameter and a `label` for the toggle
 // button text.
 const SORT_OPTIONS = [
   { value: "xp", label: "Top XP" },
   { value: "streak", label: "Current Streak" },
   { value: "best_streak", label: "Best Streak" },
+  { value: "survival", label: "Survival" },
 ] as const;
 
 // Type alias for valid sort values extracted from the SORT_OPTIONS constant
 type SortValue = (typeof SORT_OPTIONS)[number]["value"];
 
+// ─── Period Options ──────────────────────────────────────────────────────────
+// Time windows the leaderboard can rank over, matching the API's `period`
+// parameter. Periods other than all-time rank by XP earned in the window,
+// so the sort buttons only apply to "All Time".
+const PERIOD_OPTIONS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: "all", label: "All Time" },
+  { value: "week", label: "This Week" },
+  { value: "month", label: "This Month" },
+  { value: "season", label: "Seasons" },
+];
+
+// Formats a season's date range, e.g. "Jan 1 – Mar 31, 2026". The end is
+// exclusive, so the last day shown is the day before it.
+function formatSeasonRange(season: Season): string {
+  const start = new Date(season.startsAt);
+  const lastDay = new Date(new Date(season.endsAt).getTime() - 1);
+  const format = (d: Date, withYear: boolean) =>
+    d.toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      year: withYear ? "numeric" : undefined,
+      timeZone: "UTC",
+    });
+  return `${format(start, false)} – ${format(lastDay, true)}`;
+}
+
 // ─── Leaderboard Page ────────────────────────────────────────────────────────
 // Public page (no auth required) displaying ranked player standings. Players
-// can toggle between three sort modes: Top XP, Current Streak, and Best
-// Streak. Data is fetched from GET /api/stats/leaderboard?sort={mode}.
+// can toggle between four sort modes: Top XP, Current Streak, Best Streak
+// and Survival (longest run). Data is fetched from
+// GET /api/stats/leaderboard?sort={mode}.
+// Period tabs switch to XP earned this week, this month or in a season;
+// past seasons show their archived final standings.
 //
 // The page handles loading, empty, and error states gracefully.
 export default function LeaderboardPage() {
   // Active sort mode, defaults to "xp" (Top XP)
   const [sortBy, setSortBy] = useState<SortValue>("xp");
 
+  // Active period, defaults to all-time
+  const [period, setPeriod] = useState<LeaderboardPeriod>("all");
+
+  // Every season, most recent first, and the one selected under "Seasons"
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [seasonId, setSeasonId] = useState<string | null>(null);
+
   // Leaderboard entries fetched from the API
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
 
@@ -41,10 +78,42 @@ export default function LeaderboardPage() {
   // the new value equals the current value for primitives)
   const [fetchKey, setFetchKey] = useState(0);
 
+  // ─── Fetch Seasons ───────────────────────────────────────────────────────
+  // Loaded once. The season running now is selected by default, otherwise
+  // the most recent one. Without seasons the "Seasons" tab is hidden.
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchSeasons() {
+      try {
+        const res = await fetch("/api/seasons");
+        if (!res.ok) return;
+        const json: Season[] = await res.json();
+        if (cancelled) return;
+
+        const now = Date.now();
+        const running = json.find(
+          (s) =>
+            Date.parse(s.startsAt) <= now && now < Date.parse(s.endsAt)
+        );
+        setSeasons(json);
+        setSeasonId((running ?? json[0])?.id ?? null);
+      } catch {
+        // Seasons are optional; the other periods still work without them
+      }
+    }
+
+    fetchSeasons();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // ─── Fetch Leaderboard Data ──────────────────────────────────────────────
-  // Re-fetches whenever sortBy or fetchKey changes. Uses a cancelled flag to
-  // prevent state updates after unmount or when a newer fetch supersedes a
-  // stale one (e.g., rapid sort toggling).
+  // Re-fetches whenever sortBy, period, seasonId or fetchKey changes. Uses a
+  // cancelled flag to prevent state updates after unmount or when a newer
+  // fetch supersedes a stale one (e.g., rapid sort toggling).
   useEffect(() => {
     let cancelled = false;
 
@@ -53,7 +122,13 @@ export default function LeaderboardPage() {
       setError(null);
 
       try {
-        const res = await fetch(`/api/stats/leaderboard?sort=${sortBy}`);
+        const query =
+          period === "all"
+            ? `sort=${sortBy}`
+            : period === "season"
+              ? `period=season&season=${seasonId}`
+              : `period=${period}`;
+        const res = await fetch(`/api/stats/leaderboard?${query}`);
 
         if (!res.ok) {
           const body = await res.json().catch(() => null);
@@ -80,34 +155,38 @@ export default function LeaderboardPage() {
       }
     }
 
+    // The season tab waits until a season is selected
+    if (period === "season" && !seasonId) return;
+
     doFetch();
 
     return () => {
       cancelled = true;
     };
-  }, [sortBy, fetchKey]);
+  }, [sortBy, period, seasonId, fetchKey]);
 
   return (
     <div className="mx-auto max-w-3xl space-y-6 px-4">
       {/* ── Page Header ──────────────────────────────────────────────────── */}
       <h1 className="text-2xl font-bold text-navy">Leaderboard</h1>
 
-      {/* ── Sort Toggle Buttons ──────────────────────────────────────────── */}
-      {/* Three buttons for switching between sort modes. The active button
-          gets a navy background with white text; inactive buttons are
-          outlined with navy/10 background on hover. */}
-      <div className="flex gap-2">
-        {SORT_OPTIONS.map((option) => (
+      {/* ── Period Tabs ──────────────────────────────────────────────────── */}
+      {/* Underlined tabs for the time window; "Seasons" only appears once
+          an admin has created a season */}
+      <div className="flex gap-4 border-b border-border">
+        {PERIOD_OPTIONS.filter(
+          (option) => option.value !== "season" || seasons.length > 0
+        ).map((option) => (
           <button
             key={option.value}
             type="button"
-            onClick={() => setSortBy(option.value)}
+            onClick={() => setPeriod(option.value)}
             className={`
-              rounded-lg px-4 py-2 text-sm font-medium transition-colors
+              -mb-px border-b-2 px-1 pb-2 text-sm font-medium transition-colors
               ${
-                sortBy === option.value
-                  ? "bg-navy text-white"
-                  : "border border-border bg-white text-gray-600 hover:bg-gray-50"
+                period === option.value
+                  ? "border-navy text-navy"
+                  : "border-transparent text-gray-500 hover:text-navy"
               }
             `}
           >
@@ -116,6 +195,49 @@ export default function LeaderboardPage() {
         ))}
       </div>
 
+      {/* ── Season Picker ────────────────────────────────────────────────── */}
+      {period === "season" && (
+        <select
+          value={seasonId ?? ""}
+          onChange={(e) => setSeasonId(e.target.value)}
+          className="rounded-lg border border-border bg-white px-3 py-2 text-sm text-navy focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+        >
+          {seasons.map((season) => (
+            <option key={season.id} value={season.id}>
+              {season.name} ({formatSeasonRange(season)})
+              {Date.parse(season.endsAt) <= Date.now() ? " · Final" : ""}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* ── Sort Toggle Buttons ──────────────────────────────────────────── */}
+      {/* Four buttons for switching between sort modes, for all-time
+          rankings only. The active button gets a navy background with white
+          text; inactive buttons are outlined with navy/10 background on
+          hover. */}
+      {period === "all" && (
+        <div className="flex flex-wrap gap-2">
+          {SORT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setSortBy(option.value)}
+              className={`
+                rounded-lg px-4 py-2 text-sm font-medium transition-colors
+                ${
+                  sortBy === option.value
+                    ? "bg-navy text-white"
+                    : "border border-border bg-white text-gray-600 hover:bg-gray-50"
+                }
+              `}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* ── Loading State ────────────────────────────────────────────────── */}
       {loading && (
         <div className="flex flex-col items-center justify-center py-16">
@@ -150,7 +272,10 @@ export default function LeaderboardPage() {
 
       {/* ── Leaderboard Table ────────────────────────────────────────────── */}
       {!loading && !error && entries.length > 0 && (
-        <LeaderboardTable entries={entries} sortBy={sortBy} />
+        <LeaderboardTable
+          entries={entries}
+          sortBy={period === "all" ? sortBy : "period_xp"}
+        />
       )}
     </div>
   );
@@ -2,7 +2,9 @@
 
 import { useCallback, useEffect, useState } from "react";
 import { GameBoard } from "@/components/game-board";
-import type { Puzzle, SubmitResult } from "@/types";
+import { browserTimeZone } from "@/lib/time-zones";
+import { usePuzzleSession } from "@/lib/use-puzzle-session";
+import type { Puzzle } from "@/types";
 
 // ─── Home Page ────────────────────────────────────────────────────────────────
 // Fetches the daily puzzle from the server API on mount and delegates answer
@@ -30,7 +32,8 @@ export default function Home() {
 
   // ─── Fetch Puzzle on Mount ──────────────────────────────────────────────
   // Requests today's puzzle from the API. Falls back to a random puzzle if
-  // no daily puzzle is configured for today (handled server-side).
+  // no daily puzzle is configured for today (handled server-side). The
+  // browser's time zone decides "today" for guests.
   useEffect(() => {
     let cancelled = false;
 
@@ -39,7 +42,9 @@ export default function Home() {
       setError(null);
 
       try {
-        const res = await fetch("/api/puzzles/today");
+        const res = await fetch(
+          `/api/puzzles/today?tz=${encodeURIComponent(browserTimeZone())}`
+        );
 
         if (!res.ok) {
           const data = await res.json().catch(() => null);
@@ -79,43 +84,10 @@ export default function Home() {
     };
   }, [puzzleKey]);
 
-  // ─── Server-Backed Submit Handler ───────────────────────────────────────
-  // Sends the player's ordering to POST /api/game/submit for server-side
-  // validation. The server computes the score, checks for wins, persists
-  // game results (if authenticated), calculates XP, and returns newly
-  // unlocked achievements.
-  const handleSubmit = useCallback(
-    async (
-      orderedIds: string[],
-      hintsUsed: number,
-      solveTimeMs: number
-    ): Promise<SubmitResult> => {
-      if (!puzzle) {
-        throw new Error("No puzzle loaded");
-      }
-
-      const res = await fetch("/api/game/submit", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          puzzleId: puzzle.id,
-          orderedEventIds: orderedIds,
-          hintsUsed,
-          solveTimeMs,
-        }),
-      });
-
-      if (!res.ok) {
-        const data = await res.json().catch(() => null);
-        throw new Error(
-          data?.error || `Submission failed (${res.status})`
-        );
-      }
-
-      return res.json();
-    },
-    [puzzle]
-  );
+  // ─── Server-Backed Game Handlers ────────────────────────────────────────
+  // Submit, hint and retry against the puzzle's play session (see
+  // src/lib/use-puzzle-session.ts)
+  const { handleSubmit, handleHint, handleRetry } = usePuzzleSession(puzzle);
 
   // ─── Next Puzzle Navigation ─────────────────────────────────────────────
   // Increments the puzzleKey counter which triggers a new fetch via the
@@ -175,6 +147,8 @@ export default function Home() {
         key={puzzle.id + puzzleKey}
         puzzle={puzzle}
         onSubmit={handleSubmit}
+        onHint={handleHint}
+        onRetry={handleRetry}
         onNextPuzzle={handleNextPuzzle}
         isDaily={isDaily}
       />
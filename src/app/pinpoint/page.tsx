@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { PinpointBoard } from "@/components/pinpoint-board";
+import { browserTimeZone } from "@/lib/time-zones";
+import { notifyGameRecorded } from "@/lib/game-recorded";
+import { submissionKey } from "@/lib/submission-keys";
+import type {
+  PinpointPuzzle,
+  PinpointGuess,
+  PinpointSubmitResult,
+} from "@/types";
+
+// ─── Pinpoint Page ────────────────────────────────────────────────────────────
+// Pinpoint mode: the same puzzles as the home page, but the player guesses the
+// date of each event instead of sorting them. Fetches the puzzle with
+// `?mode=pinpoint` (which withholds event dates) and submits guesses to
+// POST /api/game/pinpoint/submit for server-side scoring.
+
+export default function PinpointPage() {
+  const [puzzle, setPuzzle] = useState<PinpointPuzzle | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Counter incremented to trigger a fresh puzzle fetch (forces
+  // PinpointBoard remount via the key prop)
+  const [puzzleKey, setPuzzleKey] = useState(0);
+
+  const [isDaily, setIsDaily] = useState(false);
+
+  // ─── Fetch Puzzle on Mount ──────────────────────────────────────────────
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchPuzzle() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const res = await fetch(
+          `/api/puzzles/today?mode=pinpoint&tz=${encodeURIComponent(
+            browserTimeZone()
+          )}`
+        );
+
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(
+            data?.error || `Failed to load puzzle (${res.status})`
+          );
+        }
+
+        const data = (await res.json()) as PinpointPuzzle & {
+          isDaily?: boolean;
+        };
+
+        if (!cancelled) {
+          setPuzzle(data);
+          setIsDaily(Boolean(data.isDaily));
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load puzzle"
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }
+
+    fetchPuzzle();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [puzzleKey]);
+
+  // ─── Server-Backed Submit Handler ───────────────────────────────────────
+  // Sends the guesses with the play session token. The server scores each
+  // guess against the event's stored date and, for signed-in players,
+  // records the result and awards XP.
+  const handleSubmit = useCallback(
+    async (guesses: PinpointGuess[]): Promise<PinpointSubmitResult> => {
+      if (!puzzle) {
+        throw new Error("No puzzle loaded");
+      }
+
+      const res = await fetch("/api/game/pinpoint/submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionToken: puzzle.sessionToken,
+          guesses,
+          idempotencyKey: submissionKey(puzzle.sessionToken),
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || `Submission failed (${res.status})`);
+      }
+
+      const result: PinpointSubmitResult = await res.json();
+      notifyGameRecorded();
+      return result;
+    },
+    [puzzle]
+  );
+
+  const handleNextPuzzle = useCallback(() => {
+    setPuzzleKey((prev) => prev + 1);
+  }, []);
+
+  // ─── Loading State ──────────────────────────────────────────────────────
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-2xl px-4">
+        <div className="flex flex-col items-center justify-center py-20">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-navy/20 border-t-navy" />
+          <p className="mt-4 text-sm text-gray-500">Loading puzzle...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // ─── Error State ────────────────────────────────────────────────────────
+  if (error || !puzzle) {
+    return (
+      <div className="mx-auto max-w-2xl px-4">
+        <div className="flex flex-col items-center justify-center py-20">
+          <p className="text-sm text-red-600">
+            {error || "No puzzle available"}
+          </p>
+          <button
+            type="button"
+            onClick={() => setPuzzleKey((prev) => prev + 1)}
+            className="mt-4 rounded-lg bg-navy px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-navy/90"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl px-4">
+      <h1 className="mb-6 text-center text-2xl font-bold text-navy">
+        {puzzle.title}
+      </h1>
+
+      <PinpointBoard
+        key={puzzle.id + puzzleKey}
+        puzzle={puzzle}
+        onSubmit={handleSubmit}
+        onNextPuzzle={handleNextPuzzle}
+        isDaily={isDaily}
+      />
+    </div>
+  );
+}
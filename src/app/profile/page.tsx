@@ -5,8 +5,18 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { StatsGrid } from "@/components/stats-grid";
 import { AchievementGrid } from "@/components/achievement-grid";
-import { XP_PER_LEVEL } from "@/lib/constants";
-import type { PlayerStats, UserAchievement } from "@/types";
+import { CategoryStats } from "@/components/category-stats";
+import { XpHistory } from "@/components/xp-history";
+import type {
+  AchievementProgress,
+  CatalogAchievement,
+  CategoryStats as CategoryStatsRow,
+  GameMode,
+  PlayerStats,
+  UserAchievement,
+  XpEvent,
+  XpSourceTotal,
+} from "@/types";
 
 // ─── RecentGame Type ─────────────────────────────────────────────────────────
 // Represents a single game result in the recent history list. Matches the
@@ -14,8 +24,10 @@ import type { PlayerStats, UserAchievement } from "@/types";
 interface RecentGame {
   id: string;
   puzzleId: string;
+  mode: GameMode;
   won: boolean;
   score: number;
+  maxScore: number;
   hintsUsed: number;
   solveTimeMs: number;
   playedAt: string;
@@ -23,10 +35,14 @@ interface RecentGame {
 
 // ─── API Response Shape ──────────────────────────────────────────────────────
 // Full response from GET /api/stats/me, combining PlayerStats fields with
-// the achievements array and recent game history.
+// the achievements array, recent game history and the XP ledger summary.
 interface StatsResponse extends PlayerStats {
+  categories: CategoryStatsRow[];
   achievements: UserAchievement[];
+  achievementProgress: Record<string, AchievementProgress>;
   recentGames: RecentGame[];
+  xpBreakdown: XpSourceTotal[];
+  xpHistory: XpEvent[];
 }
 
 // ─── Time Formatting ─────────────────────────────────────────────────────────
@@ -59,7 +75,9 @@ function formatDate(isoString: string): string {
 // Authenticated-only page displaying the player's complete profile:
 // - XP progress bar with level indicator
 // - Stats grid (games, wins, streaks, times, XP, level)
-// - Achievement grid (unlocked vs. locked)
+// - Category breakdown (games, win rate and fastest solve per category)
+// - Achievement grid (unlocked vs. locked, with progress and rarity)
+// - XP history (totals by source and the latest awards)
 // - Recent games list (last 20 games with outcome and details)
 //
 // Redirects unauthenticated users to the home page.
@@ -70,6 +88,9 @@ export default function ProfilePage() {
   // Stats data fetched from the API, null while loading
   const [data, setData] = useState<StatsResponse | null>(null);
 
+  // Achievement catalog with rarity, fetched alongside the stats
+  const [catalog, setCatalog] = useState<CatalogAchievement[]>([]);
+
   // Loading state tracks the API fetch
   const [loading, setLoading] = useState(true);
 
@@ -87,7 +108,8 @@ export default function ProfilePage() {
   }, [status, router]);
 
   // ─── Fetch Stats ─────────────────────────────────────────────────────────
-  // Once authenticated, fetch the player's stats from the API. Uses an
+  // Once authenticated, fetch the player's stats and the achievement
+  // catalog from the API in parallel. Uses an
   // abort controller for cleanup on unmount to prevent state updates on
   // an unmounted component.
   useEffect(() => {
@@ -100,17 +122,27 @@ export default function ProfilePage() {
       setError(null);
 
       try {
-        const res = await fetch("/api/stats/me");
+        const [res, catalogRes] = await Promise.all([
+          fetch("/api/stats/me"),
+          fetch("/api/achievements"),
+        ]);
 
         if (!res.ok) {
           const body = await res.json().catch(() => null);
           throw new Error(body?.error || `Failed to load stats (${res.status})`);
         }
+        if (!catalogRes.ok) {
+          throw new Error(
+            `Failed to load achievements (${catalogRes.status})`
+          );
+        }
 
         const json: StatsResponse = await res.json();
+        const achievements: CatalogAchievement[] = await catalogRes.json();
 
         if (!cancelled) {
           setData(json);
+          setCatalog(achievements);
         }
       } catch (err) {
         if (!cancelled) {
@@ -170,13 +202,12 @@ export default function ProfilePage() {
   }
 
   // ─── XP Progress Calculation ─────────────────────────────────────────────
-  // Level N requires N * XP_PER_LEVEL total XP. The progress bar shows
-  // how far the player is toward the next level.
-  const currentLevelXp = data.level * XP_PER_LEVEL;
-  const nextLevelXp = (data.level + 1) * XP_PER_LEVEL;
-  const xpIntoLevel = data.xp - currentLevelXp;
-  const xpNeeded = nextLevelXp - currentLevelXp;
-  const progressPercent = Math.min((xpIntoLevel / xpNeeded) * 100, 100);
+  // The server sends the XP bounds of the current level from the level
+  // curve. The progress bar shows how far the player is toward the next
+  // level.
+  const xpIntoLevel = data.xp - data.levelStartXp;
+  const xpNeeded = data.nextLevelXp - data.levelStartXp;
+  const progressPercent = Math.min(data.levelProgress * 100, 100);
 
   return (
     <div className="mx-auto max-w-3xl space-y-8 px-4">
@@ -217,10 +248,26 @@ export default function ProfilePage() {
         <StatsGrid stats={data} />
       </div>
 
+      {/* ── Categories ───────────────────────────────────────────────────── */}
+      <div>
+        <h2 className="mb-3 text-lg font-semibold text-navy">Categories</h2>
+        <CategoryStats categories={data.categories} />
+      </div>
+
       {/* ── Achievement Grid ─────────────────────────────────────────────── */}
       <div>
         <h2 className="mb-3 text-lg font-semibold text-navy">Achievements</h2>
-        <AchievementGrid unlockedAchievements={data.achievements} />
+        <AchievementGrid
+          achievements={catalog}
+          unlockedAchievements={data.achievements}
+          progress={data.achievementProgress}
+        />
+      </div>
+
+      {/* ── XP History ───────────────────────────────────────────────────── */}
+      <div>
+        <h2 className="mb-3 text-lg font-semibold text-navy">XP History</h2>
+        <XpHistory breakdown={data.xpBreakdown} history={data.xpHistory} />
       </div>
 
       {/* ── Recent Games ─────────────────────────────────────────────────── */}
@@ -259,12 +306,19 @@ export default function ProfilePage() {
                   <span className="text-sm font-medium text-navy">
                     Puzzle {game.puzzleId.slice(0, 8)}
                   </span>
+
+                  {/* Mode tag — classic games are untagged */}
+                  {game.mode === "pinpoint" && (
+                    <span className="rounded-full bg-navy/10 px-2 py-0.5 text-xs font-medium text-navy">
+                      Pinpoint
+                    </span>
+                  )}
                 </div>
 
                 {/* Right side: score, time, hints, date */}
                 <div className="flex items-center gap-4 text-xs text-gray-500">
-                  {/* Score out of total events */}
-                  <span>Score: {game.score}/5</span>
+                  {/* Score out of the maximum for the game's mode */}
+                  <span>Score: {game.score}/{game.maxScore}</span>
 
                   {/* Solve time formatted as human-readable */}
                   <span>{formatTime(game.solveTimeMs)}</span>
@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { SurvivalBoard } from "@/components/survival-board";
+import type { SurvivalStartResult, SurvivalPlaceResult } from "@/types";
+
+// ─── Survival Page ────────────────────────────────────────────────────────────
+// Endless mode: starts a run via POST /api/survival/start on mount and sends
+// each placement to POST /api/survival/place. The server deals events from the
+// shared event bank and never exposes their dates before placement.
+
+export default function SurvivalPage() {
+  const [run, setRun] = useState<SurvivalStartResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Counter incremented to start a fresh run (forces SurvivalBoard remount
+  // via the key prop)
+  const [runKey, setRunKey] = useState(0);
+
+  // ─── Start Run on Mount ─────────────────────────────────────────────────
+  useEffect(() => {
+    let cancelled = false;
+
+    async function startRun() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const res = await fetch("/api/survival/start", { method: "POST" });
+
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(data?.error || `Failed to start run (${res.status})`);
+        }
+
+        const data: SurvivalStartResult = await res.json();
+        if (!cancelled) {
+          setRun(data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to start run");
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }
+
+    startRun();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runKey]);
+
+  // ─── Server-Backed Place Handler ────────────────────────────────────────
+  const handlePlace = useCallback(
+    async (position: number): Promise<SurvivalPlaceResult> => {
+      if (!run) {
+        throw new Error("No run in progress");
+      }
+
+      const res = await fetch("/api/survival/place", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ runToken: run.runToken, position }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || `Placement failed (${res.status})`);
+      }
+
+      return res.json();
+    },
+    [run]
+  );
+
+  const handleRestart = useCallback(() => {
+    setRunKey((prev) => prev + 1);
+  }, []);
+
+  // ─── Loading State ──────────────────────────────────────────────────────
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-2xl px-4">
+        <div className="flex flex-col items-center justify-center py-20">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-navy/20 border-t-navy" />
+          <p className="mt-4 text-sm text-gray-500">Dealing cards...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // ─── Error State ────────────────────────────────────────────────────────
+  if (error || !run) {
+    return (
+      <div className="mx-auto max-w-2xl px-4">
+        <div className="flex flex-col items-center justify-center py-20">
+          <p className="text-sm text-red-600">
+            {error || "Could not start a run"}
+          </p>
+          <button
+            type="button"
+            onClick={handleRestart}
+            className="mt-4 rounded-lg bg-navy px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-navy/90"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl px-4">
+      <h1 className="mb-6 text-center text-2xl font-bold text-navy">
+        Survival
+      </h1>
+
+      <SurvivalBoard
+        key={run.runToken}
+        run={run}
+        onPlace={handlePlace}
+        onRestart={handleRestart}
+      />
+    </div>
+  );
+}
@@ -1,110 +1,84 @@
 "use client";
 
-import type { Achievement, UserAchievement } from "@/types";
-
-// ─── ALL_ACHIEVEMENTS ────────────────────────────────────────────────────────
-// Complete list of achievements available in the game. Each entry defines the
-// achievement's unique id, display title, description, emoji icon, and XP
-// reward. This constant is the single source of truth for the achievement
-// catalog used to render both unlocked and locked states.
-const ALL_ACHIEVEMENTS: Achievement[] = [
-  {
-    id: "first_win",
-    title: "First Blood",
-    description: "Win your first game",
-    icon: "🏆",
-    xpReward: 50,
-  },
-  {
-    id: "streak_3",
-    title: "Hat Trick",
-    description: "Achieve a 3-game win streak",
-    icon: "🔥",
-    xpReward: 100,
-  },
-  {
-    id: "streak_7",
-    title: "On Fire",
-    description: "Achieve a 7-game win streak",
-    icon: "💥",
-    xpReward: 250,
-  },
-  {
-    id: "streak_15",
-    title: "Unstoppable",
-    description: "Achieve a 15-game win streak",
-    icon: "⚡",
-    xpReward: 500,
-  },
-  {
-    id: "no_hints",
-    title: "Purist",
-    description: "Win without using hints",
-    icon: "🧠",
-    xpReward: 75,
-  },
-  {
-    id: "speed_demon",
-    title: "Speed Demon",
-    description: "Win in under 15 seconds",
-    icon: "⏱️",
-    xpReward: 150,
-  },
-  {
-    id: "daily_5",
-    title: "Dedicated",
-    description: "Complete 5 daily challenges",
-    icon: "📅",
-    xpReward: 200,
-  },
-  {
-    id: "daily_30",
-    title: "Habitual",
-    description: "Complete 30 daily challenges",
-    icon: "🗓️",
-    xpReward: 500,
-  },
-  {
-    id: "games_50",
-    title: "Veteran",
-    description: "Play 50 games",
-    icon: "🎮",
-    xpReward: 300,
-  },
-  {
-    id: "perfect_10",
-    title: "Perfectionist",
-    description: "Win 10 games with no hints",
-    icon: "💎",
-    xpReward: 400,
-  },
-];
+import type {
+  AchievementProgress,
+  CatalogAchievement,
+  UserAchievement,
+} from "@/types";
 
 // ─── Props ───────────────────────────────────────────────────────────────────
-// `unlockedAchievements` — array of UserAchievement objects returned from the
-// API, each containing an `id` that maps to an entry in ALL_ACHIEVEMENTS plus
-// an `unlockedAt` timestamp. If not provided, all achievements show as locked.
+// `achievements` — the complete achievement catalog from
+// GET /api/achievements, with rarity. Admins can add achievements, so the
+// catalog is not hard-coded.
+// `unlockedAchievements` — the player's unlocked achievements from
+// GET /api/stats/me. These carry the full details, including descriptions
+// of hidden achievements that the public catalog withholds.
+// `progress` — progress toward locked achievements, by achievement ID
 interface AchievementGridProps {
+  achievements: CatalogAchievement[];
   unlockedAchievements: UserAchievement[];
+  progress: Record<string, AchievementProgress>;
+}
+
+// ─── Rarity Tiers ────────────────────────────────────────────────────────────
+// Badge shown for an achievement's rarity, from the share of active players
+// who have unlocked it. The first tier whose minimum the share reaches wins.
+const RARITY_TIERS = [
+  { min: 50, label: "Common", className: "bg-gray-100 text-gray-600" },
+  { min: 20, label: "Uncommon", className: "bg-lime/30 text-green-800" },
+  { min: 5, label: "Rare", className: "bg-blue-100 text-blue-800" },
+  { min: 0, label: "Legendary", className: "bg-amber-100 text-amber-800" },
+] as const;
+
+function rarityTier(unlockPercent: number) {
+  return (
+    RARITY_TIERS.find((t) => unlockPercent >= t.min) ??
+    RARITY_TIERS[RARITY_TIERS.length - 1]
+  );
+}
+
+// Formats a share of players, keeping one decimal below 10%
+function formatPercent(percent: number): string {
+  return percent < 10 ? `${percent.toFixed(1)}%` : `${Math.round(percent)}%`;
 }
 
 // ─── AchievementGrid ─────────────────────────────────────────────────────────
-// Renders a responsive grid displaying all game achievements. Unlocked
-// achievements show their icon, title, description, and XP reward with a lime
-// accent border. Locked achievements are greyed out with a lock emoji and
-// placeholder text to maintain mystery.
+// Renders a responsive grid displaying all game achievements, most common
+// first, so the ones within reach come before the rarest. Each card carries
+// a rarity badge with the share of active players who have it.
+// Unlocked achievements show their icon, title, description, and XP reward
+// with a lime accent border. Locked achievements are greyed out with a lock
+// emoji, and show a progress bar when they count toward a target (e.g. 38/50
+// games). Hidden achievements keep their description secret until unlocked.
 //
 // Layout: 2 columns on mobile, 3 columns on md+ screens.
-export function AchievementGrid({ unlockedAchievements }: AchievementGridProps) {
-  // Build a Set of unlocked achievement IDs for O(1) lookup when rendering
-  // each achievement card. This avoids repeated .find() calls on the array.
-  const unlockedIds = new Set(unlockedAchievements.map((a) => a.id));
+export function AchievementGrid({
+  achievements,
+  unlockedAchievements,
+  progress,
+}: AchievementGridProps) {
+  // Unlocked achievements by ID, for O(1) lookup when rendering each card
+  const unlockedById = new Map(unlockedAchievements.map((a) => [a.id, a]));
+
+  // Most common first; achievements without rarity yet go last, in catalog
+  // order (sort is stable)
+  const sorted = [...achievements].sort(
+    (a, b) => (b.unlockPercent ?? -1) - (a.unlockPercent ?? -1)
+  );
 
   return (
     <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
-      {ALL_ACHIEVEMENTS.map((achievement) => {
-        // Check if this achievement has been unlocked by the player
-        const isUnlocked = unlockedIds.has(achievement.id);
+      {sorted.map((achievement) => {
+        const unlocked = unlockedById.get(achievement.id);
+        const isUnlocked = unlocked !== undefined;
+        const target = progress[achievement.id];
+        const rarity =
+          achievement.unlockPercent !== null
+            ? {
+                ...rarityTier(achievement.unlockPercent),
+                percent: formatPercent(achievement.unlockPercent),
+              }
+            : null;
 
         return (
           <div
@@ -118,27 +92,54 @@ export function AchievementGrid({ unlockedAchievements }: AchievementGridProps)
               }
             `}
           >
-            {/* Achievement icon: full emoji when unlocked, lock emoji when locked */}
-            <div className="mb-2 text-2xl">
-              {isUnlocked ? achievement.icon : "🔒"}
+            {/* Achievement icon: full emoji when unlocked, lock emoji when
+                locked, with the rarity badge alongside */}
+            <div className="mb-2 flex items-start justify-between gap-2">
+              <span className="text-2xl">
+                {isUnlocked ? achievement.icon : "🔒"}
+              </span>
+              {rarity && (
+                <span
+                  className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${rarity.className}`}
+                  title={`${rarity.percent} of active players have this`}
+                >
+                  {rarity.label} · {rarity.percent}
+                </span>
+              )}
             </div>
 
-            {/* Title: real title when unlocked, "???" placeholder when locked
-                to maintain mystery and encourage exploration */}
             <p
               className={`text-sm font-semibold ${
                 isUnlocked ? "text-navy" : "text-gray-400"
               }`}
             >
-              {isUnlocked ? achievement.title : "???"}
+              {achievement.title}
             </p>
 
-            {/* Description: actual description when unlocked, generic prompt
-                when locked to avoid spoiling achievement requirements */}
+            {/* Description: masked for hidden achievements until unlocked */}
             <p className="mt-0.5 text-xs text-gray-500">
-              {isUnlocked ? achievement.description : "Keep playing to unlock"}
+              {(unlocked ?? achievement).description ??
+                "Secret achievement — keep playing to discover it"}
             </p>
 
+            {/* Progress toward the target, for locked achievements that
+                count up to one */}
+            {!isUnlocked && target && (
+              <div className="mt-2">
+                <div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-200">
+                  <div
+                    className="h-full rounded-full bg-navy"
+                    style={{
+                      width: `${(target.current / target.target) * 100}%`,
+                    }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {target.current}/{target.target}
+                </p>
+              </div>
+            )}
+
             {/* XP reward badge: only shown for unlocked achievements */}
             {isUnlocked && (
               <p className="mt-2 text-xs font-semibold text-navy">
@@ -151,7 +152,3 @@ export function AchievementGrid({ unlockedAchievements }: AchievementGridProps)
     </div>
   );
 }
-
-// Export the constant for potential reuse in other modules (e.g., server-side
-// achievement checking)
-export { ALL_ACHIEVEMENTS };
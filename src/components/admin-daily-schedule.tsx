@@ -0,0 +1,319 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { DailyScheduleDay } from "@/lib/daily-scheduler";
+
+// A queued puzzle as returned by GET /api/admin/daily-schedule
+interface QueuedPuzzle {
+  puzzleId: string;
+  title: string;
+  category: string;
+  position: number;
+}
+
+interface DailySchedule {
+  days: DailyScheduleDay[];
+  gaps: string[];
+  queue: QueuedPuzzle[];
+}
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+// `puzzles` — every puzzle, used to offer non-daily puzzles for the queue
+// `onDatesChanged` — called after dailies were scheduled or swapped, so the
+//                    parent can refetch its puzzle list
+interface AdminDailyScheduleProps {
+  puzzles: { id: string; title: string; isDaily: boolean }[];
+  onDatesChanged: () => void;
+}
+
+// AdminDailySchedule shows the upcoming daily challenges from
+// GET /api/admin/daily-schedule, warns about dates the scheduler cannot
+// fill, and edits the daily queue. Queue edits send the full new order to
+// PUT; "Schedule now" runs the scheduler via POST. Two scheduled dailies can
+// trade dates: pick "Swap" on one, then "Swap here" on the other.
+export function AdminDailySchedule({
+  puzzles,
+  onDatesChanged,
+}: AdminDailyScheduleProps) {
+  const [schedule, setSchedule] = useState<DailySchedule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Puzzle picked in the "add to queue" select
+  const [selectedId, setSelectedId] = useState("");
+  // Scheduled daily picked as the first half of a swap
+  const [swapFrom, setSwapFrom] = useState<string | null>(null);
+
+  // ── Fetch schedule ────────────────────────────────────────────────────────
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/daily-schedule");
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(
+          data?.error || `Failed to load schedule (${res.status})`
+        );
+      }
+      setSchedule(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load schedule");
+    }
+  }, []);
+
+  // Refetched whenever the puzzle list changes, since new or deleted
+  // puzzles change what the scheduler can assign
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule, puzzles]);
+
+  // ── Queue edits ───────────────────────────────────────────────────────────
+  // Sends the complete queue in its new order
+  const saveQueue = useCallback(
+    async (puzzleIds: string[]) => {
+      setSaving(true);
+      try {
+        const res = await fetch("/api/admin/daily-schedule", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ puzzleIds }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(data?.error || `Queue update failed (${res.status})`);
+        }
+        await fetchSchedule();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update queue");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [fetchSchedule]
+  );
+
+  // ── Run the scheduler ─────────────────────────────────────────────────────
+  const handleScheduleNow = useCallback(async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/daily-schedule", { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || `Scheduling failed (${res.status})`);
+      }
+      await fetchSchedule();
+      onDatesChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to schedule");
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchSchedule, onDatesChanged]);
+
+  // ── Swap two dailies ──────────────────────────────────────────────────────
+  const handleSwap = useCallback(
+    async (puzzleId: string) => {
+      if (!swapFrom) {
+        setSwapFrom(puzzleId);
+        return;
+      }
+
+      setSaving(true);
+      try {
+        const res = await fetch("/api/admin/daily-schedule/swap", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ puzzleIds: [swapFrom, puzzleId] }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(data?.error || `Swap failed (${res.status})`);
+        }
+        await fetchSchedule();
+        onDatesChanged();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to swap");
+      } finally {
+        setSwapFrom(null);
+        setSaving(false);
+      }
+    },
+    [swapFrom, fetchSchedule, onDatesChanged]
+  );
+
+  if (!schedule) {
+    return error ? (
+      <div className="rounded-lg bg-red-50 p-4 text-sm text-red-700">
+        {error}
+      </div>
+    ) : null;
+  }
+
+  const queueIds = schedule.queue.map((q) => q.puzzleId);
+  // Puzzles that can still be added: not a daily and not already queued
+  const queueable = puzzles.filter(
+    (p) => !p.isDaily && !queueIds.includes(p.id)
+  );
+
+  // Moves the queued puzzle at `index` by `delta` places
+  const move = (index: number, delta: number) => {
+    const next = [...queueIds];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    saveQueue(next);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-navy">Daily Schedule</h2>
+        <button
+          type="button"
+          onClick={handleScheduleNow}
+          disabled={saving}
+          className="rounded-lg bg-navy px-3 py-1 text-xs font-semibold text-white transition-colors hover:bg-navy/90 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Schedule now
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* ── Gap warnings ─────────────────────────────────────────────────── */}
+      {schedule.gaps.length > 0 && (
+        <div className="rounded-lg bg-yellow-50 p-3 text-sm text-yellow-800">
+          No eligible puzzle for {schedule.gaps.length} upcoming{" "}
+          {schedule.gaps.length === 1 ? "date" : "dates"}:{" "}
+          {schedule.gaps.join(", ")}. Queue more puzzles in other categories.
+        </div>
+      )}
+
+      {/* ── Upcoming dates ───────────────────────────────────────────────── */}
+      <div className="space-y-1 text-xs">
+        {schedule.days.map((day) => (
+          <div key={day.date} className="flex items-baseline gap-2">
+            <span className="w-20 shrink-0 font-mono text-gray-400">
+              {day.date}
+            </span>
+            {day.scheduled ? (
+              <>
+                <span className="flex-1 truncate text-navy">
+                  {day.scheduled.title}{" "}
+                  <span className="text-gray-400">
+                    ({day.scheduled.category})
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    swapFrom === day.scheduled!.puzzleId
+                      ? setSwapFrom(null)
+                      : handleSwap(day.scheduled!.puzzleId)
+                  }
+                  disabled={saving}
+                  className="shrink-0 rounded px-1.5 text-navy hover:bg-navy/10 disabled:opacity-30"
+                >
+                  {swapFrom === day.scheduled.puzzleId
+                    ? "Cancel swap"
+                    : swapFrom
+                      ? "Swap here"
+                      : "Swap"}
+                </button>
+              </>
+            ) : day.planned ? (
+              // Not yet assigned: the puzzle the next run would pick
+              <span className="truncate italic text-gray-500">
+                {day.planned.title} ({day.planned.category}, next from{" "}
+                {day.planned.source})
+              </span>
+            ) : (
+              <span className="font-medium text-yellow-700">No daily</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* ── Queue ────────────────────────────────────────────────────────── */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-navy">
+          Queue ({schedule.queue.length})
+        </h3>
+
+        {schedule.queue.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            The queue is empty; open dates are filled from unscheduled puzzles,
+            oldest first.
+          </p>
+        ) : (
+          schedule.queue.map((q, i) => (
+            <div key={q.puzzleId} className="flex items-center gap-2 text-xs">
+              <span className="w-5 shrink-0 text-right font-mono text-gray-400">
+                {i + 1}.
+              </span>
+              <span className="flex-1 truncate text-navy">
+                {q.title} <span className="text-gray-400">({q.category})</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => move(i, -1)}
+                disabled={saving || i === 0}
+                className="rounded px-1.5 text-navy hover:bg-navy/10 disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(i, 1)}
+                disabled={saving || i === schedule.queue.length - 1}
+                className="rounded px-1.5 text-navy hover:bg-navy/10 disabled:opacity-30"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  saveQueue(queueIds.filter((id) => id !== q.puzzleId))
+                }
+                disabled={saving}
+                className="rounded px-1.5 text-red-600 hover:bg-red-50 disabled:opacity-30"
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+
+        {/* Add a puzzle to the end of the queue */}
+        {queueable.length > 0 && (
+          <div className="flex gap-2">
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="flex-1 rounded-lg border border-gray-300 px-2 py-1 text-xs focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+            >
+              <option value="">Add a puzzle to the queue…</option>
+              {queueable.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => {
+                saveQueue([...queueIds, selectedId]);
+                setSelectedId("");
+              }}
+              disabled={saving || !selectedId}
+              className="rounded-lg border border-navy px-3 py-1 text-xs font-medium text-navy transition-colors hover:bg-navy/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
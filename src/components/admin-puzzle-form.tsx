@@ -1,15 +1,77 @@
 "use client";
 
 import { useState } from "react";
+import {
+  DATE_PRECISIONS,
+  formatEventDate,
+  parseEventDate,
+} from "@/lib/event-dates";
+import type { DatePrecision, EventDate } from "@/lib/event-dates";
+import type { PuzzleEventInput } from "@/lib/puzzle-events";
 
-// Shape of a single event row in the form. Fields map directly to the
-// puzzle_events table columns. `sortDate` is an ISO date string used for
-// chronological ordering; `date` is the human-readable display label.
-interface EventRow {
+// Shape of a single event row in the form. Fields map to the events table
+// columns: the date is entered as a year with its era, an optional month and
+// day, a precision and a circa flag (see src/lib/event-dates.ts); `tags` is
+// a comma-separated list. Rows with an `eventId` were picked from the event
+// bank and are shown read-only with their formatted `date`. `tieGroup` is an
+// optional number shared by events with overlapping dates that may be played
+// in any order.
+export interface EventRow {
+  eventId?: string;
   text: string;
   date: string;
-  sortDate: string;
+  year: string;
+  era: "AD" | "BC";
+  month: string;
+  day: string;
+  precision: DatePrecision;
+  circa: boolean;
   url: string;
+  tags: string;
+  tieGroup: string;
+}
+
+// A bank event as returned by GET /api/admin/events
+interface BankEvent extends EventDate {
+  id: string;
+  text: string;
+  date: string;
+  url: string | null;
+  tags: string[];
+}
+
+// Month names for the month picker (index 0 = January)
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// The structured date entered in a new-event row, or an error message.
+// Years are entered with an era and converted to astronomical years (1 BC is
+// year 0). Month and day are only read when the precision includes them.
+function rowDate(row: EventRow): { date: EventDate } | { error: string } {
+  if (!/^\d+$/.test(row.year.trim())) {
+    return { error: "year must be a positive whole number" };
+  }
+  const eraYear = parseInt(row.year, 10);
+  const withMonth = row.precision === "day" || row.precision === "month";
+  return parseEventDate({
+    year: row.era === "BC" ? 1 - eraYear : eraYear,
+    month: withMonth && row.month ? parseInt(row.month, 10) : null,
+    day: row.precision === "day" && row.day ? parseInt(row.day, 10) : null,
+    precision: row.precision,
+    circa: row.circa,
+  });
 }
 
 // Data structure submitted by the form. Matches the POST/PUT request body
@@ -19,7 +81,36 @@ export interface PuzzleFormData {
   category: string;
   isDaily: boolean;
   dailyDate: string;
-  events: EventRow[];
+  events: PuzzleEventInput[];
+}
+
+// The display string a new-event row will get, or why its date is invalid
+function datePreview(row: EventRow): string {
+  const parsed = rowDate(row);
+  return "error" in parsed ? `(${parsed.error})` : formatEventDate(parsed.date);
+}
+
+// Converts a form row to its request body entry: bank rows are sent by
+// reference, new rows with all their fields
+function toEventInput(row: EventRow): PuzzleEventInput {
+  const tieGroup = row.tieGroup ? Number(row.tieGroup) : undefined;
+  if (row.eventId) return { eventId: row.eventId, tieGroup };
+
+  // Only called for rows whose date passed rowDate validation
+  const parsed = rowDate(row);
+  if ("error" in parsed) throw new Error(parsed.error);
+
+  const tags = row.tags
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return {
+    text: row.text.trim(),
+    ...parsed.date,
+    url: row.url.trim() || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    tieGroup,
+  };
 }
 
 interface AdminPuzzleFormProps {
@@ -28,12 +119,24 @@ interface AdminPuzzleFormProps {
   onSubmit: (data: PuzzleFormData) => Promise<void>;
   // Optional initial values for editing an existing puzzle. When provided,
   // the form pre-fills all fields.
-  initialData?: PuzzleFormData;
+  initialData?: Omit<PuzzleFormData, "events"> & { events: EventRow[] };
 }
 
 // Default empty event row used when adding new events to the form
 function emptyEvent(): EventRow {
-  return { text: "", date: "", sortDate: "", url: "" };
+  return {
+    text: "",
+    date: "",
+    year: "",
+    era: "AD",
+    month: "",
+    day: "",
+    precision: "day",
+    circa: false,
+    url: "",
+    tags: "",
+    tieGroup: "",
+  };
 }
 
 // AdminPuzzleForm renders a form for creating or editing puzzles. It manages
@@ -52,11 +155,20 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Event bank search state
+  const [bankQuery, setBankQuery] = useState("");
+  const [bankResults, setBankResults] = useState<BankEvent[]>([]);
+  const [bankSearching, setBankSearching] = useState(false);
+
   // ── Event row management ──────────────────────────────────────────────────
 
   // Updates a specific field within an event row at the given index.
   // Creates a shallow copy of the events array to trigger a React re-render.
-  const updateEvent = (index: number, field: keyof EventRow, value: string) => {
+  const updateEvent = (
+    index: number,
+    field: keyof EventRow,
+    value: string | boolean
+  ) => {
     setEvents((prev) => {
       const copy = [...prev];
       copy[index] = { ...copy[index], [field]: value };
@@ -76,6 +188,46 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
     setEvents((prev) => prev.filter((_, i) => i !== index));
   };
 
+  // Appends an event from the bank as a read-only row. Events already in the
+  // puzzle are ignored.
+  const addBankEvent = (bankEvent: BankEvent) => {
+    if (events.some((row) => row.eventId === bankEvent.id)) return;
+    const row: EventRow = {
+      ...emptyEvent(),
+      eventId: bankEvent.id,
+      text: bankEvent.text,
+      date: bankEvent.date,
+      url: bankEvent.url || "",
+      tags: bankEvent.tags.join(", "),
+      tieGroup: "",
+    };
+    // Replace a single untouched empty row instead of appending after it
+    setEvents((prev) =>
+      prev.length === 1 && !prev[0].eventId && !prev[0].text.trim()
+        ? [row]
+        : [...prev, row]
+    );
+  };
+
+  // ── Event bank search ─────────────────────────────────────────────────────
+  // Queries GET /api/admin/events for events whose text matches the query.
+  const searchBank = async () => {
+    setBankSearching(true);
+    try {
+      const params = new URLSearchParams({ q: bankQuery.trim() });
+      const res = await fetch(`/api/admin/events?${params}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || `Search failed (${res.status})`);
+      }
+      setBankResults(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to search events");
+    } finally {
+      setBankSearching(false);
+    }
+  };
+
   // ── Submit handler ────────────────────────────────────────────────────────
   // Validates required fields, constructs the form data, and delegates to the
   // parent's onSubmit callback.
@@ -97,18 +249,16 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
       return;
     }
 
-    // Validate each event row has the minimum required fields
+    // Validate each new event row has text and a complete date
     for (let i = 0; i < events.length; i++) {
+      if (events[i].eventId) continue;
       if (!events[i].text.trim()) {
         setError(`Event ${i + 1} is missing text`);
         return;
       }
-      if (!events[i].date.trim()) {
-        setError(`Event ${i + 1} is missing date`);
-        return;
-      }
-      if (!events[i].sortDate) {
-        setError(`Event ${i + 1} is missing sort date`);
+      const parsed = rowDate(events[i]);
+      if ("error" in parsed) {
+        setError(`Event ${i + 1} has an invalid date: ${parsed.error}`);
         return;
       }
     }
@@ -120,7 +270,7 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
         category: category.trim(),
         isDaily,
         dailyDate,
-        events,
+        events: events.map(toEventInput),
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to save puzzle");
@@ -201,9 +351,15 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
       {/* ── Dynamic event rows ─────────────────────────────────────────────── */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
-          <h3 className="text-sm font-semibold text-navy">
-            Events ({events.length})
-          </h3>
+          <div>
+            <h3 className="text-sm font-semibold text-navy">
+              Events ({events.length})
+            </h3>
+            <p className="text-xs text-gray-500">
+              Saved in date order. Events whose dates overlap need a shared
+              tie group.
+            </p>
+          </div>
           <button
             type="button"
             onClick={addEvent}
@@ -213,6 +369,52 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
           </button>
         </div>
 
+        {/* Event bank search — adds existing events to the puzzle */}
+        <div className="space-y-2 rounded-lg bg-gray-50 p-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={bankQuery}
+              onChange={(e) => setBankQuery(e.target.value)}
+              onKeyDown={(e) => {
+                // Search instead of submitting the puzzle form
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  searchBank();
+                }
+              }}
+              className={inputClass}
+              placeholder="Search the event bank..."
+            />
+            <button
+              type="button"
+              onClick={searchBank}
+              disabled={bankSearching}
+              className="shrink-0 rounded-lg bg-navy/10 px-3 py-1 text-xs font-medium text-navy transition-colors hover:bg-navy/20 disabled:opacity-60"
+            >
+              {bankSearching ? "Searching..." : "Search"}
+            </button>
+          </div>
+
+          {bankResults.map((bankEvent) => (
+            <div
+              key={bankEvent.id}
+              className="flex items-center gap-2 text-xs text-gray-600"
+            >
+              <span className="truncate">{bankEvent.text}</span>
+              <span className="shrink-0 text-gray-400">({bankEvent.date})</span>
+              <button
+                type="button"
+                onClick={() => addBankEvent(bankEvent)}
+                disabled={events.some((row) => row.eventId === bankEvent.id)}
+                className="ml-auto shrink-0 font-medium text-navy hover:underline disabled:text-gray-400 disabled:no-underline"
+              >
+                Add
+              </button>
+            </div>
+          ))}
+        </div>
+
         {events.map((event, index) => (
           <div
             key={index}
@@ -221,6 +423,11 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
             <div className="flex items-center justify-between">
               <span className="text-xs font-semibold text-gray-500 uppercase">
                 Event {index + 1}
+                {event.eventId && (
+                  <span className="ml-2 rounded-full bg-navy/10 px-2 py-0.5 font-medium text-navy normal-case">
+                    From bank
+                  </span>
+                )}
               </span>
               {/* Remove button — hidden when only one event remains */}
               {events.length > 1 && (
@@ -234,77 +441,216 @@ export function AdminPuzzleForm({ onSubmit, initialData }: AdminPuzzleFormProps)
               )}
             </div>
 
-            {/* Event text — textarea allows multi-line event descriptions */}
-            <div>
+            {/* Bank events are shared with other puzzles, so they are shown
+                read-only here */}
+            {event.eventId ? (
+              <p className="text-sm text-gray-700">
+                {event.text}{" "}
+                <span className="text-xs text-gray-400">({event.date})</span>
+              </p>
+            ) : (
+              <>
+                {/* Event text — textarea allows multi-line event descriptions */}
+                <div>
+                  <label
+                    htmlFor={`event-text-${index}`}
+                    className="mb-1 block text-xs font-medium text-gray-600"
+                  >
+                    Text
+                  </label>
+                  <textarea
+                    id={`event-text-${index}`}
+                    value={event.text}
+                    onChange={(e) => updateEvent(index, "text", e.target.value)}
+                    className={inputClass + " min-h-[60px] resize-y"}
+                    placeholder="Event description..."
+                  />
+                </div>
+
+                {/* Structured date — year with era, precision, circa flag */}
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  <div>
+                    <label
+                      htmlFor={`event-year-${index}`}
+                      className="mb-1 block text-xs font-medium text-gray-600"
+                    >
+                      Year
+                    </label>
+                    <input
+                      id={`event-year-${index}`}
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={event.year}
+                      onChange={(e) => updateEvent(index, "year", e.target.value)}
+                      className={inputClass}
+                      placeholder="2026"
+                    />
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor={`event-era-${index}`}
+                      className="mb-1 block text-xs font-medium text-gray-600"
+                    >
+                      Era
+                    </label>
+                    <select
+                      id={`event-era-${index}`}
+                      value={event.era}
+                      onChange={(e) => updateEvent(index, "era", e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="AD">AD</option>
+                      <option value="BC">BC</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor={`event-precision-${index}`}
+                      className="mb-1 block text-xs font-medium text-gray-600"
+                    >
+                      Precision
+                    </label>
+                    <select
+                      id={`event-precision-${index}`}
+                      value={event.precision}
+                      onChange={(e) =>
+                        updateEvent(index, "precision", e.target.value)
+                      }
+                      className={inputClass}
+                    >
+                      {DATE_PRECISIONS.map((p) => (
+                        <option key={p} value={p}>
+                          {p}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <label className="flex items-end gap-2 pb-2 text-xs font-medium text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={event.circa}
+                      onChange={(e) =>
+                        updateEvent(index, "circa", e.target.checked)
+                      }
+                      className="h-4 w-4 rounded border-gray-300 text-navy focus:ring-navy"
+                    />
+                    Circa
+                  </label>
+                </div>
+
+                {/* Month and day (only for precisions that include them), URL (source link) */}
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                  <div>
+                    <label
+                      htmlFor={`event-month-${index}`}
+                      className="mb-1 block text-xs font-medium text-gray-600"
+                    >
+                      Month
+                    </label>
+                    <select
+                      id={`event-month-${index}`}
+                      value={event.month}
+                      onChange={(e) => updateEvent(index, "month", e.target.value)}
+                      disabled={
+                        event.precision !== "day" && event.precision !== "month"
+                      }
+                      className={inputClass + " disabled:bg-gray-100"}
+                    >
+                      <option value="">—</option>
+                      {MONTHS.map((name, i) => (
+                        <option key={name} value={i + 1}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor={`event-day-${index}`}
+                      className="mb-1 block text-xs font-medium text-gray-600"
+                    >
+                      Day
+                    </label>
+                    <input
+                      id={`event-day-${index}`}
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={event.day}
+                      onChange={(e) => updateEvent(index, "day", e.target.value)}
+                      disabled={event.precision !== "day"}
+                      className={inputClass + " disabled:bg-gray-100"}
+                    />
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor={`event-url-${index}`}
+                      className="mb-1 block text-xs font-medium text-gray-600"
+                    >
+                      URL (optional)
+                    </label>
+                    <input
+                      id={`event-url-${index}`}
+                      type="text"
+                      value={event.url}
+                      onChange={(e) => updateEvent(index, "url", e.target.value)}
+                      className={inputClass}
+                      placeholder="https://..."
+                    />
+                  </div>
+                </div>
+
+                {/* Preview of the display date players will see */}
+                <p className="text-xs text-gray-500">
+                  Displays as: {datePreview(event)}
+                </p>
+
+                {/* Tags — defaults to the puzzle category when left empty */}
+                <div>
+                  <label
+                    htmlFor={`event-tags-${index}`}
+                    className="mb-1 block text-xs font-medium text-gray-600"
+                  >
+                    Tags (comma-separated, optional)
+                  </label>
+                  <input
+                    id={`event-tags-${index}`}
+                    type="text"
+                    value={event.tags}
+                    onChange={(e) => updateEvent(index, "tags", e.target.value)}
+                    className={inputClass}
+                    placeholder={category || "e.g. Leviathan News, DeFi"}
+                  />
+                </div>
+              </>
+            )}
+
+            {/* Tie group — marks events with overlapping dates as a
+                deliberate tie that players may order freely */}
+            <div className="sm:w-1/3">
               <label
-                htmlFor={`event-text-${index}`}
+                htmlFor={`event-tieGroup-${index}`}
                 className="mb-1 block text-xs font-medium text-gray-600"
               >
-                Text
+                Tie group (optional)
               </label>
-              <textarea
-                id={`event-text-${index}`}
-                value={event.text}
-                onChange={(e) => updateEvent(index, "text", e.target.value)}
-                className={inputClass + " min-h-[60px] resize-y"}
-                placeholder="Event description..."
+              <input
+                id={`event-tieGroup-${index}`}
+                type="number"
+                min={1}
+                step={1}
+                value={event.tieGroup}
+                onChange={(e) => updateEvent(index, "tieGroup", e.target.value)}
+                className={inputClass}
+                placeholder="e.g. 1"
               />
             </div>
-
-            {/* Date (display label), Sort Date (chronological ordering), URL (source link) */}
-            <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
-              <div>
-                <label
-                  htmlFor={`event-date-${index}`}
-                  className="mb-1 block text-xs font-medium text-gray-600"
-                >
-                  Date (display)
-                </label>
-                <input
-                  id={`event-date-${index}`}
-                  type="text"
-                  value={event.date}
-                  onChange={(e) => updateEvent(index, "date", e.target.value)}
-                  className={inputClass}
-                  placeholder="Jan 15, 2026"
-                />
-              </div>
-
-              <div>
-                <label
-                  htmlFor={`event-sortDate-${index}`}
-                  className="mb-1 block text-xs font-medium text-gray-600"
-                >
-                  Sort Date
-                </label>
-                <input
-                  id={`event-sortDate-${index}`}
-                  type="date"
-                  value={event.sortDate}
-                  onChange={(e) =>
-                    updateEvent(index, "sortDate", e.target.value)
-                  }
-                  className={inputClass}
-                />
-              </div>
-
-              <div>
-                <label
-                  htmlFor={`event-url-${index}`}
-                  className="mb-1 block text-xs font-medium text-gray-600"
-                >
-                  URL (optional)
-                </label>
-                <input
-                  id={`event-url-${index}`}
-                  type="text"
-                  value={event.url}
-                  onChange={(e) => updateEvent(index, "url", e.target.value)}
-                  className={inputClass}
-                  placeholder="https://..."
-                />
-              </div>
-            </div>
           </div>
         ))}
       </div>
@@ -0,0 +1,118 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { Season } from "@/types";
+
+// AdminSeasonForm creates leaderboard seasons through
+// POST /api/admin/seasons. Dates are whole UTC days: the season starts at
+// 00:00 UTC on the start date and runs through the end date.
+export function AdminSeasonForm() {
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Confirmation of the last season created
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+
+      try {
+        // The season's end is exclusive, so it ends at the start of the day
+        // after the end date
+        const endsAt = new Date(`${endDate}T00:00:00Z`);
+        endsAt.setUTCDate(endsAt.getUTCDate() + 1);
+
+        const res = await fetch("/api/admin/seasons", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            startsAt: `${startDate}T00:00:00Z`,
+            endsAt: endsAt.toISOString(),
+          }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(
+            data?.error || `Creating the season failed (${res.status})`
+          );
+        }
+
+        const season: Season = await res.json();
+        setMessage(`Created "${season.name}".`);
+        setName("");
+        setStartDate("");
+        setEndDate("");
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to create season"
+        );
+      } finally {
+        setSaving(false);
+      }
+    },
+    [name, startDate, endDate]
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-lg border border-gray-200 p-4"
+    >
+      <h2 className="text-lg font-semibold text-navy">New Season</h2>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="rounded-lg bg-lime/20 p-3 text-sm text-green-700">
+          {message}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Season name, e.g. Season 1"
+        maxLength={100}
+        required
+        className="w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+      />
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          required
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+        />
+        <span>through</span>
+        <input
+          type="date"
+          value={endDate}
+          min={startDate || undefined}
+          onChange={(e) => setEndDate(e.target.value)}
+          required
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+        />
+        <span className="text-xs text-gray-400">(UTC)</span>
+      </div>
+      <button
+        type="submit"
+        disabled={saving}
+        className="rounded-lg bg-navy px-3 py-1 text-xs font-semibold text-white transition-colors hover:bg-navy/90 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Create season
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+// AdminXpAdjustment issues XP corrections through
+// POST /api/admin/xp-adjustments. Each correction is a new entry in the
+// player's XP ledger with the admin's reason; negative amounts remove XP.
+export function AdminXpAdjustment() {
+  const [walletAddress, setWalletAddress] = useState("");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Confirmation of the last correction, with the player's new total
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+
+      try {
+        const res = await fetch("/api/admin/xp-adjustments", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            walletAddress: walletAddress.trim(),
+            amount: Number(amount),
+            reason,
+          }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(data?.error || `Correction failed (${res.status})`);
+        }
+
+        const data: { xp: number } = await res.json();
+        setMessage(
+          `Applied ${Number(amount) > 0 ? "+" : ""}${amount} XP. New total: ${data.xp.toLocaleString()} XP.`
+        );
+        setAmount("");
+        setReason("");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to adjust XP");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [walletAddress, amount, reason]
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-lg border border-gray-200 p-4"
+    >
+      <h2 className="text-lg font-semibold text-navy">XP Correction</h2>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="rounded-lg bg-lime/20 p-3 text-sm text-green-700">
+          {message}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={walletAddress}
+          onChange={(e) => setWalletAddress(e.target.value)}
+          placeholder="Wallet address (0x…)"
+          required
+          className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 font-mono text-xs focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+        />
+        <input
+          type="number"
+          step={1}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="±XP"
+          required
+          className="w-24 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+        />
+      </div>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason, shown to the player"
+        maxLength={255}
+        required
+        className="w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-navy focus:outline-none focus:ring-1 focus:ring-navy"
+      />
+      <button
+        type="submit"
+        disabled={saving}
+        className="rounded-lg bg-navy px-3 py-1 text-xs font-semibold text-white transition-colors hover:bg-navy/90 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Apply correction
+      </button>
+    </form>
+  );
+}
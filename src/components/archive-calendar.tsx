@@ -0,0 +1,129 @@
+"use client";
+
+import { browserTimeZone, localDate } from "@/lib/time-zones";
+import type { ArchivePuzzle, ArchiveStatus } from "@/types";
+
+// Weekday headers, starting on Sunday like Date.getUTCDay()
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// ─── Status Styling ──────────────────────────────────────────────────────────
+// Day cells are tinted by the player's outcome on that day's puzzle. Guests
+// (status null) see every available day in the neutral "unplayed" style.
+const STATUS_CLASSES: Record<ArchiveStatus, string> = {
+  won: "bg-lime text-navy hover:bg-lime/80",
+  lost: "bg-red-100 text-red-700 hover:bg-red-200",
+  unplayed: "bg-navy/10 text-navy hover:bg-navy/20",
+};
+
+// Shifts a "YYYY-MM" month string by `delta` months
+export function shiftMonth(month: string, delta: number): string {
+  const [year, m] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, m - 1 + delta, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+// `month` — the displayed month as "YYYY-MM"
+// `puzzles` — the daily puzzles released in that month
+// `onSelect` — loads the puzzle for a clicked day
+// `onMonthChange` — moves the calendar to another month
+interface ArchiveCalendarProps {
+  month: string;
+  puzzles: ArchivePuzzle[];
+  onSelect: (puzzle: ArchivePuzzle) => void;
+  onMonthChange: (month: string) => void;
+}
+
+// ArchiveCalendar renders one month of past daily challenges as a grid. Days
+// with a released daily are clickable; the current month is the latest that
+// can be shown.
+export function ArchiveCalendar({
+  month,
+  puzzles,
+  onSelect,
+  onMonthChange,
+}: ArchiveCalendarProps) {
+  const [year, m] = month.split("-").map(Number);
+  const firstWeekday = new Date(Date.UTC(year, m - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  const isCurrentMonth = month >= localDate(browserTimeZone()).slice(0, 7);
+
+  const label = new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString(
+    undefined,
+    { month: "long", year: "numeric", timeZone: "UTC" }
+  );
+
+  // Daily puzzles keyed by day of the month
+  const puzzleByDay = new Map(
+    puzzles
+      .filter((p) => p.dailyDate)
+      .map((p) => [Number(p.dailyDate!.slice(8, 10)), p])
+  );
+
+  return (
+    <div className="rounded-xl border border-border bg-white p-4">
+      {/* ── Month navigation ─────────────────────────────────────────────── */}
+      <div className="mb-3 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onMonthChange(shiftMonth(month, -1))}
+          className="rounded-lg px-2 py-1 text-sm text-navy hover:bg-navy/10"
+          aria-label="Previous month"
+        >
+          ←
+        </button>
+        <span className="text-sm font-semibold text-navy">{label}</span>
+        <button
+          type="button"
+          onClick={() => onMonthChange(shiftMonth(month, 1))}
+          disabled={isCurrentMonth}
+          className="rounded-lg px-2 py-1 text-sm text-navy hover:bg-navy/10 disabled:cursor-not-allowed disabled:opacity-30"
+          aria-label="Next month"
+        >
+          →
+        </button>
+      </div>
+
+      {/* ── Day grid ─────────────────────────────────────────────────────── */}
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAYS.map((day) => (
+          <span key={day} className="py-1 font-medium text-gray-400">
+            {day}
+          </span>
+        ))}
+
+        {/* Blank cells before the first day of the month */}
+        {Array.from({ length: firstWeekday }, (_, i) => (
+          <span key={`blank-${i}`} />
+        ))}
+
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const day = i + 1;
+          const puzzle = puzzleByDay.get(day);
+
+          if (!puzzle) {
+            return (
+              <span key={day} className="rounded-lg py-2 text-gray-300">
+                {day}
+              </span>
+            );
+          }
+
+          return (
+            <button
+              key={day}
+              type="button"
+              onClick={() => onSelect(puzzle)}
+              title={puzzle.title}
+              className={`rounded-lg py-2 font-semibold transition-colors ${
+                STATUS_CLASSES[puzzle.status ?? "unplayed"]
+              }`}
+            >
+              {day}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
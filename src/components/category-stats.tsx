@@ -0,0 +1,61 @@
+"use client";
+
+import type { CategoryStats as CategoryStatsRow } from "@/types";
+
+// ─── Time Formatting ────────────────────────────────────────────────────────
+// Converts milliseconds to "45s" or "1:23"; null (no wins yet) shows "--"
+function formatTime(ms: number | null): string {
+  if (ms === null) return "--";
+
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+// `categories` — the player's record per puzzle category from
+// GET /api/stats/me, most played first
+interface CategoryStatsProps {
+  categories: CategoryStatsRow[];
+}
+
+// ─── CategoryStats ───────────────────────────────────────────────────────────
+// Breaks the player's record down by puzzle category: games played, win rate
+// (with a bar) and fastest winning solve in each.
+export function CategoryStats({ categories }: CategoryStatsProps) {
+  if (categories.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No games played yet. Start playing to see your categories!
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-white p-4 shadow-sm">
+      {categories.map((c) => (
+        <div key={c.category} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-navy">{c.category}</span>
+            <span className="flex gap-4 text-xs text-gray-500">
+              <span>
+                {c.gamesPlayed} {c.gamesPlayed === 1 ? "game" : "games"}
+              </span>
+              <span>{Math.round(c.winRate * 100)}% won</span>
+              <span>Fastest {formatTime(c.fastestSolveTimeMs)}</span>
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-gray-100">
+            <div
+              className="h-full rounded-full bg-lime"
+              style={{ width: `${c.winRate * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
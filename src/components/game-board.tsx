@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import {
   DndContext,
   PointerSensor,
@@ -20,9 +20,16 @@ import {
 import { GameCard } from "@/components/game-card";
 import { GameTimer } from "@/components/game-timer";
 import { AchievementToast } from "@/components/achievement-toast";
+import { LevelUpToast } from "@/components/level-up-toast";
 import { ResultModal } from "@/components/result-modal";
 import { MAX_HINTS } from "@/lib/constants";
-import type { Puzzle, PuzzleEvent, SubmitResult, Achievement } from "@/types";
+import type {
+  Puzzle,
+  PuzzleEvent,
+  SubmitResult,
+  HintResult,
+  Achievement,
+} from "@/types";
 
 // ─── Inline SVG Icons ────────────────────────────────────────────────────────
 // Minimal icons used in the board UI (action buttons, hints, info).
@@ -148,25 +155,39 @@ function shuffle<T>(arr: T[]): T[] {
 // ─── Props ───────────────────────────────────────────────────────────────────
 // `puzzle` — the current puzzle with events in server-provided order
 // `onSubmit` — async callback to validate the player's ordering
+// `onHint` — async callback that asks the server to reveal a misplaced event
+// `onRetry` — async callback that starts a new server play session before
+//   the player retries the same puzzle
 // `onNextPuzzle` — navigates to the next puzzle after completion
 
 interface GameBoardProps {
   puzzle: Puzzle;
-  onSubmit: (
-    orderedIds: string[],
-    hintsUsed: number,
-    solveTimeMs: number
-  ) => Promise<SubmitResult>;
+  onSubmit: (orderedIds: string[]) => Promise<SubmitResult>;
+  onHint: (orderedIds: string[]) => Promise<HintResult>;
+  onRetry: () => Promise<void>;
   onNextPuzzle: () => void;
   // When true, displays a "Daily Challenge" badge in the header area to
   // distinguish daily puzzles from random/archive puzzles.
   isDaily?: boolean;
 }
 
-export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoardProps) {
+export function GameBoard({
+  puzzle,
+  onSubmit,
+  onHint,
+  onRetry,
+  onNextPuzzle,
+  isDaily,
+}: GameBoardProps) {
   // ─── State ──────────────────────────────────────────────────────────────
   // `items` — the player's current ordering of events (shuffled on mount)
-  const [items, setItems] = useState<PuzzleEvent[]>([]);
+  const [items, setItems] = useState<Omit<PuzzleEvent, "date">[]>([]);
+
+  // Event dates the server has revealed, by event ID: one per hint, and
+  // every date once the game is submitted
+  const [revealedDates, setRevealedDates] = useState<Record<string, string>>(
+    {}
+  );
 
   // Whether the player has successfully solved the puzzle
   const [gameWon, setGameWon] = useState(false);
@@ -178,6 +199,10 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
   );
   // Temporary message shown when a hint is used (or unavailable)
   const [hintMessage, setHintMessage] = useState<string | null>(null);
+  // Failure of the last submission or retry, shown until the next attempt
+  const [error, setError] = useState<string | null>(null);
+  // True while a hint request is in flight (prevents double-spending hints)
+  const [hintLoading, setHintLoading] = useState(false);
 
   // Set of event IDs that the player has locked in position
   const [lockedItems, setLockedItems] = useState<Set<string>>(new Set());
@@ -185,9 +210,10 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
   // Index of the currently selected card for tap-to-swap (-1 = none)
   const [selectedIndex, setSelectedIndex] = useState(-1);
 
-  // Timer control: starts on mount, stops on submission
+  // Timer control: starts on mount, stops on submission. The displayed time
+  // is informational only — the server measures solve time from the session.
   const [timerRunning, setTimerRunning] = useState(false);
-  const [solveTimeMs, setSolveTimeMs] = useState(0);
+  const [timerKey, setTimerKey] = useState(0);
 
   // Server response after submission
   const [result, setResult] = useState<SubmitResult | null>(null);
@@ -205,6 +231,10 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
   // and the next achievement (if any) takes its place.
   const [achievementQueue, setAchievementQueue] = useState<Achievement[]>([]);
 
+  // Level reached by the last submission, shown as a toast ahead of the
+  // achievement toasts; null when the game did not cause a level-up
+  const [levelUp, setLevelUp] = useState<number | null>(null);
+
   // ─── Shuffle on mount / puzzle change ───────────────────────────────────
   // Fisher-Yates shuffle creates a random initial ordering for the player.
   // Also starts the timer and resets all game state.
@@ -213,15 +243,17 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
     setGameWon(false);
     setHintsLeft(MAX_HINTS);
     setHintedEventIds(new Set());
+    setRevealedDates({});
     setHintMessage(null);
+    setError(null);
     setLockedItems(new Set());
     setSelectedIndex(-1);
     setTimerRunning(true);
-    setSolveTimeMs(0);
     setResult(null);
     setCorrectOrder([]);
     setShowModal(false);
     setAchievementQueue([]);
+    setLevelUp(null);
     setSubmitting(false);
   }, [puzzle]);
 
@@ -315,18 +347,41 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
   );
 
   // ─── Hint Handler ─────────────────────────────────────────────────────
-  // Placeholder: reveals the date for one incorrectly-placed card.
-  // Full hint logic requires server integration (Phase 5) to know which
-  // cards are in the wrong position. For now, shows a message.
-  const handleHint = useCallback(() => {
-    if (gameWon || hintsLeft <= 0) return;
+  // Sends the current ordering to the server, which picks one misplaced
+  // event and reveals its date and correct slot. The server is the source
+  // of truth for the remaining hint count (authenticated hints are recorded
+  // and counted at submission time).
+  const handleHint = useCallback(async () => {
+    if (gameWon || hintsLeft <= 0 || hintLoading) return;
+
+    setHintLoading(true);
+    try {
+      const hint = await onHint(items.map((item) => item.id));
+      setHintsLeft(hint.hintsLeft);
 
-    // Placeholder message until server integration is available
-    setHintMessage("Hints available after server integration");
+      if (hint.eventId === null || hint.correctIndex === null) {
+        setHintMessage("Every event is already in the right position!");
+      } else {
+        // Reveal the hinted card's date (GameCard shows dates for hinted cards)
+        const hintedId = hint.eventId;
+        const hintedDate = hint.date ?? "";
+        setHintedEventIds((prev) => new Set(prev).add(hintedId));
+        setRevealedDates((prev) => ({ ...prev, [hintedId]: hintedDate }));
+        setHintMessage(
+          `The event dated ${hint.date} belongs in position ${hint.correctIndex + 1}.`
+        );
+      }
+    } catch (error) {
+      setHintMessage(
+        error instanceof Error ? error.message : "Failed to get a hint"
+      );
+    } finally {
+      setHintLoading(false);
+    }
 
     // Auto-dismiss the hint message after 3 seconds
     setTimeout(() => setHintMessage(null), 3000);
-  }, [gameWon, hintsLeft]);
+  }, [gameWon, hintsLeft, hintLoading, onHint, items]);
 
   // ─── Submit Handler ───────────────────────────────────────────────────
   // Sends the player's current ordering to the server for validation.
@@ -337,53 +392,74 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
 
     setSubmitting(true);
     setTimerRunning(false);
+    setError(null);
 
     try {
       const orderedIds = items.map((item) => item.id);
-      const hintsUsed = MAX_HINTS - hintsLeft;
-      const submitResult = await onSubmit(orderedIds, hintsUsed, solveTimeMs);
+      const submitResult = await onSubmit(orderedIds);
 
       setResult(submitResult);
       setCorrectOrder(submitResult.correctOrder);
+      setRevealedDates(submitResult.eventDates);
 
       if (submitResult.won) {
         setGameWon(true);
       }
 
+      if (submitResult.levelAfter > submitResult.levelBefore) {
+        setLevelUp(submitResult.levelAfter);
+      }
+
       // Queue achievements for sequential toast display via AchievementToast
       if (submitResult.newAchievements.length > 0) {
         setAchievementQueue(submitResult.newAchievements);
       }
 
       setShowModal(true);
-    } catch (error) {
+    } catch (err) {
       // Re-enable the timer so the player can try again
       setTimerRunning(true);
-      console.error("Submit failed:", error);
+      setError(err instanceof Error ? err.message : "Submission failed");
+      console.error("Submit failed:", err);
     } finally {
       setSubmitting(false);
     }
-  }, [submitting, gameWon, items, hintsLeft, solveTimeMs, onSubmit]);
+  }, [submitting, gameWon, items, onSubmit]);
 
   // ─── Retry Handler ────────────────────────────────────────────────────
-  // Re-shuffles the events and resets all game state so the player can
-  // attempt the same puzzle again with a fresh arrangement.
-  const handleRetry = useCallback(() => {
+  // Starts a new server play session (the previous one was consumed by its
+  // submission), then re-shuffles the events and resets all game state so
+  // the player can attempt the same puzzle again with a fresh arrangement.
+  const handleRetry = useCallback(async () => {
+    try {
+      await onRetry();
+    } catch (err) {
+      // Close the result modal so the error below the board is visible
+      setShowModal(false);
+      setError(err instanceof Error ? err.message : "Failed to restart puzzle");
+      console.error("Failed to start a new session:", err);
+      return;
+    }
+
     setItems(shuffle(puzzle.events));
     setGameWon(false);
     setHintsLeft(MAX_HINTS);
     setHintedEventIds(new Set());
+    setRevealedDates({});
     setHintMessage(null);
+    setError(null);
     setLockedItems(new Set());
     setSelectedIndex(-1);
     setTimerRunning(true);
-    setSolveTimeMs(0);
+    // Remount the timer so the display restarts from zero
+    setTimerKey((prev) => prev + 1);
     setResult(null);
     setCorrectOrder([]);
     setShowModal(false);
     setAchievementQueue([]);
+    setLevelUp(null);
     setSubmitting(false);
-  }, [puzzle.events]);
+  }, [onRetry, puzzle.events]);
 
   // ─── Card Status Computation ──────────────────────────────────────────
   // After submission, compares each card's position against the server's
@@ -397,8 +473,16 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
     [correctOrder]
   );
 
-  // Memoize the number of hints used for display
-  const hintsUsed = MAX_HINTS - hintsLeft;
+  // How many slots a card sits from its correct position (negative = placed
+  // too early). Computed live from the current index, like getCardStatus, so
+  // it stays accurate if the player rearranges cards after a failed attempt.
+  const getCardDelta = useCallback(
+    (eventId: string, index: number): number | null => {
+      if (correctOrder.length === 0) return null;
+      return index - correctOrder.indexOf(eventId);
+    },
+    [correctOrder]
+  );
 
   return (
     <div className="mx-auto w-full max-w-lg space-y-4">
@@ -415,7 +499,7 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
             </span>
           )}
         </div>
-        <GameTimer running={timerRunning} onTimeUpdate={setSolveTimeMs} />
+        <GameTimer key={timerKey} running={timerRunning} />
       </div>
 
       {/* ── Instructions (hidden after game ends) ──────────────────────── */}
@@ -437,7 +521,7 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
         >
           {result.won
             ? `Correct! Score: ${result.score} — XP earned: ${result.xpEarned}`
-            : `Not quite right. Score: ${result.score}/5`}
+            : `Not quite right. Score: ${result.score}/${result.maxScore}`}
         </div>
       )}
 
@@ -457,16 +541,19 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
                 connection between events on the timeline. */}
             <div className="absolute top-4 bottom-4 left-[1.35rem] w-0.5 bg-border" />
 
+            {/* GameCard only shows the date of revealed cards, so an empty
+                string stands in for dates the server has not revealed */}
             {items.map((event, index) => (
               <GameCard
                 key={event.id}
-                event={event}
+                event={{ ...event, date: revealedDates[event.id] ?? "" }}
                 index={index}
                 gameWon={gameWon}
                 isHinted={hintedEventIds.has(event.id)}
                 isLocked={lockedItems.has(event.id)}
                 isSelected={selectedIndex === index}
                 status={getCardStatus(event.id, index)}
+                delta={getCardDelta(event.id, index)}
                 onToggleLock={handleToggleLock}
                 onClick={() => handleCardClick(index)}
               />
@@ -483,6 +570,8 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
         </div>
       )}
 
+      {error && <p className="text-center text-sm text-red-600">{error}</p>}
+
       {/* ── Action area ────────────────────────────────────────────────── */}
       {/* During play: hint button + submit button
           After game: score summary + retry/next buttons */}
@@ -493,7 +582,7 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
             <button
               type="button"
               onClick={handleHint}
-              disabled={hintsLeft <= 0 || gameWon}
+              disabled={hintsLeft <= 0 || gameWon || hintLoading}
               className="flex items-center gap-1.5 rounded-lg border border-border px-3 py-2 text-sm font-medium text-navy/70 transition-colors hover:bg-navy/5 disabled:cursor-not-allowed disabled:opacity-40"
             >
               <LightbulbIcon size={16} />
@@ -561,17 +650,19 @@ export function GameBoard({ puzzle, onSubmit, onNextPuzzle, isDaily }: GameBoard
       {showModal && result && (
         <ResultModal
           result={result}
-          totalEvents={puzzle.events.length}
           onRetry={handleRetry}
           onReview={() => setShowModal(false)}
         />
       )}
 
-      {/* ── Achievement Toasts ─────────────────────────────────────────── */}
-      {/* Renders the first achievement in the queue as a slide-in toast.
-          When dismissed (manually or via auto-timer), the first item is
-          removed from the queue, causing the next achievement to render. */}
-      {achievementQueue.length > 0 && (
+      {/* ── Level-Up and Achievement Toasts ────────────────────────────── */}
+      {/* A level-up toast comes first. Then the first achievement in the
+          queue renders as a slide-in toast; when dismissed (manually or via
+          auto-timer), it is removed from the queue, causing the next
+          achievement to render. */}
+      {levelUp !== null ? (
+        <LevelUpToast level={levelUp} onDismiss={() => setLevelUp(null)} />
+      ) : achievementQueue.length > 0 && (
         <AchievementToast
           key={achievementQueue[0].id}
           achievement={achievementQueue[0]}
@@ -130,6 +130,8 @@ function ExternalLinkIcon({ size = 16 }: { size?: number }) {
 // ─── Props ───────────────────────────────────────────────────────────────────
 // The parent GameBoard passes these down. `status` is null during play and set
 // to "correct"/"incorrect" after submission when the server returns correctOrder.
+// `delta` is the card's offset from its correct slot (negative = too early),
+// null during play. Without `onToggleLock` the lock toggle is hidden.
 
 interface GameCardProps {
   event: PuzzleEvent;
@@ -139,7 +141,8 @@ interface GameCardProps {
   isLocked: boolean;
   isSelected: boolean;
   status: "correct" | "incorrect" | null;
-  onToggleLock: (eventId: string) => void;
+  delta: number | null;
+  onToggleLock?: (eventId: string) => void;
   onClick: () => void;
 }
 
@@ -151,6 +154,7 @@ export function GameCard({
   isLocked,
   isSelected,
   status,
+  delta,
   onToggleLock,
   onClick,
 }: GameCardProps) {
@@ -249,6 +253,20 @@ export function GameCard({
         </div>
       </div>
 
+      {/* ── Distance badge ─────────────────────────────────────────────── */}
+      {/* After a failed submission, shows which way and how far a misplaced
+          card needs to move: a card placed too early (negative delta) needs
+          to move down. */}
+      {!gameWon && delta !== null && delta !== 0 && (
+        <span
+          className="shrink-0 rounded-full bg-red-500/10 px-2 py-0.5 text-xs font-semibold text-red-600"
+          aria-label={`Move ${delta < 0 ? "down" : "up"} ${Math.abs(delta)}`}
+        >
+          {delta < 0 ? "↓" : "↑"}
+          {Math.abs(delta)}
+        </span>
+      )}
+
       {/* ── External link icon (visible only after winning, if URL exists) */}
       {gameWon && event.url && (
         <a
@@ -267,7 +285,7 @@ export function GameCard({
       {/* ── Lock/unlock toggle ─────────────────────────────────────────── */}
       {/* Only shown during play. Clicking locks the card in its current
           position (disabling drag) or unlocks it to allow repositioning. */}
-      {!gameWon && (
+      {!gameWon && onToggleLock && (
         <button
           type="button"
           onClick={(e) => {
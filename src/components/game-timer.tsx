@@ -4,13 +4,13 @@ import { useEffect, useRef, useState } from "react";
 
 // ─── Props ───────────────────────────────────────────────────────────────────
 // `running` controls whether the timer is actively counting up.
-// `onTimeUpdate` is called every tick (100ms) with the total elapsed ms,
-// allowing the parent GameBoard to track solve time without owning the
-// interval logic itself.
+// `onTimeUpdate` (optional) is called every tick (100ms) with the total
+// elapsed ms, allowing a parent to track the displayed time without owning
+// the interval logic itself.
 
 interface GameTimerProps {
   running: boolean;
-  onTimeUpdate: (ms: number) => void;
+  onTimeUpdate?: (ms: number) => void;
 }
 
 export function GameTimer({ running, onTimeUpdate }: GameTimerProps) {
@@ -45,7 +45,7 @@ export function GameTimer({ running, onTimeUpdate }: GameTimerProps) {
         const delta = now - startTimeRef.current;
         const total = Math.round(baseElapsedRef.current + delta);
         setElapsedMs(total);
-        onTimeUpdate(total);
+        onTimeUpdate?.(total);
       }, 100);
     } else {
       // Stop: clear the interval when running becomes false
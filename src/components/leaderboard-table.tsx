@@ -23,6 +23,10 @@ function getSortLabel(sortBy: string): string {
       return "Current Streak";
     case "best_streak":
       return "Best Streak";
+    case "survival":
+      return "Best Run";
+    case "period_xp":
+      return "XP Earned";
     default:
       return "XP";
   }
@@ -39,6 +43,10 @@ function getSortValue(entry: LeaderboardEntry, sortBy: string): string {
       return entry.currentStreak.toString();
     case "best_streak":
       return entry.bestStreak.toString();
+    case "survival":
+      return entry.bestSurvival.toString();
+    case "period_xp":
+      return (entry.periodXp ?? 0).toLocaleString();
     default:
       return entry.xp.toLocaleString();
   }
@@ -47,8 +55,9 @@ function getSortValue(entry: LeaderboardEntry, sortBy: string): string {
 // ─── Props ───────────────────────────────────────────────────────────────────
 // `entries` — array of LeaderboardEntry objects from the API, pre-sorted and
 //             ranked by the server.
-// `sortBy` — the current sort mode ("xp", "streak", or "best_streak") which
-//            determines which value column to display.
+// `sortBy` — the current sort mode ("xp", "streak", "best_streak", or
+//            "survival") which determines which value column to display.
+//            "period_xp" shows the XP earned in a week, month or season.
 interface LeaderboardTableProps {
   entries: LeaderboardEntry[];
   sortBy: string;
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+// `level` — the level the player just reached
+// `onDismiss` — callback fired when the toast should be removed, either via
+//   auto-dismiss timer or manual close
+interface LevelUpToastProps {
+  level: number;
+  onDismiss: () => void;
+}
+
+// ─── Arrow-Up SVG Icon ───────────────────────────────────────────────────────
+// Shown in the badge next to the new level number.
+function ArrowUpIcon({ size = 14 }: { size?: number }) {
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2.5}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <line x1="12" y1="19" x2="12" y2="5" />
+      <polyline points="5 12 12 5 19 12" />
+    </svg>
+  );
+}
+
+// LevelUpToast slides in from the right to celebrate a level-up, using the
+// same placement, timing and slide animation as AchievementToast (see
+// src/components/achievement-toast.tsx). Boards show it before any
+// achievement toasts from the same game.
+export function LevelUpToast({ level, onDismiss }: LevelUpToastProps) {
+  // Controls the slide-in animation, as in AchievementToast
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const showTimer = setTimeout(() => setVisible(true), 50);
+
+    // Auto-dismiss after 4 seconds, once the slide-out has finished
+    const dismissTimer = setTimeout(() => {
+      setVisible(false);
+      setTimeout(onDismiss, 300);
+    }, 4000);
+
+    return () => {
+      clearTimeout(showTimer);
+      clearTimeout(dismissTimer);
+    };
+  }, [onDismiss]);
+
+  const handleClose = () => {
+    setVisible(false);
+    setTimeout(onDismiss, 300);
+  };
+
+  return (
+    <div
+      className={`
+        fixed top-20 right-4 z-50 w-80 max-w-[calc(100vw-2rem)]
+        rounded-lg border-2 border-navy bg-white shadow-lg
+        transition-transform duration-300 ease-out
+        ${visible ? "translate-x-0" : "translate-x-[calc(100%+1rem)]"}
+      `}
+      role="alert"
+      aria-live="polite"
+    >
+      <button
+        type="button"
+        onClick={handleClose}
+        className="flex w-full items-center gap-3 p-4 text-left"
+        aria-label="Dismiss level-up notification"
+      >
+        {/* New level number in a navy circle */}
+        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-navy text-lg font-bold text-white">
+          {level}
+        </div>
+
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-1 text-navy">
+            <ArrowUpIcon />
+            <span className="text-xs font-bold uppercase tracking-wide">
+              Level Up!
+            </span>
+          </div>
+          <p className="text-sm font-semibold text-navy">
+            You reached level {level}
+          </p>
+        </div>
+      </button>
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { onGameRecorded } from "@/lib/game-recorded";
 
 // ─── Inline SVG Icon ─────────────────────────────────────────────────────────
-// Trophy icon used in the streak badge to the right of the navbar.
+// Trophy icon used in the daily streak badge to the right of the navbar.
 
 function TrophyIcon({ size = 16 }: { size?: number }) {
   return (
@@ -36,21 +39,58 @@ function TrophyIcon({ size = 16 }: { size?: number }) {
 // based on the current pathname from Next.js' usePathname hook.
 const NAV_LINKS = [
   { label: "Play", href: "/" },
+  { label: "Pinpoint", href: "/pinpoint" },
+  { label: "Survival", href: "/survival" },
+  { label: "Archive", href: "/archive" },
   { label: "Leaderboard", href: "/leaderboard" },
   { label: "Profile", href: "/profile" },
 ] as const;
 
-// ─── Props ───────────────────────────────────────────────────────────────────
-// `streak` — the player's current win streak count, displayed in a badge.
-// Defaults to 0 if not provided (e.g., for unauthenticated users).
-
-interface NavbarProps {
-  streak?: number;
-}
-
-export function Navbar({ streak = 0 }: NavbarProps) {
+// Navbar renders the site header. For signed-in players the streak badge
+// shows their daily streak (consecutive days with a completed daily
+// challenge) from GET /api/stats/streak; guests see 0.
+export function Navbar() {
   // Current route path used to highlight the active nav link
   const pathname = usePathname();
+  const { status } = useSession();
+  const [dailyStreak, setDailyStreak] = useState(0);
+
+  // Counter incremented after each submitted game to refetch the streak
+  const [gamesRecorded, setGamesRecorded] = useState(0);
+
+  useEffect(
+    () => onGameRecorded(() => setGamesRecorded((prev) => prev + 1)),
+    []
+  );
+
+  // ─── Fetch Daily Streak ─────────────────────────────────────────────────
+  // Fetched on sign-in and again after a game is submitted, which is when a
+  // daily may have been played
+  useEffect(() => {
+    if (status !== "authenticated") return;
+    let cancelled = false;
+
+    async function fetchStreak() {
+      try {
+        const res = await fetch("/api/stats/streak");
+        if (!res.ok) return;
+        const data: { dailyStreak: number } = await res.json();
+        if (!cancelled) {
+          setDailyStreak(data.dailyStreak);
+        }
+      } catch (err) {
+        console.error("Failed to load daily streak:", err);
+      }
+    }
+
+    fetchStreak();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, gamesRecorded]);
+
+  const streak = status === "authenticated" ? dailyStreak : 0;
 
   return (
     <nav className="sticky top-0 z-40 border-b border-border bg-white/95 backdrop-blur-sm">
@@ -103,7 +143,7 @@ export function Navbar({ streak = 0 }: NavbarProps) {
 
         {/* ── Right: Streak badge + Wallet placeholder ────────────────── */}
         <div className="flex items-center gap-3">
-          {/* Streak badge: shows trophy icon with current streak count.
+          {/* Streak badge: shows trophy icon with the daily streak count.
               Highlighted in lime when streak > 0, muted when at zero. */}
           <div
             className={`
@@ -114,7 +154,7 @@ export function Navbar({ streak = 0 }: NavbarProps) {
                   : "bg-gray-100 text-gray-400"
               }
             `}
-            title={`Current streak: ${streak}`}
+            title={`Daily streak: ${streak} ${streak === 1 ? "day" : "days"}`}
           >
             <TrophyIcon size={14} />
             <span>{streak}</span>
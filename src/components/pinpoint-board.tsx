@@ -0,0 +1,315 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { GameTimer } from "@/components/game-timer";
+import { AchievementToast } from "@/components/achievement-toast";
+import { LevelUpToast } from "@/components/level-up-toast";
+import { PINPOINT_MAX_POINTS } from "@/lib/constants";
+import type {
+  PinpointPuzzle,
+  PinpointGuess,
+  PinpointSubmitResult,
+  Achievement,
+} from "@/types";
+
+// Month names for the optional month picker (index 0 = January)
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// Range of the year slider. Typed years are not limited to this range; the
+// slider is a shortcut for the recent history most puzzles cover.
+const SLIDER_MIN_YEAR = 1900;
+const SLIDER_MAX_YEAR = new Date().getFullYear();
+
+// Raw form state for one event's guess. Kept as strings so the inputs can be
+// empty while the player is typing.
+interface GuessDraft {
+  year: string;
+  month: string;
+}
+
+// Formats a guess for display next to the answer, e.g. "March 2021" or "2021"
+function formatGuess(guess: PinpointGuess): string {
+  return guess.month === null
+    ? String(guess.year)
+    : `${MONTHS[guess.month - 1]} ${guess.year}`;
+}
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+// `puzzle` — the puzzle served in pinpoint mode (events without dates)
+// `onSubmit` — sends the guesses to the server and returns the scored result
+// `onNextPuzzle` — loads a different puzzle
+// `isDaily` — whether the puzzle is today's daily challenge
+interface PinpointBoardProps {
+  puzzle: PinpointPuzzle;
+  onSubmit: (guesses: PinpointGuess[]) => Promise<PinpointSubmitResult>;
+  onNextPuzzle: () => void;
+  isDaily: boolean;
+}
+
+// PinpointBoard is the Pinpoint-mode counterpart of GameBoard. Instead of
+// sorting, the player types or slides to the year of each event and can
+// optionally name the month for extra points. After submission every card
+// reveals the real date, the player's guess and the points it earned.
+export function PinpointBoard({
+  puzzle,
+  onSubmit,
+  onNextPuzzle,
+  isDaily,
+}: PinpointBoardProps) {
+  // Guess drafts keyed by event id; every event starts without a guess
+  const [drafts, setDrafts] = useState<Record<string, GuessDraft>>(() =>
+    Object.fromEntries(
+      puzzle.events.map((e) => [e.id, { year: "", month: "" }])
+    )
+  );
+
+  const [timerRunning, setTimerRunning] = useState(true);
+  const [result, setResult] = useState<PinpointSubmitResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [achievementQueue, setAchievementQueue] = useState<Achievement[]>([]);
+  // Level reached by the submission, shown ahead of the achievement toasts
+  const [levelUp, setLevelUp] = useState<number | null>(null);
+
+  // Per-event results keyed by event id, for rendering next to each card
+  const resultsById = useMemo(
+    () => new Map(result?.events.map((e) => [e.eventId, e]) ?? []),
+    [result]
+  );
+
+  // Submission is allowed once every event has a whole-number year
+  const allGuessed = puzzle.events.every((e) =>
+    /^-?\d+$/.test(drafts[e.id].year.trim())
+  );
+
+  const updateDraft = useCallback(
+    (eventId: string, patch: Partial<GuessDraft>) => {
+      setDrafts((prev) => ({
+        ...prev,
+        [eventId]: { ...prev[eventId], ...patch },
+      }));
+    },
+    []
+  );
+
+  // ─── Submit Handler ───────────────────────────────────────────────────
+  const handleSubmit = useCallback(async () => {
+    if (submitting || result || !allGuessed) return;
+
+    setSubmitting(true);
+    setTimerRunning(false);
+    setError(null);
+
+    try {
+      const guesses: PinpointGuess[] = puzzle.events.map((e) => ({
+        eventId: e.id,
+        year: parseInt(drafts[e.id].year, 10),
+        month: drafts[e.id].month ? parseInt(drafts[e.id].month, 10) : null,
+      }));
+      const submitResult = await onSubmit(guesses);
+
+      setResult(submitResult);
+      if (submitResult.levelAfter > submitResult.levelBefore) {
+        setLevelUp(submitResult.levelAfter);
+      }
+      if (submitResult.newAchievements.length > 0) {
+        setAchievementQueue(submitResult.newAchievements);
+      }
+    } catch (err) {
+      setTimerRunning(true);
+      setError(err instanceof Error ? err.message : "Submission failed");
+      console.error("Submit failed:", err);
+    } finally {
+      setSubmitting(false);
+    }
+  }, [submitting, result, allGuessed, puzzle.events, drafts, onSubmit]);
+
+  return (
+    <div className="mx-auto w-full max-w-lg space-y-4">
+      {/* ── Header: category label + daily badge + timer ────────────────── */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="rounded-full bg-navy/10 px-3 py-1 text-xs font-semibold tracking-wide text-navy uppercase">
+            {puzzle.category}
+          </span>
+          {isDaily && (
+            <span className="rounded-full bg-navy px-3 py-1 text-xs font-semibold tracking-wide text-white">
+              Daily Challenge
+            </span>
+          )}
+        </div>
+        <GameTimer running={timerRunning} />
+      </div>
+
+      {/* ── Instructions (hidden after submission) ─────────────────────── */}
+      {!result && (
+        <p className="text-center text-sm text-gray-500">
+          When did each event happen? Enter the year — add the month for
+          more points.
+        </p>
+      )}
+
+      {/* ── Result banner ──────────────────────────────────────────────── */}
+      {result && (
+        <div
+          className={`rounded-lg p-3 text-center text-sm font-medium ${
+            result.won ? "bg-lime/20 text-navy" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {result.won ? "Pinpointed! " : "Not quite. "}
+          Score: {result.score}/{result.maxScore}
+          {result.xpEarned > 0 && ` — XP earned: ${result.xpEarned}`}
+          {result.levelAfter > result.levelBefore &&
+            ` — Level ${result.levelAfter} reached!`}
+          {result.fasterThanPercent !== null &&
+            ` — Faster than ${result.fasterThanPercent}% of players`}
+        </div>
+      )}
+
+      {/* ── Event cards with guess inputs ──────────────────────────────── */}
+      <div className="space-y-2">
+        {puzzle.events.map((event, index) => {
+          const draft = drafts[event.id];
+          const eventResult = resultsById.get(event.id);
+          const sliderYear = parseInt(draft.year, 10);
+
+          return (
+            <div
+              key={event.id}
+              className="space-y-3 rounded-xl border-2 border-border bg-white p-3 shadow-sm"
+            >
+              <div className="flex items-start gap-3">
+                {/* Card number */}
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-navy/10 text-sm font-bold text-navy">
+                  {index + 1}
+                </div>
+                <p className="min-w-0 flex-1 text-sm leading-snug font-medium text-gray-800">
+                  {event.text}
+                </p>
+              </div>
+
+              {eventResult ? (
+                // ── Revealed answer ──────────────────────────────────────
+                <div className="flex items-center justify-between gap-3 text-xs">
+                  <div className="space-y-0.5">
+                    <p className="font-mono text-gray-700">{eventResult.date}</p>
+                    <p className="text-gray-500">
+                      Your guess: {formatGuess(eventResult.guess)}
+                    </p>
+                  </div>
+                  <span
+                    className={`shrink-0 rounded-full px-3 py-1 font-semibold ${
+                      eventResult.points >= PINPOINT_MAX_POINTS / 2
+                        ? "bg-lime/20 text-navy"
+                        : "bg-red-500/10 text-red-600"
+                    }`}
+                  >
+                    +{eventResult.points}
+                  </span>
+                </div>
+              ) : (
+                // ── Guess inputs ─────────────────────────────────────────
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      placeholder="Year"
+                      value={draft.year}
+                      onChange={(e) =>
+                        updateDraft(event.id, { year: e.target.value })
+                      }
+                      className="w-28 rounded-lg border border-border px-3 py-1.5 text-sm text-navy focus:border-navy focus:outline-none"
+                      aria-label={`Year of: ${event.text}`}
+                    />
+                    <select
+                      value={draft.month}
+                      onChange={(e) =>
+                        updateDraft(event.id, { month: e.target.value })
+                      }
+                      className="flex-1 rounded-lg border border-border px-3 py-1.5 text-sm text-navy focus:border-navy focus:outline-none"
+                      aria-label={`Month of: ${event.text}`}
+                    >
+                      <option value="">Month (optional)</option>
+                      {MONTHS.map((name, i) => (
+                        <option key={name} value={i + 1}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <input
+                    type="range"
+                    min={SLIDER_MIN_YEAR}
+                    max={SLIDER_MAX_YEAR}
+                    value={
+                      Number.isNaN(sliderYear)
+                        ? SLIDER_MAX_YEAR
+                        : Math.min(
+                            Math.max(sliderYear, SLIDER_MIN_YEAR),
+                            SLIDER_MAX_YEAR
+                          )
+                    }
+                    onChange={(e) =>
+                      updateDraft(event.id, { year: e.target.value })
+                    }
+                    className="w-full accent-navy"
+                    aria-label={`Year slider for: ${event.text}`}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-center text-sm text-red-600">{error}</p>}
+
+      {/* ── Action area ────────────────────────────────────────────────── */}
+      <div className="flex items-center justify-end gap-3">
+        {!result ? (
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={submitting || !allGuessed}
+            className="rounded-lg bg-navy px-5 py-2 text-sm font-semibold text-white transition-colors hover:bg-navy/90 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {submitting ? "Checking..." : "Submit"}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onNextPuzzle}
+            className="rounded-lg bg-lime px-5 py-2 text-sm font-semibold text-navy transition-colors hover:bg-lime/90"
+          >
+            Next Puzzle
+          </button>
+        )}
+      </div>
+
+      {/* ── Level-Up and Achievement Toasts ────────────────────────────── */}
+      {levelUp !== null ? (
+        <LevelUpToast level={levelUp} onDismiss={() => setLevelUp(null)} />
+      ) : achievementQueue.length > 0 && (
+        <AchievementToast
+          key={achievementQueue[0].id}
+          achievement={achievementQueue[0]}
+          onDismiss={() => setAchievementQueue((prev) => prev.slice(1))}
+        />
+      )}
+    </div>
+  );
+}
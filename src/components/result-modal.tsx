@@ -1,19 +1,36 @@
 "use client";
 
 import type { SubmitResult } from "@/types";
+import type { ScoringStrategy } from "@/lib/scoring";
 
 // ─── Props ───────────────────────────────────────────────────────────────────
 // `result` — the server response from submitting the puzzle answer
-// `totalEvents` — total number of events in the puzzle (used for score display)
 // `onRetry` — callback to re-shuffle and retry the same puzzle
 // `onReview` — callback to dismiss the modal and review the results/stories
 interface ResultModalProps {
   result: SubmitResult;
-  totalEvents: number;
   onRetry: () => void;
   onReview: () => void;
 }
 
+// Describes what the score counts under each scoring strategy, completing the
+// sentence "You got X of Y ...".
+const SCORE_UNITS: Record<ScoringStrategy, string> = {
+  exact: "events in the right position",
+  kendall: "pairs in order",
+  lis: "events in sequence",
+};
+
+// ─── Level-Up Banner ─────────────────────────────────────────────────────────
+// Shown under the XP earned when the game's XP reached a new level.
+function LevelUpBanner({ level }: { level: number }) {
+  return (
+    <p className="rounded-lg bg-navy px-4 py-2 text-sm font-semibold text-white">
+      Level up! You reached level {level}.
+    </p>
+  );
+}
+
 // ─── Trophy SVG Icon ─────────────────────────────────────────────────────────
 // Displayed in the win state header to celebrate the player's success.
 function TrophyIcon({ size = 48 }: { size?: number }) {
@@ -63,18 +80,21 @@ function RefreshIcon({ size = 48 }: { size?: number }) {
 // ResultModal displays a full-screen overlay with a centered card that shows
 // the outcome of the player's puzzle submission. Two distinct visual states:
 //
-// Win: Trophy icon, "Timeline Mastered!" heading, XP earned, list of any
-//      newly unlocked achievements, and a "Review & Read Stories" button.
+// Win: Trophy icon, "Timeline Mastered!" heading, how the solve time
+//      compares with other players on a first attempt, XP earned, a level-up
+//      banner if the XP reached a new level, list of any newly unlocked
+//      achievements, and a "Review & Read Stories" button.
 //
-// Loss: Refresh icon, "Keep Trying!" heading, score fraction (e.g. 3/5),
-//       and a "Keep Trying" retry button.
+// Loss: Refresh icon, "Keep Trying!" heading, partial-credit score phrased
+//       for the scoring strategy (e.g. "8 of 10 pairs in order"),
+//       any XP earned (with the level-up banner), and a "Keep Trying" retry
+//       button.
 //
 // The overlay is semi-transparent and prevents interaction with content
 // behind it. Clicking outside the card does not dismiss — the player must
 // use one of the action buttons.
 export function ResultModal({
   result,
-  totalEvents,
   onRetry,
   onReview,
 }: ResultModalProps) {
@@ -100,6 +120,13 @@ export function ResultModal({
               <p className="text-gray-500">
                 You placed all events in the correct order.
               </p>
+              {/* Comparison with other players' first attempts, when there
+                  are any to compare with */}
+              {result.fasterThanPercent !== null && (
+                <p className="text-sm font-medium text-navy">
+                  You were faster than {result.fasterThanPercent}% of players
+                </p>
+              )}
             </div>
 
             {/* XP earned badge */}
@@ -107,6 +134,10 @@ export function ResultModal({
               +{result.xpEarned} XP
             </div>
 
+            {result.levelAfter > result.levelBefore && (
+              <LevelUpBanner level={result.levelAfter} />
+            )}
+
             {/* Achievements list (only if any were unlocked this game) */}
             {result.newAchievements.length > 0 && (
               <div className="space-y-2">
@@ -162,12 +193,23 @@ export function ResultModal({
               <p className="text-gray-500">
                 You got{" "}
                 <span className="font-semibold text-navy">
-                  {result.score}/{totalEvents}
+                  {result.score} of {result.maxScore}
                 </span>{" "}
-                events in the right position.
+                {SCORE_UNITS[result.strategy]}.
               </p>
             </div>
 
+            {/* Partial-credit XP (guests and zero-score attempts earn none) */}
+            {result.xpEarned > 0 && (
+              <div className="inline-block rounded-full bg-navy/5 px-4 py-2 text-lg font-bold text-navy">
+                +{result.xpEarned} XP
+              </div>
+            )}
+
+            {result.levelAfter > result.levelBefore && (
+              <LevelUpBanner level={result.levelAfter} />
+            )}
+
             {/* Primary action: retry the same puzzle with a fresh shuffle */}
             <button
               type="button"
@@ -58,7 +58,7 @@ interface StatsGridProps {
 // ─── StatsGrid ───────────────────────────────────────────────────────────────
 // Renders a responsive grid of stat cards summarizing the player's performance.
 // Layout: 2 columns on mobile, 4 columns on desktop (md+ breakpoint).
-// Displays 8 metrics: Games Played, Wins, Current Streak, Best Streak,
+// Displays 8 metrics: Games Played, Wins, Daily Streak, Win Streak,
 // Avg Solve Time, Fastest Solve, Total XP, and Level.
 export function StatsGrid({ stats }: StatsGridProps) {
   // Format win rate as a percentage string (e.g. "75.0%")
@@ -71,8 +71,17 @@ export function StatsGrid({ stats }: StatsGridProps) {
       {/* Wins card includes win rate as subtext for context */}
       <StatCard label="Wins" value={stats.wins} subtext={winRateText} />
 
-      <StatCard label="Current Streak" value={stats.currentStreak} />
-      <StatCard label="Best Streak" value={stats.bestStreak} />
+      {/* Streak cards show the best-ever streak as subtext */}
+      <StatCard
+        label="Daily Streak"
+        value={stats.dailyStreak}
+        subtext={`Best: ${stats.bestDailyStreak} days`}
+      />
+      <StatCard
+        label="Win Streak"
+        value={stats.currentStreak}
+        subtext={`Best: ${stats.bestStreak} wins`}
+      />
 
       {/* Solve times are stored in ms and formatted to human-readable strings */}
       <StatCard
@@ -0,0 +1,241 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import {
+  DndContext,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  closestCenter,
+} from "@dnd-kit/core";
+import type { DragEndEvent } from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+  arrayMove,
+  sortableKeyboardCoordinates,
+} from "@dnd-kit/sortable";
+
+import { GameCard } from "@/components/game-card";
+import type {
+  PuzzleEvent,
+  SurvivalStartResult,
+  SurvivalPlaceResult,
+} from "@/types";
+
+// The pending card is rendered through GameCard, which expects a date. Its
+// date is withheld by the server, so an empty string stands in (GameCard only
+// shows dates on revealed cards).
+function toPendingItem(pending: Omit<PuzzleEvent, "date">): PuzzleEvent {
+  return { ...pending, date: "" };
+}
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+// `run` — the freshly started run (first timeline card + first pending card)
+// `onPlace` — places the pending card at a timeline position on the server
+// `onRestart` — starts a new run
+interface SurvivalBoardProps {
+  run: SurvivalStartResult;
+  onPlace: (position: number) => Promise<SurvivalPlaceResult>;
+  onRestart: () => void;
+}
+
+// SurvivalBoard renders an endless timeline. Placed cards are fixed in place
+// with their dates revealed; the single pending card is dragged (or tapped
+// into place) between them and confirmed with "Place". The run continues
+// until the first misplacement, which is shown in its correct slot.
+export function SurvivalBoard({ run, onPlace, onRestart }: SurvivalBoardProps) {
+  // All cards in display order: the placed timeline plus the pending card,
+  // which starts at the top
+  const [items, setItems] = useState<PuzzleEvent[]>(() => [
+    toPendingItem(run.pending),
+    ...run.timeline,
+  ]);
+  const [pendingId, setPendingId] = useState<string | null>(run.pending.id);
+  const [score, setScore] = useState(run.score);
+  const [ended, setEnded] = useState(false);
+
+  // The card that ended the run, highlighted as incorrect
+  const [missedId, setMissedId] = useState<string | null>(null);
+
+  const [placing, setPlacing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ─── DnD Sensors ───────────────────────────────────────────────────────
+  // Same configuration as GameBoard: a 5px activation distance separates
+  // taps from drags, and the keyboard sensor allows arrow-key moves.
+  const pointerSensor = useSensor(PointerSensor, {
+    activationConstraint: { distance: 5 },
+  });
+  const keyboardSensor = useSensor(KeyboardSensor, {
+    coordinateGetter: sortableKeyboardCoordinates,
+  });
+  const sensors = useSensors(pointerSensor, keyboardSensor);
+
+  // ─── Drag End Handler ──────────────────────────────────────────────────
+  // Only the pending card is draggable; placed cards shift around it.
+  const handleDragEnd = useCallback((event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    setItems((prev) => {
+      const oldIndex = prev.findIndex((item) => item.id === active.id);
+      const newIndex = prev.findIndex((item) => item.id === over.id);
+      if (oldIndex === -1 || newIndex === -1) return prev;
+      return arrayMove(prev, oldIndex, newIndex);
+    });
+  }, []);
+
+  // ─── Tap-to-Move Handler ──────────────────────────────────────────────
+  // Tapping a placed card moves the pending card into that slot. After the
+  // run ends, tapping a card opens its source URL (if any).
+  const handleCardClick = useCallback(
+    (index: number) => {
+      if (ended) {
+        const event = items[index];
+        if (event?.url) {
+          window.open(event.url, "_blank", "noopener,noreferrer");
+        }
+        return;
+      }
+
+      setItems((prev) => {
+        const pendingIndex = prev.findIndex((item) => item.id === pendingId);
+        if (pendingIndex === -1 || pendingIndex === index) return prev;
+        return arrayMove(prev, pendingIndex, index);
+      });
+    },
+    [ended, items, pendingId]
+  );
+
+  // ─── Place Handler ────────────────────────────────────────────────────
+  // Sends the pending card's slot to the server. The response says where
+  // the card really belongs, which is where it is shown either way.
+  const handlePlace = useCallback(async () => {
+    if (placing || ended || !pendingId) return;
+
+    setPlacing(true);
+    setError(null);
+
+    try {
+      const position = items.findIndex((item) => item.id === pendingId);
+      const result = await onPlace(position);
+
+      setItems((prev) => {
+        const timeline = prev.filter((item) => item.id !== pendingId);
+        timeline.splice(result.position, 0, result.placed);
+        return result.pending
+          ? [toPendingItem(result.pending), ...timeline]
+          : timeline;
+      });
+      setPendingId(result.pending?.id ?? null);
+      setScore(result.score);
+      setEnded(result.ended);
+      if (!result.correct) setMissedId(result.placed.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to place card");
+      console.error("Place failed:", err);
+    } finally {
+      setPlacing(false);
+    }
+  }, [placing, ended, pendingId, items, onPlace]);
+
+  return (
+    <div className="mx-auto w-full max-w-lg space-y-4">
+      {/* ── Header: mode label + running score ─────────────────────────── */}
+      <div className="flex items-center justify-between">
+        <span className="rounded-full bg-navy/10 px-3 py-1 text-xs font-semibold tracking-wide text-navy uppercase">
+          Survival
+        </span>
+        <span className="text-sm font-semibold text-navy">
+          Timeline: {score}
+        </span>
+      </div>
+
+      {/* ── Instructions / result banner ───────────────────────────────── */}
+      {!ended ? (
+        <p className="text-center text-sm text-gray-500">
+          Drag the new card into its place on the timeline — earliest at top.
+          One mistake ends the run.
+        </p>
+      ) : (
+        <div
+          className={`rounded-lg p-3 text-center text-sm font-medium ${
+            missedId ? "bg-red-50 text-red-700" : "bg-lime/20 text-navy"
+          }`}
+        >
+          {missedId
+            ? `Run over! Your timeline reached ${score} events.`
+            : `You placed every event — a perfect run of ${score}!`}
+        </div>
+      )}
+
+      {/* ── Timeline ───────────────────────────────────────────────────── */}
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragEnd={handleDragEnd}
+      >
+        <SortableContext
+          items={items.map((item) => item.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          <div className="relative space-y-2">
+            <div className="absolute top-4 bottom-4 left-[1.35rem] w-0.5 bg-border" />
+
+            {items.map((event, index) => {
+              const isPending = event.id === pendingId;
+              return (
+                <GameCard
+                  key={event.id}
+                  event={event}
+                  index={index}
+                  // Placed cards behave like a solved board: fixed in
+                  // place with their dates revealed
+                  gameWon={!isPending}
+                  isHinted={false}
+                  isLocked={false}
+                  isSelected={isPending}
+                  status={
+                    isPending
+                      ? null
+                      : event.id === missedId
+                        ? "incorrect"
+                        : "correct"
+                  }
+                  delta={null}
+                  onClick={() => handleCardClick(index)}
+                />
+              );
+            })}
+          </div>
+        </SortableContext>
+      </DndContext>
+
+      {error && <p className="text-center text-sm text-red-600">{error}</p>}
+
+      {/* ── Action area ────────────────────────────────────────────────── */}
+      <div className="flex items-center justify-end gap-3">
+        {!ended ? (
+          <button
+            type="button"
+            onClick={handlePlace}
+            disabled={placing}
+            className="rounded-lg bg-navy px-5 py-2 text-sm font-semibold text-white transition-colors hover:bg-navy/90 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {placing ? "Checking..." : "Place"}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onRestart}
+            className="rounded-lg bg-lime px-5 py-2 text-sm font-semibold text-navy transition-colors hover:bg-lime/90"
+          >
+            Play Again
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { xpSourceLabel } from "@/lib/xp";
+import type { XpEvent, XpSourceTotal } from "@/types";
+
+// ─── Amount Formatting ───────────────────────────────────────────────────────
+// Signed XP amount, e.g. "+75" or "-100"
+function formatAmount(amount: number): string {
+  return `${amount > 0 ? "+" : ""}${amount.toLocaleString()}`;
+}
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+// `breakdown` — total XP per source, largest first
+// `history` — the most recent ledger entries, newest first
+interface XpHistoryProps {
+  breakdown: XpSourceTotal[];
+  history: XpEvent[];
+}
+
+// ─── XpHistory ───────────────────────────────────────────────────────────────
+// Explains a player's XP total from the XP ledger (GET /api/stats/me): a bar
+// per source showing its share of the total, followed by the latest awards.
+// Corrections can be negative; their bars are drawn against the same scale.
+export function XpHistory({ breakdown, history }: XpHistoryProps) {
+  if (breakdown.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No XP yet. Finish a game to start earning!
+      </p>
+    );
+  }
+
+  // Bars are scaled to the largest source
+  const largest = Math.max(...breakdown.map((b) => Math.abs(b.amount)));
+
+  return (
+    <div className="space-y-6">
+      {/* ── Totals by source ─────────────────────────────────────────────── */}
+      <div className="space-y-2 rounded-xl border border-border bg-white p-4 shadow-sm">
+        {breakdown.map((b) => (
+          <div key={b.source} className="flex items-center gap-3 text-sm">
+            <span className="w-48 shrink-0 text-gray-600">
+              {xpSourceLabel(b.source)}
+            </span>
+            <div className="h-2 flex-1 overflow-hidden rounded-full bg-gray-100">
+              <div
+                className={`h-full rounded-full ${
+                  b.amount < 0 ? "bg-red-300" : "bg-lime"
+                }`}
+                style={{ width: `${(Math.abs(b.amount) / largest) * 100}%` }}
+              />
+            </div>
+            <span className="w-16 shrink-0 text-right font-medium text-navy">
+              {b.amount.toLocaleString()}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* ── Latest awards ────────────────────────────────────────────────── */}
+      <div className="space-y-1">
+        {history.map((event) => (
+          <div
+            key={event.id}
+            className="flex items-center justify-between rounded-lg px-3 py-1.5 text-sm odd:bg-gray-50"
+          >
+            <span className="text-gray-600">
+              {xpSourceLabel(event.source)}
+              {/* Achievement title or the admin's reason */}
+              {event.reason && (
+                <span className="text-gray-400"> · {event.reason}</span>
+              )}
+            </span>
+            <span className="flex items-center gap-4">
+              <span className="hidden text-xs text-gray-400 sm:inline">
+                {new Date(event.createdAt).toLocaleDateString(undefined, {
+                  month: "short",
+                  day: "numeric",
+                })}
+              </span>
+              <span
+                className={`w-14 text-right font-semibold ${
+                  event.amount < 0 ? "text-red-600" : "text-green-700"
+                }`}
+              >
+                {formatAmount(event.amount)}
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import "dotenv/config";
+import { archiveEndedSeasons } from "../lib/seasons";
+
+// ── Season Archiver Script ──────────────────────────────────────────────────
+// Records the final standings of every leaderboard season that has ended
+// (see src/lib/seasons.ts). The leaderboard also archives an ended season
+// the first time it is requested; running this from a local cron keeps that
+// work off requests, e.g. hourly:
+//   0 * * * * cd /path/to/app && npm run db:archive-seasons
+//
+// Safe to run at any time: archived seasons are skipped, and the seasons
+// advisory lock keeps two runs from archiving the same season.
+
+async function run() {
+  const archived = await archiveEndedSeasons();
+
+  for (const name of archived) {
+    console.log(`  Archived "${name}"`);
+  }
+  console.log(`Archived ${archived.length} seasons.`);
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+run()
+  .then(() => {
+    console.log("Archive script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Archive script failed:", error);
+    process.exit(1);
+  });
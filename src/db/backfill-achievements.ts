@@ -0,0 +1,58 @@
+import "dotenv/config";
+import { db } from "./index";
+import { users } from "./schema";
+import { backfillAchievements } from "../lib/achievements";
+
+// ── Achievement Backfill ────────────────────────────────────────────────────
+// Awards achievements that players earned but never received: ones added to
+// the catalog after the games that meet them were played, or ones missed
+// because of a bug in the checker. Each player's games are replayed in the
+// order they were played through the achievement rules (see
+// src/lib/achievements.ts); every achievement found is unlocked as of the
+// game that earned it and its reward is credited to the XP ledger.
+//
+//   npm run db:backfill-achievements             — award what is missing
+//   npm run db:backfill-achievements -- --dry-run — only report it
+//
+// Safe to run at any time: each player is replayed under the same row lock
+// that game submissions take, and achievements already unlocked are never
+// awarded twice, so a second run awards nothing.
+
+async function backfill(dryRun: boolean) {
+  const allUsers = await db
+    .select({ id: users.id, walletAddress: users.walletAddress })
+    .from(users);
+
+  let awarded = 0;
+  let xp = 0;
+  for (const [i, user] of allUsers.entries()) {
+    const found = await backfillAchievements(user.id, dryRun);
+    if (found.length === 0) continue;
+
+    console.log(`  [${i + 1}/${allUsers.length}] ${user.walletAddress}:`);
+    for (const a of found) {
+      console.log(
+        `    ${a.id} (+${a.xpReward} XP), earned ${a.unlockedAt.toISOString()}`
+      );
+      awarded++;
+      xp += a.xpReward;
+    }
+  }
+
+  console.log(
+    dryRun
+      ? `Dry run: would award ${awarded} achievements (${xp} XP) across ${allUsers.length} players.`
+      : `Awarded ${awarded} achievements (${xp} XP) across ${allUsers.length} players.`
+  );
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+backfill(process.argv.includes("--dry-run"))
+  .then(() => {
+    console.log("Backfill script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Backfill script failed:", error);
+    process.exit(1);
+  });
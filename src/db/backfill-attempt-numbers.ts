@@ -0,0 +1,29 @@
+import "dotenv/config";
+import { renumberAttempts } from "../lib/puzzle-stats";
+
+// ── Attempt Number Backfill ─────────────────────────────────────────────────
+// Numbers every game result by attempt: 1 for a player's first play of a
+// puzzle in a mode, 2 for their first retry, and so on, in the order the
+// games were played (see src/lib/puzzle-stats.ts). Run it once after
+// `drizzle-kit push` adds the `attempt_number` column, which starts at 1 for
+// every existing row:
+//   npm run db:backfill-attempt-numbers
+//
+// Idempotent: only rows whose number is wrong are updated, so a second run
+// changes nothing.
+
+async function backfill() {
+  const renumbered = await renumberAttempts();
+  console.log(`Renumbered ${renumbered} game results.`);
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+backfill()
+  .then(() => {
+    console.log("Backfill script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Backfill script failed:", error);
+    process.exit(1);
+  });
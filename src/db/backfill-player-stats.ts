@@ -0,0 +1,38 @@
+import "dotenv/config";
+import { db } from "./index";
+import { users } from "./schema";
+import { rebuildPlayerStats } from "../lib/player-stats";
+
+// ── Player Stats Backfill ───────────────────────────────────────────────────
+// Rebuilds every player's row in `player_stats` from their full
+// `game_results` history (see src/lib/player-stats.ts). Run it once after
+// `drizzle-kit push` creates the table, and again whenever the counters are
+// suspected to have drifted:
+//   npm run db:backfill-player-stats
+//
+// Safe to run at any time: each row is recomputed from scratch under the
+// same row lock that game submissions take, one player at a time.
+
+async function backfill() {
+  const allUsers = await db.select({ id: users.id }).from(users);
+
+  for (const [i, user] of allUsers.entries()) {
+    const stats = await rebuildPlayerStats(user.id);
+    console.log(
+      `  [${i + 1}/${allUsers.length}] ${user.id}: ${stats.gamesPlayed} games, ${stats.wins} wins`
+    );
+  }
+
+  console.log(`Rebuilt stats for ${allUsers.length} players.`);
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+backfill()
+  .then(() => {
+    console.log("Backfill script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Backfill script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,60 @@
+import "dotenv/config";
+import { db } from "@vercel/postgres";
+
+// ── XP Ledger Backfill ──────────────────────────────────────────────────────
+// Opens the XP ledger (see src/lib/xp-ledger.ts) for players who earned XP
+// before awards were itemized. Each player whose `users.xp` differs from the
+// sum of their `xp_events` gets one "legacy" entry for the difference, so
+// the cached total and the ledger agree from then on.
+//
+// Run this after `drizzle-kit push` creates the `xp_events` table:
+//   npm run db:backfill-xp-ledger
+//
+// Everything runs in one transaction on a single connection. The script is
+// idempotent: once every total matches its ledger, a second run inserts
+// nothing.
+
+async function backfill() {
+  const client = await db.connect();
+
+  try {
+    await client.sql`BEGIN`;
+
+    // Lock the users so no game can award XP between the comparison and
+    // the insert
+    await client.sql`LOCK TABLE users IN SHARE ROW EXCLUSIVE MODE`;
+
+    const opened = await client.sql`
+      INSERT INTO xp_events (user_id, source, amount)
+      SELECT u.id, 'legacy', u.xp - COALESCE(sum(e.amount), 0)
+      FROM users u
+      LEFT JOIN xp_events e ON e.user_id = u.id
+      GROUP BY u.id, u.xp
+      HAVING u.xp <> COALESCE(sum(e.amount), 0)
+      RETURNING user_id, amount
+    `;
+
+    for (const row of opened.rows) {
+      console.log(`  ${row.user_id}: ${row.amount} legacy XP`);
+    }
+    console.log(`Opened the XP ledger for ${opened.rows.length} players.`);
+
+    await client.sql`COMMIT`;
+  } catch (error) {
+    await client.sql`ROLLBACK`;
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+backfill()
+  .then(() => {
+    console.log("Backfill script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Backfill script failed:", error);
+    process.exit(1);
+  });
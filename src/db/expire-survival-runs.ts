@@ -0,0 +1,27 @@
+import "dotenv/config";
+import { expireSurvivalRuns } from "../lib/survival";
+
+// ── Survival Run Expiry Script ──────────────────────────────────────────────
+// Ends every abandoned Survival run: runs left unfinished for longer than
+// SURVIVAL_RUN_TTL_MS keep the score they reached and count toward the
+// Survival leaderboard (see src/lib/survival.ts). Run it from a local cron,
+// e.g. hourly:
+//   0 * * * * cd /path/to/app && npm run db:expire-survival-runs
+//
+// Safe to run at any time: only idle, unfinished runs are touched.
+
+async function run() {
+  const expired = await expireSurvivalRuns();
+  console.log(`Expired ${expired} Survival runs.`);
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+run()
+  .then(() => {
+    console.log("Expiry script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Expiry script failed:", error);
+    process.exit(1);
+  });
@@ -1,6 +1,15 @@
 import { drizzle } from "drizzle-orm/vercel-postgres";
-import { sql } from "@vercel/postgres";
+import { createPool } from "@vercel/postgres";
 import * as schema from "./schema";
 
-// Drizzle client configured for Vercel's serverless Postgres pool
-export const db = drizzle(sql, { schema });
+// Drizzle client configured for Vercel's serverless Postgres pool. Built on
+// a real VercelPool (not the lazy `sql` proxy) so that db.transaction checks
+// out one connection and runs BEGIN, every query and COMMIT on it.
+export const db = drizzle(createPool(), { schema });
+
+// Anything that can run queries: the db itself or a transaction from
+// db.transaction
+export type DbExecutor = Pick<
+  typeof db,
+  "select" | "selectDistinct" | "insert" | "update" | "delete" | "execute"
+>;
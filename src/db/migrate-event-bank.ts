@@ -0,0 +1,131 @@
+import "dotenv/config";
+import { db } from "@vercel/postgres";
+
+// ── Event Bank Migration ────────────────────────────────────────────────────
+// Moves events out of the legacy per-puzzle `puzzle_events` table (one row
+// per event per puzzle, with text/date/sort_date/url columns) into the shared
+// `events` bank, and rebuilds `puzzle_events` as a join table of
+// (puzzle_id, event_id, order_index).
+//
+// Legacy rows with the same text and sort date are the same event retyped
+// for several puzzles; they are merged into one bank event tagged with the
+// categories of every puzzle that used it. The surviving bank event keeps
+// the legacy row id, so ids held by clients stay valid for unmerged events.
+//
+// Run this BEFORE `drizzle-kit push` so the legacy columns still exist:
+//   npm run db:migrate-event-bank
+//
+// Everything runs in one transaction on a single connection. The script is
+// idempotent: if `puzzle_events` already has an `event_id` column it exits
+// without changes.
+
+async function migrate() {
+  const client = await db.connect();
+
+  try {
+    const migrated = await client.sql`
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'puzzle_events' AND column_name = 'event_id'
+    `;
+    if (migrated.rows.length > 0) {
+      console.log("puzzle_events is already a join table — nothing to do.");
+      return;
+    }
+
+    await client.sql`BEGIN`;
+
+    // ── Create the bank ─────────────────────────────────────────────────
+    await client.sql`
+      CREATE TABLE IF NOT EXISTS events (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        text text NOT NULL,
+        date varchar(50) NOT NULL,
+        sort_date timestamp NOT NULL,
+        url varchar(2048),
+        tags text[] NOT NULL DEFAULT '{}',
+        created_at timestamp NOT NULL DEFAULT now()
+      )
+    `;
+
+    // ── Map every legacy row to its bank event ──────────────────────────
+    // The canonical row of each (text, sort_date) group is the one with the
+    // lowest id
+    await client.sql`
+      CREATE TEMP TABLE legacy_event_map ON COMMIT DROP AS
+      SELECT
+        pe.id AS legacy_id,
+        pe.puzzle_id,
+        pe.order_index,
+        first_value(pe.id) OVER (
+          PARTITION BY pe.text, pe.sort_date ORDER BY pe.id
+        ) AS event_id
+      FROM puzzle_events pe
+    `;
+
+    // ── Copy canonical rows into the bank ───────────────────────────────
+    const inserted = await client.sql`
+      INSERT INTO events (id, text, date, sort_date, url, tags)
+      SELECT
+        pe.id,
+        pe.text,
+        pe.date,
+        pe.sort_date,
+        pe.url,
+        ARRAY(
+          SELECT DISTINCT p.category
+          FROM legacy_event_map m
+          JOIN puzzles p ON p.id = m.puzzle_id
+          WHERE m.event_id = pe.id
+        )
+      FROM puzzle_events pe
+      WHERE pe.id IN (SELECT DISTINCT event_id FROM legacy_event_map)
+    `;
+    console.log(`Created ${inserted.rowCount} bank events.`);
+
+    // ── Rebuild puzzle_events as a join table ───────────────────────────
+    // Constraint names follow drizzle-kit's conventions so a later
+    // `drizzle-kit push` sees no difference
+    await client.sql`DROP TABLE puzzle_events`;
+    await client.sql`
+      CREATE TABLE puzzle_events (
+        puzzle_id uuid NOT NULL
+          CONSTRAINT puzzle_events_puzzle_id_puzzles_id_fk
+          REFERENCES puzzles(id) ON DELETE CASCADE,
+        event_id uuid NOT NULL
+          CONSTRAINT puzzle_events_event_id_events_id_fk
+          REFERENCES events(id),
+        order_index integer NOT NULL,
+        CONSTRAINT puzzle_events_puzzle_id_event_id_pk
+          PRIMARY KEY (puzzle_id, event_id)
+      )
+    `;
+
+    // A puzzle that listed the same event twice keeps its first position
+    const linked = await client.sql`
+      INSERT INTO puzzle_events (puzzle_id, event_id, order_index)
+      SELECT DISTINCT ON (puzzle_id, event_id) puzzle_id, event_id, order_index
+      FROM legacy_event_map
+      ORDER BY puzzle_id, event_id, order_index
+    `;
+    console.log(`Linked ${linked.rowCount} puzzle events.`);
+
+    await client.sql`COMMIT`;
+    console.log("Event bank migration complete.");
+  } catch (error) {
+    await client.sql`ROLLBACK`;
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+migrate()
+  .then(() => {
+    console.log("Migration script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Migration script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,112 @@
+import "dotenv/config";
+import { db } from "@vercel/postgres";
+
+// ── Event Date Migration ────────────────────────────────────────────────────
+// Replaces the free-text `date` and timestamp `sort_date` columns of the
+// `events` bank with structured dates: an astronomical `year`, optional
+// `month` and `day`, a `precision` and a `circa` flag (see
+// src/lib/event-dates.ts).
+//
+// Year, month and day are taken from `sort_date`. The precision and circa
+// flag are inferred from how the old display text was written:
+//   "c. 1200 BC" → circa, year     "1990s"         → decade
+//   "2020"       → year            "20th century"  → century
+//   "March 2024" → month           anything else   → day
+// Review events whose inferred precision looks wrong in the admin UI.
+//
+// Run this after `npm run db:migrate-event-bank` and BEFORE `drizzle-kit
+// push`, so the old columns still exist:
+//   npm run db:migrate-event-dates
+//
+// Everything runs in one transaction on a single connection. The script is
+// idempotent: if `events` already has a `year` column it exits without
+// changes.
+
+async function migrate() {
+  const client = await db.connect();
+
+  try {
+    const migrated = await client.sql`
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'events' AND column_name = 'year'
+    `;
+    if (migrated.rows.length > 0) {
+      console.log("events already has structured dates — nothing to do.");
+      return;
+    }
+
+    await client.sql`BEGIN`;
+
+    // ── Add the structured columns ──────────────────────────────────────
+    await client.sql`
+      ALTER TABLE events
+        ADD COLUMN year integer,
+        ADD COLUMN month integer,
+        ADD COLUMN day integer,
+        ADD COLUMN precision varchar(10) NOT NULL DEFAULT 'day',
+        ADD COLUMN circa boolean NOT NULL DEFAULT false
+    `;
+
+    // ── Infer precision and circa from the display text ─────────────────
+    await client.sql`
+      UPDATE events SET
+        circa = date ~* '^[[:space:]]*(c[.]|ca[.]|circa)',
+        precision = CASE
+          WHEN date ~* 'century' THEN 'century'
+          WHEN date ~* '[0-9]+s([[:space:]]*(BC|BCE))?[[:space:]]*$' THEN 'decade'
+          WHEN date ~* '^[[:space:]]*(c[.]|ca[.]|circa)?[[:space:]]*[0-9]+([[:space:]]*(BC|BCE|AD|CE))?[[:space:]]*$' THEN 'year'
+          WHEN date ~* '^[[:space:]]*(c[.]|ca[.]|circa)?[[:space:]]*[a-z]+[.]?[[:space:]]+[0-9]+([[:space:]]*(BC|BCE|AD|CE))?[[:space:]]*$' THEN 'month'
+          ELSE 'day'
+        END
+    `;
+
+    // ── Copy the date parts from sort_date ──────────────────────────────
+    // Postgres has no year zero (1 BC is year -1), astronomical years do
+    await client.sql`
+      UPDATE events SET
+        year = CASE
+          WHEN EXTRACT(YEAR FROM sort_date) < 0
+            THEN EXTRACT(YEAR FROM sort_date)::integer + 1
+          ELSE EXTRACT(YEAR FROM sort_date)::integer
+        END,
+        month = CASE
+          WHEN precision IN ('day', 'month')
+            THEN EXTRACT(MONTH FROM sort_date)::integer
+        END,
+        day = CASE
+          WHEN precision = 'day' THEN EXTRACT(DAY FROM sort_date)::integer
+        END
+    `;
+
+    // ── Drop the old columns ────────────────────────────────────────────
+    await client.sql`ALTER TABLE events ALTER COLUMN year SET NOT NULL`;
+    await client.sql`ALTER TABLE events DROP COLUMN date, DROP COLUMN sort_date`;
+
+    const counts = await client.sql`
+      SELECT precision, count(*)::integer AS count
+      FROM events GROUP BY precision ORDER BY precision
+    `;
+    for (const row of counts.rows) {
+      console.log(`  ${row.precision}: ${row.count} events`);
+    }
+
+    await client.sql`COMMIT`;
+    console.log("Event date migration complete.");
+  } catch (error) {
+    await client.sql`ROLLBACK`;
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+migrate()
+  .then(() => {
+    console.log("Migration script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Migration script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,73 @@
+import "dotenv/config";
+import { db } from "@vercel/postgres";
+
+// ── Unique Daily Date Migration ─────────────────────────────────────────────
+// Prepares `puzzles` for the partial unique index on `daily_date` (see
+// src/db/schema.ts). Where several daily puzzles share a date, the oldest
+// keeps it and the others stop being dailies; each demoted puzzle is logged
+// so it can be queued again from the admin page.
+//
+// Run this BEFORE `drizzle-kit push`, which would fail to create the index
+// while duplicates exist:
+//   npm run db:migrate-unique-dailies
+//
+// Everything runs in one transaction on a single connection. The script is
+// idempotent: if the index already exists it exits without changes, and a
+// second run before the push finds no duplicates.
+
+async function migrate() {
+  const client = await db.connect();
+
+  try {
+    const migrated = await client.sql`
+      SELECT 1 FROM pg_indexes
+      WHERE tablename = 'puzzles' AND indexname = 'puzzles_daily_date_unique'
+    `;
+    if (migrated.rows.length > 0) {
+      console.log("puzzles already has a unique daily date — nothing to do.");
+      return;
+    }
+
+    await client.sql`BEGIN`;
+
+    // ── Demote all but the oldest daily on each date ────────────────────
+    const demoted = await client.sql`
+      UPDATE puzzles SET is_daily = false, daily_date = NULL
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT id, row_number() OVER (
+            PARTITION BY daily_date ORDER BY created_at, id
+          ) AS rank
+          FROM puzzles
+          WHERE is_daily = true AND daily_date IS NOT NULL
+        ) ranked
+        WHERE rank > 1
+      )
+      RETURNING id, title
+    `;
+
+    for (const row of demoted.rows) {
+      console.log(`  Demoted "${row.title}" (${row.id})`);
+    }
+    console.log(`Demoted ${demoted.rows.length} duplicate dailies.`);
+
+    await client.sql`COMMIT`;
+    console.log("Unique daily date migration complete.");
+  } catch (error) {
+    await client.sql`ROLLBACK`;
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+migrate()
+  .then(() => {
+    console.log("Migration script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Migration script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,28 @@
+import "dotenv/config";
+import { refreshAchievementRarity } from "../lib/achievements";
+
+// ── Achievement Rarity Refresh ──────────────────────────────────────────────
+// Recomputes the share of active players who have unlocked each achievement
+// (see src/lib/achievements.ts). GET /api/achievements refreshes it lazily
+// once it is stale; running this from a local cron keeps requests from ever
+// paying for it, e.g. every half hour:
+//   */30 * * * * cd /path/to/app && npm run db:refresh-achievement-rarity
+//
+// Safe to run at any time: refreshes hold an advisory lock, so this never
+// races a lazy refresh.
+
+async function run() {
+  await refreshAchievementRarity();
+  console.log("Refreshed achievement rarity.");
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+run()
+  .then(() => {
+    console.log("Rarity script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Rarity script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,45 @@
+import "dotenv/config";
+import { DAILY_SCHEDULE_HORIZON_DAYS } from "../lib/constants";
+import { scheduleDailies } from "../lib/daily-scheduler";
+import { DEFAULT_TIME_ZONE, localDate } from "../lib/time-zones";
+
+// ── Daily Scheduler Script ──────────────────────────────────────────────────
+// Fills every date without a daily challenge over the next
+// DAILY_SCHEDULE_HORIZON_DAYS days (from today in UTC), first from the admin
+// daily queue and then from the unscheduled pool (see
+// src/lib/daily-scheduler.ts). Meant to run from a local cron, e.g. daily:
+//   0 0 * * * cd /path/to/app && npm run db:schedule-dailies
+//
+// Safe to run at any time: dates that already have a daily are left alone,
+// and the scheduler's advisory lock keeps it from racing the lazy
+// scheduling in GET /api/puzzles/today.
+
+async function run() {
+  const from = localDate(DEFAULT_TIME_ZONE);
+  const { assignments, gaps } = await scheduleDailies(
+    from,
+    DAILY_SCHEDULE_HORIZON_DAYS
+  );
+
+  for (const a of assignments) {
+    console.log(`  ${a.date}: "${a.title}" (${a.category}, from ${a.source})`);
+  }
+  console.log(`Scheduled ${assignments.length} dailies from ${from}.`);
+
+  if (gaps.length > 0) {
+    console.warn(
+      `No eligible puzzle for ${gaps.length} dates: ${gaps.join(", ")}`
+    );
+  }
+}
+
+// ── Execute ─────────────────────────────────────────────────────────────────
+run()
+  .then(() => {
+    console.log("Schedule script finished successfully.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Schedule script failed:", error);
+    process.exit(1);
+  });
@@ -3,69 +3,269 @@ import {
   uuid,
   varchar,
   integer,
+  bigint,
   boolean,
+  real,
   timestamp,
   date,
   text,
+  jsonb,
   primaryKey,
+  index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { DATE_PRECISIONS } from "../lib/event-dates";
+import type { AchievementRule } from "../lib/achievement-rules";
+import type { GameMode } from "../types";
 
-// Authenticated users identified by wallet address
+// Authenticated users identified by wallet address. `timeZone` is the IANA
+// zone reported by the browser at the first sign-in; it decides when the
+// daily challenge rolls over for the player (see src/lib/time-zones.ts).
 export const users = pgTable("users", {
   id: uuid("id").defaultRandom().primaryKey(),
   walletAddress: varchar("wallet_address", { length: 42 }).notNull().unique(),
   ensName: varchar("ens_name", { length: 255 }),
   xp: integer("xp").notNull().default(0),
+  timeZone: varchar("time_zone", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastPlayedAt: timestamp("last_played_at"),
 });
 
-// A puzzle is a set of events to be sorted chronologically
-export const puzzles = pgTable("puzzles", {
-  id: uuid("id").defaultRandom().primaryKey(),
-  title: varchar("title", { length: 255 }).notNull(),
-  category: varchar("category", { length: 255 }).notNull(),
-  isDaily: boolean("is_daily").notNull().default(false),
-  dailyDate: date("daily_date"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+// A puzzle is a set of events to be sorted chronologically. At most one
+// daily puzzle may hold each `dailyDate`, enforced by a partial unique index.
+export const puzzles = pgTable(
+  "puzzles",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    title: varchar("title", { length: 255 }).notNull(),
+    category: varchar("category", { length: 255 }).notNull(),
+    isDaily: boolean("is_daily").notNull().default(false),
+    dailyDate: date("daily_date"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("puzzles_daily_date_unique")
+      .on(table.dailyDate)
+      .where(sql`${table.isDaily} = true`),
+  ]
+);
 
-// Individual events within a puzzle, each with a correct chronological position
-export const puzzleEvents = pgTable("puzzle_events", {
-  id: uuid("id").defaultRandom().primaryKey(),
+// Admin-curated queue of puzzles waiting to become a daily challenge. The
+// daily scheduler (see src/lib/daily-scheduler.ts) fills dates
+// without a daily from the front of the queue, lowest `position` first, and
+// removes each puzzle once it is scheduled.
+export const dailyQueue = pgTable("daily_queue", {
   puzzleId: uuid("puzzle_id")
-    .notNull()
+    .primaryKey()
     .references(() => puzzles.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+});
+
+// Shared bank of historical events. An event is written once and can be
+// used by any number of puzzles (see puzzleEvents) as well as the modes that
+// draw from the whole bank, like Survival. `tags` are free-form category
+// labels used to search the bank.
+//
+// Dates are structured (see src/lib/event-dates.ts): `year` is astronomical
+// (0 is 1 BC, negative years are BC), `month` and `day` are set only when the
+// `precision` includes them, and `circa` marks approximate dates. The
+// display string is derived with formatEventDate.
+export const events = pgTable("events", {
+  id: uuid("id").defaultRandom().primaryKey(),
   text: text("text").notNull(),
-  date: varchar("date", { length: 50 }).notNull(),
-  sortDate: timestamp("sort_date").notNull(),
+  year: integer("year").notNull(),
+  month: integer("month"),
+  day: integer("day"),
+  precision: varchar("precision", { length: 10, enum: DATE_PRECISIONS })
+    .notNull()
+    .default("day"),
+  circa: boolean("circa").notNull().default(false),
   url: varchar("url", { length: 2048 }),
-  orderIndex: integer("order_index").notNull(),
+  tags: text("tags").array().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Links bank events to puzzles. `orderIndex` is the event's correct
+// chronological position within that puzzle, derived from the events'
+// dates. Events whose dates overlap at their precision must be marked with
+// the same `tieGroup` (a label unique within the puzzle); they may be placed
+// in any order among themselves.
+export const puzzleEvents = pgTable(
+  "puzzle_events",
+  {
+    puzzleId: uuid("puzzle_id")
+      .notNull()
+      .references(() => puzzles.id, { onDelete: "cascade" }),
+    eventId: uuid("event_id")
+      .notNull()
+      .references(() => events.id),
+    orderIndex: integer("order_index").notNull(),
+    tieGroup: integer("tie_group"),
+  },
+  (table) => [primaryKey({ columns: [table.puzzleId, table.eventId] })]
+);
+
 // Record of each game played by an authenticated user
-export const gameResults = pgTable("game_results", {
-  id: uuid("id").defaultRandom().primaryKey(),
+export const gameResults = pgTable(
+  "game_results",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    puzzleId: uuid("puzzle_id")
+      .notNull()
+      .references(() => puzzles.id, { onDelete: "cascade" }),
+    // Game mode the result was played in: "classic" (sorting) or "pinpoint"
+    // (guessing dates). Score units differ per mode; see `maxScore`.
+    mode: varchar("mode", { length: 20 })
+      .$type<GameMode>()
+      .notNull()
+      .default("classic"),
+    won: boolean("won").notNull(),
+    score: integer("score").notNull(),
+    // Maximum attainable score under the scoring strategy used for this game.
+    // Defaults to 5 for rows scored before partial credit (exact positions of
+    // a five-event puzzle).
+    maxScore: integer("max_score").notNull().default(5),
+    hintsUsed: integer("hints_used").notNull().default(0),
+    solveTimeMs: integer("solve_time_ms").notNull(),
+    // 1 for the player's first play of the puzzle in this mode, 2 for their
+    // first retry, and so on. Migrated guest games are numbered apart from
+    // verified ones. Per-puzzle stats count first attempts only (see
+    // src/lib/puzzle-stats.ts).
+    attemptNumber: integer("attempt_number").notNull().default(1),
+    // True for guest games imported from the client's localStorage by
+    // POST /api/game/migrate. Their figures are unverified, so per-puzzle
+    // stats leave them out.
+    migrated: boolean("migrated").notNull().default(false),
+    playedAt: timestamp("played_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("game_results_puzzle_mode_idx").on(table.puzzleId, table.mode),
+  ]
+);
+
+// Append-only ledger of XP awards, one row per award (see
+// src/lib/xp-ledger.ts). `users.xp` caches the sum of a player's rows.
+// `source` is an XpSource such as "win", "streak" or "achievement:first_win";
+// `gameResultId` links awards to the game that earned them and `reason`
+// holds the achievement title or an admin's note. Corrections are new rows,
+// never edits. Indexed by time for the seasonal leaderboards (see
+// src/lib/seasons.ts).
+export const xpEvents = pgTable(
+  "xp_events",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    source: varchar("source", { length: 64 }).notNull(),
+    amount: integer("amount").notNull(),
+    gameResultId: uuid("game_result_id").references(() => gameResults.id, {
+      onDelete: "set null",
+    }),
+    reason: varchar("reason", { length: 255 }),
+    // Wallet of the admin who issued an "admin" correction
+    createdBy: varchar("created_by", { length: 42 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("xp_events_created_at_idx").on(table.createdAt)]
+);
+
+// Per-player totals, kept up to date by each recorded game (see
+// src/lib/player-stats.ts) so stats and leaderboards never rescan
+// game_results. Solve time totals cover winning games only.
+// `npm run db:backfill-player-stats` rebuilds every row from game_results.
+export const playerStats = pgTable("player_stats", {
   userId: uuid("user_id")
-    .notNull()
+    .primaryKey()
     .references(() => users.id, { onDelete: "cascade" }),
+  gamesPlayed: integer("games_played").notNull().default(0),
+  wins: integer("wins").notNull().default(0),
+  currentStreak: integer("current_streak").notNull().default(0),
+  bestStreak: integer("best_streak").notNull().default(0),
+  perfectWins: integer("perfect_wins").notNull().default(0),
+  dailiesCompleted: integer("dailies_completed").notNull().default(0),
+  fastestSolveTimeMs: integer("fastest_solve_time_ms"),
+  totalSolveTimeMs: bigint("total_solve_time_ms", { mode: "number" })
+    .notNull()
+    .default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Server-issued play session, started whenever a puzzle is served. The server
+// owns the start timestamp and the hints consumed, so the submit route can
+// compute solve time and hint count itself instead of trusting the client.
+// `completedAt` is set exactly once when the session is submitted, which
+// rejects replays; `expiresAt` bounds how long a session may stay open.
+// `idempotencyKey` and `response` are stored with the submission so that a
+// retried submit with the same key gets the original response back.
+export const gameSessions = pgTable("game_sessions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
   puzzleId: uuid("puzzle_id")
     .notNull()
     .references(() => puzzles.id, { onDelete: "cascade" }),
-  won: boolean("won").notNull(),
-  score: integer("score").notNull(),
-  hintsUsed: integer("hints_used").notNull().default(0),
-  solveTimeMs: integer("solve_time_ms").notNull(),
-  playedAt: timestamp("played_at").defaultNow().notNull(),
+  mode: varchar("mode", { length: 20 }).notNull().default("classic"),
+  shuffle: text("shuffle").array().notNull(),
+  hintedEventIds: text("hinted_event_ids").array().notNull().default([]),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  idempotencyKey: varchar("idempotency_key", { length: 64 }),
+  response: jsonb("response"),
 });
 
-// Achievement definitions — seeded on deploy, not user-created
+// One run of Survival mode. Events are dealt one at a time from the event
+// bank; the player inserts each into `timeline` (event ids in
+// chronological order) until the first misplacement ends the run.
+// `pendingEventId` is the dealt event awaiting placement and is null once the
+// run has ended. `score` is the timeline length. `lastPlayedAt` is when the
+// run started or last had a card placed; a run left idle for longer than
+// SURVIVAL_RUN_TTL_MS expires (see src/lib/survival.ts).
+export const survivalRuns = pgTable(
+  "survival_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    token: varchar("token", { length: 64 }).notNull().unique(),
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    timeline: text("timeline").array().notNull(),
+    pendingEventId: uuid("pending_event_id"),
+    score: integer("score").notNull().default(1),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    lastPlayedAt: timestamp("last_played_at").defaultNow().notNull(),
+    endedAt: timestamp("ended_at"),
+  },
+  (table) => [
+    index("survival_runs_user_score_idx").on(table.userId, table.score),
+  ]
+);
+
+// Achievement definitions — the built-in catalog is seeded on deploy and
+// admins may add more. `rule` is the typed unlock condition evaluated after
+// every game (see src/lib/achievement-rules.ts); an achievement without a
+// rule is never unlocked automatically. A `hidden` achievement is a secret:
+// players see its description only once they have unlocked it.
+// `unlockPercent` caches the achievement's rarity, refreshed periodically
+// rather than per request (see refreshAchievementRarity in
+// src/lib/achievements.ts); both rarity columns are null until the first
+// refresh.
 export const achievements = pgTable("achievements", {
   id: varchar("id", { length: 50 }).primaryKey(),
   title: varchar("title", { length: 100 }).notNull(),
   description: varchar("description", { length: 255 }).notNull(),
   icon: varchar("icon", { length: 10 }).notNull(),
   xpReward: integer("xp_reward").notNull(),
+  rule: jsonb("rule").$type<AchievementRule>(),
+  hidden: boolean("hidden").notNull().default(false),
+  unlockPercent: real("unlock_percent"),
+  rarityUpdatedAt: timestamp("rarity_updated_at"),
 });
 
 // Join table tracking which achievements each user has unlocked
@@ -84,3 +284,34 @@ export const userAchievements = pgTable(
     primaryKey({ columns: [table.userId, table.achievementId] }),
   ]
 );
+
+// Seasons: named leaderboard windows created by admins (see
+// src/lib/seasons.ts). A season covers [startsAt, endsAt); seasons may not
+// overlap. `archivedAt` is set once the final standings of an ended season
+// have been written to season_standings.
+export const seasons = pgTable("seasons", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Final standings of an ended season: every player who earned XP in it,
+// with their rank and the XP they earned. Never changes once written, so
+// later corrections to the XP ledger do not rewrite past results.
+export const seasonStandings = pgTable(
+  "season_standings",
+  {
+    seasonId: uuid("season_id")
+      .notNull()
+      .references(() => seasons.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    rank: integer("rank").notNull(),
+    xp: integer("xp").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.seasonId, table.userId] })]
+);
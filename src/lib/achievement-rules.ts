@@ -0,0 +1,450 @@
+import { SPEED_DEMON_THRESHOLD_MS } from "./constants";
+import type { AchievementProgress, GameMode } from "@/types";
+
+// ── Achievement Rules ───────────────────────────────────────────────────────
+// Every achievement unlocks when its rule holds: a metric, compared with a
+// threshold, within a scope:
+//   game     — the game just played (hints used, solve time) in one game
+//              mode, classic unless the rule names another; with
+//              `requiresWin` the game must also be a win. Only first
+//              attempts count: a retry is played knowing the answer.
+//   lifetime — the player's running totals from player_stats
+//   daily    — daily challenges: how many were completed and the current
+//              run of consecutive days
+//   category — the player's games in one puzzle category, checked when a
+//              game in that category is recorded
+// Rules are stored with each achievement in the achievements table, so
+// admins can add threshold-style achievements without code changes. The
+// built-in catalog below is the seed for that table (see src/db/seed.ts).
+
+export const ACHIEVEMENT_COMPARATORS = [">=", ">", "<=", "<", "="] as const;
+export type AchievementComparator = (typeof ACHIEVEMENT_COMPARATORS)[number];
+
+// The metrics each scope can measure
+export const ACHIEVEMENT_METRICS = {
+  game: ["hintsUsed", "solveTimeMs"],
+  lifetime: ["gamesPlayed", "wins", "perfectWins", "winStreak"],
+  daily: ["completed", "streak"],
+  category: ["gamesPlayed", "wins"],
+} as const;
+export type AchievementScope = keyof typeof ACHIEVEMENT_METRICS;
+
+interface RuleBase {
+  comparator: AchievementComparator;
+  threshold: number;
+}
+
+export type AchievementRule =
+  | (RuleBase & {
+      scope: "game";
+      metric: (typeof ACHIEVEMENT_METRICS.game)[number];
+      requiresWin: boolean;
+      // Rules stored before modes were told apart have none: classic
+      mode?: GameMode;
+    })
+  | (RuleBase & {
+      scope: "lifetime";
+      metric: (typeof ACHIEVEMENT_METRICS.lifetime)[number];
+    })
+  | (RuleBase & {
+      scope: "daily";
+      metric: (typeof ACHIEVEMENT_METRICS.daily)[number];
+    })
+  | (RuleBase & {
+      scope: "category";
+      metric: (typeof ACHIEVEMENT_METRICS.category)[number];
+      category: string;
+    });
+
+// An achievement together with the rule that unlocks it. Hidden
+// achievements keep their description secret until unlocked.
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  xpReward: number;
+  rule: AchievementRule;
+  hidden?: boolean;
+}
+
+// ── Built-in catalog ────────────────────────────────────────────────────────
+export const DEFAULT_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first_win",
+    title: "First Victory",
+    description: "Win your first game",
+    icon: "🏆",
+    xpReward: 50,
+    rule: { scope: "lifetime", metric: "wins", comparator: ">=", threshold: 1 },
+  },
+  {
+    id: "streak_3",
+    title: "On a Roll",
+    description: "Win 3 games in a row",
+    icon: "🔥",
+    xpReward: 100,
+    rule: {
+      scope: "lifetime",
+      metric: "winStreak",
+      comparator: ">=",
+      threshold: 3,
+    },
+  },
+  {
+    id: "streak_7",
+    title: "Unstoppable",
+    description: "Win 7 games in a row",
+    icon: "⚡",
+    xpReward: 250,
+    rule: {
+      scope: "lifetime",
+      metric: "winStreak",
+      comparator: ">=",
+      threshold: 7,
+    },
+  },
+  {
+    id: "streak_15",
+    title: "Legendary Streak",
+    description: "Win 15 games in a row",
+    icon: "👑",
+    xpReward: 500,
+    rule: {
+      scope: "lifetime",
+      metric: "winStreak",
+      comparator: ">=",
+      threshold: 15,
+    },
+  },
+  {
+    id: "no_hints",
+    title: "No Help Needed",
+    description: "Win a classic game without using any hints",
+    icon: "🧠",
+    xpReward: 75,
+    rule: {
+      scope: "game",
+      metric: "hintsUsed",
+      comparator: "=",
+      threshold: 0,
+      requiresWin: true,
+      mode: "classic",
+    },
+  },
+  {
+    id: "speed_demon",
+    title: "Speed Demon",
+    description: "Win a classic game in under 15 seconds",
+    icon: "⏱️",
+    xpReward: 150,
+    rule: {
+      scope: "game",
+      metric: "solveTimeMs",
+      comparator: "<",
+      threshold: SPEED_DEMON_THRESHOLD_MS,
+      requiresWin: true,
+      mode: "classic",
+    },
+  },
+  {
+    id: "daily_5",
+    title: "Daily Devotee",
+    description: "Complete 5 daily challenges",
+    icon: "📅",
+    xpReward: 200,
+    rule: { scope: "daily", metric: "completed", comparator: ">=", threshold: 5 },
+  },
+  {
+    id: "daily_30",
+    title: "Monthly Master",
+    description: "Complete 30 daily challenges",
+    icon: "🗓️",
+    xpReward: 500,
+    rule: {
+      scope: "daily",
+      metric: "completed",
+      comparator: ">=",
+      threshold: 30,
+    },
+  },
+  {
+    id: "games_50",
+    title: "Veteran",
+    description: "Play 50 total games",
+    icon: "🎮",
+    xpReward: 300,
+    rule: {
+      scope: "lifetime",
+      metric: "gamesPlayed",
+      comparator: ">=",
+      threshold: 50,
+    },
+  },
+  {
+    id: "perfect_10",
+    title: "Perfectionist",
+    description: "Win 10 classic games with a perfect score (no hints)",
+    icon: "💎",
+    xpReward: 400,
+    rule: {
+      scope: "lifetime",
+      metric: "perfectWins",
+      comparator: ">=",
+      threshold: 10,
+    },
+  },
+  {
+    id: "leviathan_10",
+    title: "News Hound",
+    description: "Win 10 Leviathan News puzzles",
+    icon: "📰",
+    xpReward: 200,
+    rule: {
+      scope: "category",
+      metric: "wins",
+      comparator: ">=",
+      threshold: 10,
+      category: "Leviathan News",
+    },
+  },
+];
+
+// ── Evaluation ──────────────────────────────────────────────────────────────
+
+// The measurements rules are evaluated against. The daily and category
+// facts cost extra queries, so they are only present when a pending rule
+// needs them.
+export interface AchievementFacts {
+  game: {
+    mode: GameMode;
+    attemptNumber: number;
+    won: boolean;
+    hintsUsed: number;
+    solveTimeMs: number;
+  };
+  lifetime: {
+    gamesPlayed: number;
+    wins: number;
+    perfectWins: number;
+    winStreak: number;
+  };
+  daily?: { completed: number; streak: number };
+  // Totals in the category of the game just played
+  category?: { name: string; gamesPlayed: number; wins: number };
+}
+
+function compare(
+  value: number,
+  comparator: AchievementComparator,
+  threshold: number
+): boolean {
+  switch (comparator) {
+    case ">=":
+      return value >= threshold;
+    case ">":
+      return value > threshold;
+    case "<=":
+      return value <= threshold;
+    case "<":
+      return value < threshold;
+    case "=":
+      return value === threshold;
+  }
+}
+
+// Whether a rule holds for the given facts. Rules whose facts are missing,
+// and category rules for another category, do not hold.
+export function ruleHolds(
+  rule: AchievementRule,
+  facts: AchievementFacts
+): boolean {
+  switch (rule.scope) {
+    case "game":
+      if ((rule.mode ?? "classic") !== facts.game.mode) return false;
+      if (facts.game.attemptNumber !== 1) return false;
+      if (rule.requiresWin && !facts.game.won) return false;
+      return compare(facts.game[rule.metric], rule.comparator, rule.threshold);
+    case "lifetime":
+      return compare(
+        facts.lifetime[rule.metric],
+        rule.comparator,
+        rule.threshold
+      );
+    case "daily":
+      if (!facts.daily) return false;
+      return compare(facts.daily[rule.metric], rule.comparator, rule.threshold);
+    case "category":
+      if (!facts.category || facts.category.name !== rule.category) {
+        return false;
+      }
+      return compare(
+        facts.category[rule.metric],
+        rule.comparator,
+        rule.threshold
+      );
+  }
+}
+
+// How far the player is toward a rule's threshold. Only rules that count up
+// to a target have progress: lifetime, daily and category rules compared
+// with >= or >. Per-game rules, and rules that must stay under a limit,
+// return null, as do rules whose facts are missing.
+export function ruleProgress(
+  rule: AchievementRule,
+  facts: Omit<AchievementFacts, "game">
+): AchievementProgress | null {
+  if (rule.comparator !== ">=" && rule.comparator !== ">") return null;
+  const target = rule.comparator === ">" ? rule.threshold + 1 : rule.threshold;
+
+  let current: number;
+  switch (rule.scope) {
+    case "game":
+      return null;
+    case "lifetime":
+      current = facts.lifetime[rule.metric];
+      break;
+    case "daily":
+      if (!facts.daily) return null;
+      current = facts.daily[rule.metric];
+      break;
+    case "category":
+      if (!facts.category || facts.category.name !== rule.category) {
+        return null;
+      }
+      current = facts.category[rule.metric];
+      break;
+  }
+  return { current: Math.min(current, target), target };
+}
+
+// ── Validation ──────────────────────────────────────────────────────────────
+
+// Validates a rule from an admin request. Returns the rule, or an error
+// message describing the first problem found.
+export function parseAchievementRule(
+  value: unknown
+): { rule: AchievementRule } | { error: string } {
+  if (!value || typeof value !== "object") {
+    return { error: "rule must be an object" };
+  }
+  const { scope, metric, comparator, threshold, requiresWin, mode, category } =
+    value as Record<string, unknown>;
+
+  if (typeof scope !== "string" || !(scope in ACHIEVEMENT_METRICS)) {
+    return {
+      error: `rule.scope must be one of ${Object.keys(ACHIEVEMENT_METRICS).join(", ")}`,
+    };
+  }
+  const metrics: readonly string[] =
+    ACHIEVEMENT_METRICS[scope as AchievementScope];
+  if (typeof metric !== "string" || !metrics.includes(metric)) {
+    return {
+      error: `rule.metric for the ${scope} scope must be one of ${metrics.join(", ")}`,
+    };
+  }
+  if (
+    typeof comparator !== "string" ||
+    !(ACHIEVEMENT_COMPARATORS as readonly string[]).includes(comparator)
+  ) {
+    return {
+      error: `rule.comparator must be one of ${ACHIEVEMENT_COMPARATORS.join(" ")}`,
+    };
+  }
+  if (!Number.isInteger(threshold) || (threshold as number) < 0) {
+    return { error: "rule.threshold must be a whole number of at least 0" };
+  }
+
+  const base = { comparator, threshold } as RuleBase;
+  switch (scope as AchievementScope) {
+    case "game":
+      if (mode !== undefined && mode !== "classic" && mode !== "pinpoint") {
+        return { error: "rule.mode must be classic or pinpoint" };
+      }
+      return {
+        rule: {
+          ...base,
+          scope: "game",
+          metric: metric as (typeof ACHIEVEMENT_METRICS.game)[number],
+          requiresWin: requiresWin === true,
+          mode: mode ?? "classic",
+        },
+      };
+    case "lifetime":
+      return {
+        rule: {
+          ...base,
+          scope: "lifetime",
+          metric: metric as (typeof ACHIEVEMENT_METRICS.lifetime)[number],
+        },
+      };
+    case "daily":
+      return {
+        rule: {
+          ...base,
+          scope: "daily",
+          metric: metric as (typeof ACHIEVEMENT_METRICS.daily)[number],
+        },
+      };
+    case "category":
+      if (typeof category !== "string" || category.trim() === "") {
+        return { error: "rule.category is required for the category scope" };
+      }
+      return {
+        rule: {
+          ...base,
+          scope: "category",
+          metric: metric as (typeof ACHIEVEMENT_METRICS.category)[number],
+          category: category.trim(),
+        },
+      };
+  }
+}
+
+// Validates an achievement from an admin request, with the column limits of
+// the achievements table. The id is validated separately, since updates take
+// it from the URL.
+export function parseAchievementDefinition(
+  value: Record<string, unknown>
+): { definition: Omit<AchievementDefinition, "id"> } | { error: string } {
+  const { title, description, icon, xpReward, hidden } = value;
+
+  if (typeof title !== "string" || !title.trim() || title.length > 100) {
+    return { error: "title is required (at most 100 characters)" };
+  }
+  if (
+    typeof description !== "string" ||
+    !description.trim() ||
+    description.length > 255
+  ) {
+    return { error: "description is required (at most 255 characters)" };
+  }
+  if (typeof icon !== "string" || !icon.trim() || icon.length > 10) {
+    return { error: "icon is required (at most 10 characters)" };
+  }
+  if (!Number.isInteger(xpReward) || (xpReward as number) < 0) {
+    return { error: "xpReward must be a whole number of at least 0" };
+  }
+  if (hidden !== undefined && typeof hidden !== "boolean") {
+    return { error: "hidden must be true or false" };
+  }
+
+  const parsed = parseAchievementRule(value.rule);
+  if ("error" in parsed) return parsed;
+
+  return {
+    definition: {
+      title: title.trim(),
+      description: description.trim(),
+      icon: icon.trim(),
+      xpReward: xpReward as number,
+      rule: parsed.rule,
+      hidden: hidden === true,
+    },
+  };
+}
+
+// Achievement ids are short snake_case slugs, like "streak_7"
+export function isValidAchievementId(value: unknown): value is string {
+  return typeof value === "string" && /^[a-z0-9_]{1,50}$/.test(value);
+}
@@ -1,66 +1,365 @@
-import { SPEED_DEMON_THRESHOLD_MS } from "./constants";
-
-// Input parameters for checking which achievements the player has newly unlocked
-interface AchievementCheckInput {
-  totalWins: number;
-  totalGames: number;
-  currentStreak: number;
-  bestStreak: number;
-  hintsUsedThisGame: number;
-  solveTimeMsThisGame: number;
-  totalPerfectWins: number;
-  totalDailies: number;
-  won: boolean;
-  alreadyUnlocked: Set<string>;
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import {
+  achievements,
+  gameResults,
+  puzzles,
+  userAchievements,
+  users,
+} from "@/db/schema";
+import { and, asc, eq, gte, inArray, isNotNull, sql } from "drizzle-orm";
+import { ruleHolds, ruleProgress } from "./achievement-rules";
+import type { AchievementFacts, AchievementRule } from "./achievement-rules";
+import {
+  ACHIEVEMENT_RARITY_TTL_MS,
+  ACTIVE_PLAYER_WINDOW_DAYS,
+} from "./constants";
+import { applyGameToStats, EMPTY_PLAYER_STATS } from "./player-stats";
+import { computeDailyStreaks, playedOnDailyDate } from "./streaks";
+import { DEFAULT_TIME_ZONE, localDate } from "./time-zones";
+import { recordXpAwards } from "./xp-ledger";
+import type { AchievementProgress, CatalogAchievement } from "@/types";
+
+// An achievement's id and the rule that unlocks it
+export interface StoredAchievementRule {
+  id: string;
+  rule: AchievementRule;
 }
 
-// checkAchievements evaluates all achievement conditions against the player's
-// current stats and returns an array of achievement IDs that were newly unlocked
-// in this game. Each achievement is only checked if it hasn't already been
-// unlocked (via the `alreadyUnlocked` set).
-//
-// Achievement catalog:
-//   first_win   — Win your first game
-//   streak_3    — Win 3 games in a row
-//   streak_7    — Win 7 games in a row
-//   streak_15   — Win 15 games in a row
-//   no_hints    — Win a game without using any hints
-//   speed_demon — Win a game in under 15 seconds
-//   daily_5     — Complete 5 daily challenges
-//   daily_30    — Complete 30 daily challenges
-//   games_50    — Play 50 total games
-//   perfect_10  — Win 10 games with a perfect score (no hints)
-export function checkAchievements(input: AchievementCheckInput): string[] {
-  const newlyUnlocked: string[] = [];
-
-  // Helper that pushes the achievement ID if the condition is met and it hasn't
-  // been previously unlocked
-  const check = (id: string, condition: boolean) => {
-    if (!input.alreadyUnlocked.has(id) && condition) newlyUnlocked.push(id);
-  };
-
-  // Milestone achievements
-  check("first_win", input.won && input.totalWins >= 1);
-
-  // Streak achievements — checked in ascending order
-  check("streak_3", input.currentStreak >= 3);
-  check("streak_7", input.currentStreak >= 7);
-  check("streak_15", input.currentStreak >= 15);
-
-  // Skill-based achievements
-  check("no_hints", input.won && input.hintsUsedThisGame === 0);
-  check(
-    "speed_demon",
-    input.won && input.solveTimeMsThisGame < SPEED_DEMON_THRESHOLD_MS
+// Loads the rules of every achievement the player has not unlocked yet.
+// Achievements without a rule are never unlocked automatically.
+export async function loadPendingAchievementRules(
+  executor: DbExecutor,
+  userId: string
+): Promise<StoredAchievementRule[]> {
+  const rows = await executor
+    .select({ id: achievements.id, rule: achievements.rule })
+    .from(achievements)
+    .where(isNotNull(achievements.rule));
+  const unlocked = await executor
+    .select({ achievementId: userAchievements.achievementId })
+    .from(userAchievements)
+    .where(eq(userAchievements.userId, userId));
+
+  const unlockedIds = new Set(unlocked.map((r) => r.achievementId));
+  return rows.flatMap((r) =>
+    r.rule && !unlockedIds.has(r.id) ? [{ id: r.id, rule: r.rule }] : []
   );
+}
+
+// The player's games and wins in one puzzle category, for category rules
+export async function getCategoryTotals(
+  executor: DbExecutor,
+  userId: string,
+  category: string
+): Promise<NonNullable<AchievementFacts["category"]>> {
+  const [row] = await executor
+    .select({
+      gamesPlayed: sql<number>`count(*)::int`,
+      wins: sql<number>`count(*) filter (where ${gameResults.won})::int`,
+    })
+    .from(gameResults)
+    .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
+    .where(
+      and(eq(gameResults.userId, userId), eq(puzzles.category, category))
+    );
+  return { name: category, ...row };
+}
+
+// checkAchievements evaluates the pending rules against the facts of the
+// game just recorded and returns the IDs of the achievements it unlocked.
+// Rules are data (see src/lib/achievement-rules.ts), so new threshold-style
+// achievements need no changes here.
+export function checkAchievements(
+  rules: StoredAchievementRule[],
+  facts: AchievementFacts
+): string[] {
+  return rules.filter((r) => ruleHolds(r.rule, facts)).map((r) => r.id);
+}
+
+// The player's progress toward each achievement they have not unlocked, by
+// achievement ID, for the profile. Only achievements that count up to a
+// target appear; hidden ones are left out, so progress never gives the
+// secret away.
+export async function getAchievementProgress(
+  userId: string,
+  facts: Omit<AchievementFacts, "game" | "category">
+): Promise<Record<string, AchievementProgress>> {
+  const pending = await loadPendingAchievementRules(db, userId);
+  const hidden = await db
+    .select({ id: achievements.id })
+    .from(achievements)
+    .where(eq(achievements.hidden, true));
+  const hiddenIds = new Set(hidden.map((r) => r.id));
+  const visible = pending.filter((r) => !hiddenIds.has(r.id));
+
+  // Category totals, fetched once per category with a visible rule
+  const categoryTotals = new Map<
+    string,
+    NonNullable<AchievementFacts["category"]>
+  >();
+  for (const { rule } of visible) {
+    if (rule.scope !== "category" || categoryTotals.has(rule.category)) {
+      continue;
+    }
+    categoryTotals.set(
+      rule.category,
+      await getCategoryTotals(db, userId, rule.category)
+    );
+  }
+
+  const progress: Record<string, AchievementProgress> = {};
+  for (const { id, rule } of visible) {
+    const category =
+      rule.scope === "category" ? categoryTotals.get(rule.category) : undefined;
+    const p = ruleProgress(rule, { ...facts, category });
+    if (p) progress[id] = p;
+  }
+  return progress;
+}
+
+// ── Rarity ──────────────────────────────────────────────────────────────────
+// Each achievement's rarity is the share of active players (see
+// ACTIVE_PLAYER_WINDOW_DAYS) who have unlocked it. It is cached in the
+// achievements table: GET /api/achievements refreshes it once it is older
+// than ACHIEVEMENT_RARITY_TTL_MS, and `npm run db:refresh-achievement-rarity`
+// refreshes it from a cron. Refreshes hold a Postgres advisory lock, so
+// concurrent requests that find it stale compute it only once.
+
+// Key identifying the rarity refresh's advisory lock
+const RARITY_LOCK = "achievement_rarity";
+
+// Recomputes every achievement's rarity unless it was refreshed within
+// `maxAgeMs`. Returns whether it was recomputed.
+export async function refreshAchievementRarity(
+  maxAgeMs = 0
+): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT pg_advisory_xact_lock(hashtext(${RARITY_LOCK}))`
+    );
+
+    // Another request may have refreshed it while this one waited
+    const rows = await tx
+      .select({ id: achievements.id, updatedAt: achievements.rarityUpdatedAt })
+      .from(achievements);
+    if (!rows.some((r) => isRarityStale(r.updatedAt, maxAgeMs))) return false;
+
+    const activeSince = new Date(
+      Date.now() - ACTIVE_PLAYER_WINDOW_DAYS * 86_400_000
+    );
+    const [{ active }] = await tx
+      .select({ active: sql<number>`count(*)::int` })
+      .from(users)
+      .where(gte(users.lastPlayedAt, activeSince));
+    const unlocks = await tx
+      .select({
+        achievementId: userAchievements.achievementId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(userAchievements)
+      .innerJoin(users, eq(userAchievements.userId, users.id))
+      .where(gte(users.lastPlayedAt, activeSince))
+      .groupBy(userAchievements.achievementId);
+    const unlockCounts = new Map(unlocks.map((u) => [u.achievementId, u.count]));
+
+    const now = new Date();
+    for (const { id } of rows) {
+      const count = unlockCounts.get(id) ?? 0;
+      await tx
+        .update(achievements)
+        .set({
+          unlockPercent: active > 0 ? (count / active) * 100 : 0,
+          rarityUpdatedAt: now,
+        })
+        .where(eq(achievements.id, id));
+    }
+    return true;
+  });
+}
+
+function isRarityStale(updatedAt: Date | null, maxAgeMs: number): boolean {
+  return updatedAt === null || Date.now() - updatedAt.getTime() >= maxAgeMs;
+}
+
+// The public achievement catalog with rarity, cheapest reward first.
+// Refreshes rarity first if it is stale. Hidden achievements have their
+// description withheld.
+export async function getAchievementCatalog(): Promise<CatalogAchievement[]> {
+  const load = () =>
+    db
+      .select()
+      .from(achievements)
+      .orderBy(asc(achievements.xpReward), asc(achievements.id));
+
+  let rows = await load();
+  if (
+    rows.some((r) => isRarityStale(r.rarityUpdatedAt, ACHIEVEMENT_RARITY_TTL_MS))
+  ) {
+    await refreshAchievementRarity(ACHIEVEMENT_RARITY_TTL_MS);
+    rows = await load();
+  }
+
+  return rows.map((row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.hidden ? null : row.description,
+    icon: row.icon,
+    xpReward: row.xpReward,
+    hidden: row.hidden,
+    unlockPercent: row.unlockPercent,
+  }));
+}
+
+// An achievement found by backfillAchievements, with the game that earned it
+export interface BackfilledAchievement {
+  id: string;
+  title: string;
+  xpReward: number;
+  gameResultId: string;
+  unlockedAt: Date;
+}
+
+// Replays a player's games, oldest first, through the rules of every
+// achievement they have not unlocked, and returns the ones they earned along
+// the way. Each game is evaluated with the facts as they stood right after
+// it, as the submit path would have seen them, so achievements added to the
+// catalog later, or missed because of a checker bug, are found with the game
+// that earned them.
+//
+// Unless `dryRun` is set, each found achievement is awarded: it is unlocked
+// as of that game and its reward is credited to the XP ledger, linked to the
+// game and dated when it was played, so weekly, monthly and season standings
+// count it in the window that game fell in rather than today's. Runs in one
+// transaction holding the same user row lock as game submission, so no game
+// is recorded mid-replay.
+export async function backfillAchievements(
+  userId: string,
+  dryRun: boolean
+): Promise<BackfilledAchievement[]> {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select({ timeZone: users.timeZone })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!user) return [];
+    const timeZone = user.timeZone ?? DEFAULT_TIME_ZONE;
+
+    let pending = await loadPendingAchievementRules(tx, userId);
+    if (pending.length === 0) return [];
+    const needsDaily = pending.some((r) => r.rule.scope === "daily");
+
+    const history = await tx
+      .select({
+        id: gameResults.id,
+        mode: gameResults.mode,
+        attemptNumber: gameResults.attemptNumber,
+        won: gameResults.won,
+        hintsUsed: gameResults.hintsUsed,
+        solveTimeMs: gameResults.solveTimeMs,
+        playedAt: gameResults.playedAt,
+        category: puzzles.category,
+        dailyDate: puzzles.dailyDate,
+        isDaily: playedOnDailyDate(timeZone),
+      })
+      .from(gameResults)
+      .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
+      .where(eq(gameResults.userId, userId))
+      .orderBy(asc(gameResults.playedAt));
+
+    // ── Replay ────────────────────────────────────────────────────────────
+    const found: { id: string; gameResultId: string; unlockedAt: Date }[] =
+      [];
+    let stats = EMPTY_PLAYER_STATS;
+    const dailyDates: string[] = [];
+    const categories = new Map<string, { gamesPlayed: number; wins: number }>();
+
+    for (const game of history) {
+      stats = applyGameToStats(stats, game);
+      if (game.isDaily && game.dailyDate) dailyDates.push(game.dailyDate);
+      const category = categories.get(game.category) ?? {
+        gamesPlayed: 0,
+        wins: 0,
+      };
+      categories.set(game.category, {
+        gamesPlayed: category.gamesPlayed + 1,
+        wins: category.wins + (game.won ? 1 : 0),
+      });
+
+      const facts: AchievementFacts = {
+        game: {
+          mode: game.mode,
+          attemptNumber: game.attemptNumber,
+          won: game.won,
+          hintsUsed: game.hintsUsed,
+          solveTimeMs: game.solveTimeMs,
+        },
+        lifetime: {
+          gamesPlayed: stats.gamesPlayed,
+          wins: stats.wins,
+          perfectWins: stats.perfectWins,
+          winStreak: stats.currentStreak,
+        },
+        category: { name: game.category, ...categories.get(game.category)! },
+      };
+      if (needsDaily) {
+        // The daily streak as it stood on the day the game was played
+        const { dailyStreak } = computeDailyStreaks(
+          dailyDates,
+          localDate(timeZone, game.playedAt)
+        );
+        facts.daily = { completed: stats.dailiesCompleted, streak: dailyStreak };
+      }
+
+      const unlocked = new Set(checkAchievements(pending, facts));
+      if (unlocked.size === 0) continue;
+      for (const id of unlocked) {
+        found.push({ id, gameResultId: game.id, unlockedAt: game.playedAt });
+      }
+      pending = pending.filter((r) => !unlocked.has(r.id));
+      if (pending.length === 0) break;
+    }
+
+    if (found.length === 0) return [];
 
-  // Daily challenge milestones
-  check("daily_5", input.totalDailies >= 5);
-  check("daily_30", input.totalDailies >= 30);
+    const details = await tx
+      .select({
+        id: achievements.id,
+        title: achievements.title,
+        xpReward: achievements.xpReward,
+      })
+      .from(achievements)
+      .where(inArray(achievements.id, found.map((f) => f.id)));
+    const byId = new Map(details.map((d) => [d.id, d]));
+    const backfilled = found.map((f) => ({ ...byId.get(f.id)!, ...f }));
 
-  // Lifetime milestones
-  check("games_50", input.totalGames >= 50);
-  check("perfect_10", input.totalPerfectWins >= 10);
+    // ── Award ─────────────────────────────────────────────────────────────
+    if (!dryRun) {
+      await tx.insert(userAchievements).values(
+        backfilled.map((a) => ({
+          userId,
+          achievementId: a.id,
+          unlockedAt: a.unlockedAt,
+        }))
+      );
+      for (const a of backfilled) {
+        await recordXpAwards(
+          tx,
+          userId,
+          [
+            {
+              source: `achievement:${a.id}` as const,
+              amount: a.xpReward,
+              reason: a.title,
+              createdAt: a.unlockedAt,
+            },
+          ],
+          a.gameResultId
+        );
+      }
+    }
 
-  return newlyUnlocked;
+    return backfilled;
+  });
 }
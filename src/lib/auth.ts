@@ -1,12 +1,17 @@
 import type { AuthOptions } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
 import { SiweMessage } from "siwe";
+import { ensureUser } from "./users";
 
 // NextAuth v4 configuration with SIWE (Sign-In with Ethereum) credentials.
-// The CredentialsProvider accepts a serialised SIWE message and its EIP-191
-// signature.  On `authorize`, we reconstruct the SiweMessage, verify the
-// cryptographic signature, and return the recovered Ethereum address as the
-// user identity.  Sessions use JWTs (no database) with a 7-day lifetime.
+// The CredentialsProvider accepts a serialised SIWE message, its EIP-191
+// signature and the browser's time zone. On `authorize`, we reconstruct the
+// SiweMessage, verify the cryptographic signature, provision the wallet's
+// `users` row if it does not exist yet, and return the recovered Ethereum
+// address as the user identity.
+// Sessions use JWTs (no database session table) with a 7-day lifetime; the
+// internal user UUID is carried in the JWT as `dbId` so API routes do not
+// need to look the wallet up again on every request.
 export const authOptions: AuthOptions = {
   providers: [
     CredentialsProvider({
@@ -16,6 +21,7 @@ export const authOptions: AuthOptions = {
       credentials: {
         message: { label: "Message", type: "text" },
         signature: { label: "Signature", type: "text" },
+        timeZone: { label: "Time zone", type: "text" },
       },
       async authorize(credentials) {
         // Guard: both fields are required for verification
@@ -29,9 +35,21 @@ export const authOptions: AuthOptions = {
             signature: credentials.signature,
           });
           if (!result.success) return null;
+          // Create the users row on first sign-in so that every signed-in
+          // wallet can persist games and earn XP from its very first play.
+          // The browser's time zone is stored for the daily rollover if
+          // the account has none yet.
+          const dbId = await ensureUser(
+            siweMessage.address,
+            credentials.timeZone
+          );
           // Return the verified address as both `id` and `name` so it is
           // available in the JWT and session callbacks below
-          return { id: siweMessage.address, name: siweMessage.address };
+          return {
+            id: siweMessage.address,
+            name: siweMessage.address,
+            dbId,
+          };
         } catch {
           // Any verification failure (malformed message, invalid sig, etc.)
           // results in a rejected login
@@ -43,18 +61,27 @@ export const authOptions: AuthOptions = {
   // Use JWT strategy so no database session table is needed
   session: { strategy: "jwt", maxAge: 7 * 24 * 60 * 60 },
   callbacks: {
-    // Persist the Ethereum address into the JWT on first sign-in
+    // Persist the Ethereum address and internal user UUID into the JWT on
+    // first sign-in. Tokens issued before users were provisioned at sign-in
+    // carry no `dbId`; those are upgraded on their next refresh.
     async jwt({ token, user }) {
-      if (user) token.address = user.id;
+      if (user) {
+        token.address = user.id;
+        token.dbId = user.dbId;
+      }
+      if (token.address && !token.dbId) {
+        token.dbId = await ensureUser(token.address);
+      }
       return token;
     },
-    // Expose the Ethereum address on the client-side session object.
-    // The Session type is augmented in src/types/next-auth.d.ts to include
-    // `user.id` for the wallet address.
+    // Expose the Ethereum address and internal user UUID on the session
+    // object. The Session type is augmented in src/types/next-auth.d.ts to
+    // include `user.id` for the wallet address and `user.dbId` for the UUID.
     async session({ session, token }) {
       if (token.address && session.user) {
         session.user.id = token.address as string;
         session.user.name = token.address as string;
+        session.user.dbId = token.dbId as string;
       }
       return session;
     },
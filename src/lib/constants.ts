@@ -1,7 +1,17 @@
-// XP thresholds: level N requires N * XP_PER_LEVEL total XP
-export const XP_PER_LEVEL = 500;
+import type { LevelCurve } from "./levels";
 
-// XP awards for various game actions
+// Level curve turning total XP into a level (see src/lib/levels.ts): a flat
+// 500 XP per level
+export const LEVEL_CURVE: LevelCurve = { type: "linear", xpPerLevel: 500 };
+
+// Strategy used to score sorted submissions (see src/lib/scoring.ts):
+// "exact" (exact positions), "kendall" (pairs in order) or "lis" (longest
+// in-order run)
+export const SCORING_STRATEGY = "kendall";
+
+// XP awards for various game actions. The base `win` award scales with the
+// normalized score, so near-misses earn partial credit; bonuses are only
+// granted for wins.
 export const XP_AWARDS = {
   win: 100,
   perfectBonus: 50,
@@ -10,9 +20,44 @@ export const XP_AWARDS = {
   dailyChallenge: 75,
 } as const;
 
+// Pinpoint mode scoring: each event is worth up to PINPOINT_MAX_POINTS, halved
+// for every PINPOINT_HALF_LIFE_MONTHS the guess is off. A year-only guess
+// earns at most PINPOINT_YEAR_ONLY_CREDIT of the points, so naming the month
+// is worth the risk. A game is won at PINPOINT_WIN_THRESHOLD of the maximum.
+export const PINPOINT_MAX_POINTS = 100;
+export const PINPOINT_HALF_LIFE_MONTHS = 12;
+export const PINPOINT_YEAR_ONLY_CREDIT = 0.8;
+export const PINPOINT_WIN_THRESHOLD = 0.75;
+
+// Daily scheduler rules (see src/lib/daily-scheduler.ts): a category may not
+// be the daily again within DAILY_CATEGORY_COOLDOWN_DAYS days, and an event
+// may not appear in two dailies within DAILY_REPEAT_WINDOW_DAYS days. The
+// admin page and the cron script look DAILY_SCHEDULE_HORIZON_DAYS ahead.
+export const DAILY_CATEGORY_COOLDOWN_DAYS = 2;
+export const DAILY_REPEAT_WINDOW_DAYS = 365;
+export const DAILY_SCHEDULE_HORIZON_DAYS = 14;
+
+// Achievement rarity (see src/lib/achievements.ts): the share of active
+// players — those who played within ACTIVE_PLAYER_WINDOW_DAYS days — who have
+// unlocked each achievement, recomputed at most every
+// ACHIEVEMENT_RARITY_TTL_MS (1 hour)
+export const ACTIVE_PLAYER_WINDOW_DAYS = 30;
+export const ACHIEVEMENT_RARITY_TTL_MS = 60 * 60 * 1000;
+
 // Maximum hints per game
 export const MAX_HINTS = 3;
 
+// How long a play session stays valid after the puzzle is served (2 hours)
+export const GAME_SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+
+// How long a Survival run may sit idle between placements before it expires
+// (2 hours)
+export const SURVIVAL_RUN_TTL_MS = 2 * 60 * 60 * 1000;
+
+// Longest idempotency key accepted with a game submission (the size of the
+// game_sessions column that stores it)
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 64;
+
 // Number of events per puzzle
 export const EVENTS_PER_PUZZLE = 5;
 
@@ -27,3 +72,14 @@ export const GUEST_STATS_KEY = "depth_guest_stats";
 
 // Leaderboard page size
 export const LEADERBOARD_PAGE_SIZE = 50;
+
+// Per-puzzle stats (see src/lib/puzzle-stats.ts): the bar edges of the
+// solve-time histogram (15s, 30s, 1m, 2m, 5m) and how many of the fastest
+// solvers are listed
+export const SOLVE_TIME_HISTOGRAM_BOUNDS_MS = [
+  15_000, 30_000, 60_000, 120_000, 300_000,
+];
+export const PUZZLE_FASTEST_SOLVERS = 10;
+
+// Archive page size
+export const ARCHIVE_PAGE_SIZE = 20;
@@ -0,0 +1,486 @@
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { dailyQueue, gameResults, puzzleEvents, puzzles } from "@/db/schema";
+import {
+  and,
+  asc,
+  eq,
+  gte,
+  inArray,
+  isNull,
+  lte,
+  ne,
+  notExists,
+  sql,
+} from "drizzle-orm";
+import {
+  DAILY_CATEGORY_COOLDOWN_DAYS,
+  DAILY_REPEAT_WINDOW_DAYS,
+} from "./constants";
+
+// ── Daily Scheduler ─────────────────────────────────────────────────────────
+// Guarantees one daily challenge per date. A date without a daily is filled
+// from the admin-curated daily_queue in queue order, then from the
+// unscheduled pool — puzzles that are neither a daily nor queued — oldest
+// first. Only puzzles nobody has played are candidates: queued puzzles are
+// hidden from the archive, but one played before it was queued stays in the
+// queue unused. A candidate is skipped for a date when
+//   - its category is the daily within DAILY_CATEGORY_COOLDOWN_DAYS days
+//     either side of the date, or
+//   - it shares a bank event with a daily within DAILY_REPEAT_WINDOW_DAYS
+//     days either side of the date.
+// Dates no candidate can fill are left as gaps and shown on the admin page.
+//
+// Scheduling runs lazily when GET /api/puzzles/today finds no daily, and
+// ahead of time from the admin page or `npm run db:schedule-dailies`. Runs
+// hold a Postgres advisory lock so two of them cannot fill the same date.
+
+export type DailySource = "queue" | "pool";
+
+// A puzzle as the scheduler sees it
+interface SchedulerPuzzle {
+  id: string;
+  title: string;
+  category: string;
+  eventIds: string[];
+}
+
+interface ScheduledDaily extends SchedulerPuzzle {
+  date: string;
+}
+
+interface DailyCandidate extends SchedulerPuzzle {
+  source: DailySource;
+}
+
+// A puzzle the scheduler assigned, or would assign, to a date
+export interface DailyAssignment {
+  date: string;
+  puzzleId: string;
+  title: string;
+  category: string;
+  source: DailySource;
+}
+
+export interface DailyPlan {
+  assignments: DailyAssignment[];
+  // Dates that stay without a daily
+  gaps: string[];
+}
+
+// One date of the admin schedule view: the daily already scheduled, or the
+// puzzle the next run would assign
+export interface DailyScheduleDay {
+  date: string;
+  scheduled: { puzzleId: string; title: string; category: string } | null;
+  planned: DailyAssignment | null;
+}
+
+// A daily puzzle already holding a date another write wanted
+export interface DailyConflict {
+  puzzleId: string;
+  title: string;
+  dailyDate: string;
+}
+
+// Key identifying the scheduler's advisory lock
+const SCHEDULER_LOCK = "daily_scheduler";
+
+// Partial unique index on puzzles.daily_date (see src/db/schema.ts)
+const DAILY_DATE_INDEX = "puzzles_daily_date_unique";
+
+// ── Date helpers ────────────────────────────────────────────────────────────
+
+// Shifts a "YYYY-MM-DD" date by `days` days
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(
+    (Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) /
+      86_400_000
+  );
+}
+
+// The `days` consecutive dates starting at `from`
+function dateRange(from: string, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => addDays(from, i));
+}
+
+// ── Planning ────────────────────────────────────────────────────────────────
+
+// Whether `candidate` may be the daily on `date` given the dailies around it
+function isEligible(
+  candidate: SchedulerPuzzle,
+  date: string,
+  scheduled: ScheduledDaily[]
+): boolean {
+  return scheduled.every((daily) => {
+    const apart = daysApart(daily.date, date);
+    if (
+      apart <= DAILY_CATEGORY_COOLDOWN_DAYS &&
+      daily.category === candidate.category
+    ) {
+      return false;
+    }
+    return (
+      apart > DAILY_REPEAT_WINDOW_DAYS ||
+      !daily.eventIds.some((id) => candidate.eventIds.includes(id))
+    );
+  });
+}
+
+// Assigns candidates to the dates without a daily, in date order. Each date
+// takes the first eligible candidate, and every assignment counts towards
+// the rules for later dates. Pure: nothing is written.
+export function planDailies(
+  dates: string[],
+  scheduled: ScheduledDaily[],
+  candidates: DailyCandidate[]
+): DailyPlan {
+  const taken = [...scheduled];
+  const remaining = [...candidates];
+  const assignments: DailyAssignment[] = [];
+  const gaps: string[] = [];
+
+  for (const date of dates) {
+    if (taken.some((daily) => daily.date === date)) continue;
+
+    const index = remaining.findIndex((c) => isEligible(c, date, taken));
+    if (index === -1) {
+      gaps.push(date);
+      continue;
+    }
+
+    const [chosen] = remaining.splice(index, 1);
+    taken.push({ ...chosen, date });
+    assignments.push({
+      date,
+      puzzleId: chosen.id,
+      title: chosen.title,
+      category: chosen.category,
+      source: chosen.source,
+    });
+  }
+
+  return { assignments, gaps };
+}
+
+// ── Loading ─────────────────────────────────────────────────────────────────
+
+// Attaches each puzzle's bank event ids. Puzzles without events are dropped,
+// since they cannot be played.
+async function withEventIds<T extends { id: string }>(
+  executor: DbExecutor,
+  rows: T[]
+): Promise<(T & { eventIds: string[] })[]> {
+  if (rows.length === 0) return [];
+
+  const links = await executor
+    .select({ puzzleId: puzzleEvents.puzzleId, eventId: puzzleEvents.eventId })
+    .from(puzzleEvents)
+    .where(
+      inArray(
+        puzzleEvents.puzzleId,
+        rows.map((r) => r.id)
+      )
+    );
+
+  const eventIds = new Map<string, string[]>();
+  for (const link of links) {
+    eventIds.set(link.puzzleId, [
+      ...(eventIds.get(link.puzzleId) ?? []),
+      link.eventId,
+    ]);
+  }
+
+  return rows
+    .map((row) => ({ ...row, eventIds: eventIds.get(row.id) ?? [] }))
+    .filter((row) => row.eventIds.length > 0);
+}
+
+// Dailies close enough to the dates between `from` and `to` to matter for
+// the rules
+async function loadScheduled(
+  executor: DbExecutor,
+  from: string,
+  to: string
+): Promise<ScheduledDaily[]> {
+  const window = Math.max(
+    DAILY_CATEGORY_COOLDOWN_DAYS,
+    DAILY_REPEAT_WINDOW_DAYS
+  );
+  const rows = await executor
+    .select({
+      id: puzzles.id,
+      title: puzzles.title,
+      category: puzzles.category,
+      dailyDate: puzzles.dailyDate,
+    })
+    .from(puzzles)
+    .where(
+      and(
+        eq(puzzles.isDaily, true),
+        gte(puzzles.dailyDate, addDays(from, -window)),
+        lte(puzzles.dailyDate, addDays(to, window))
+      )
+    );
+
+  // Dailies keep their events for the repeat rule even if they were since
+  // emptied, so they are not filtered by withEventIds
+  const withEvents = await withEventIds(executor, rows);
+  return rows.map((row) => ({
+    id: row.id,
+    title: row.title,
+    category: row.category,
+    date: row.dailyDate!,
+    eventIds: withEvents.find((r) => r.id === row.id)?.eventIds ?? [],
+  }));
+}
+
+// Queued puzzles in queue order, then the unscheduled pool oldest first
+async function loadCandidates(
+  executor: DbExecutor
+): Promise<DailyCandidate[]> {
+  // A puzzle someone has already played would be a pre-solved daily
+  const unplayed = notExists(
+    executor
+      .select({ id: gameResults.id })
+      .from(gameResults)
+      .where(eq(gameResults.puzzleId, puzzles.id))
+  );
+
+  const queued = await executor
+    .select({
+      id: puzzles.id,
+      title: puzzles.title,
+      category: puzzles.category,
+    })
+    .from(dailyQueue)
+    .innerJoin(puzzles, eq(dailyQueue.puzzleId, puzzles.id))
+    .where(and(eq(puzzles.isDaily, false), unplayed))
+    .orderBy(asc(dailyQueue.position));
+
+  const pool = await executor
+    .select({
+      id: puzzles.id,
+      title: puzzles.title,
+      category: puzzles.category,
+    })
+    .from(puzzles)
+    .leftJoin(dailyQueue, eq(dailyQueue.puzzleId, puzzles.id))
+    .where(
+      and(
+        eq(puzzles.isDaily, false),
+        isNull(dailyQueue.puzzleId),
+        unplayed
+      )
+    )
+    .orderBy(asc(puzzles.createdAt));
+
+  return [
+    ...(await withEventIds(executor, queued)).map((p) => ({
+      ...p,
+      source: "queue" as const,
+    })),
+    ...(await withEventIds(executor, pool)).map((p) => ({
+      ...p,
+      source: "pool" as const,
+    })),
+  ];
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+// Fills every date without a daily in the `days` days starting at `from`
+// and removes the assigned puzzles from the queue
+export async function scheduleDailies(
+  from: string,
+  days: number
+): Promise<DailyPlan> {
+  const dates = dateRange(from, days);
+
+  return db.transaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT pg_advisory_xact_lock(hashtext(${SCHEDULER_LOCK}))`
+    );
+
+    const plan = planDailies(
+      dates,
+      await loadScheduled(tx, dates[0], dates[dates.length - 1]),
+      await loadCandidates(tx)
+    );
+
+    for (const assignment of plan.assignments) {
+      await tx
+        .update(puzzles)
+        .set({ isDaily: true, dailyDate: assignment.date })
+        .where(eq(puzzles.id, assignment.puzzleId));
+    }
+    if (plan.assignments.length > 0) {
+      await tx.delete(dailyQueue).where(
+        inArray(
+          dailyQueue.puzzleId,
+          plan.assignments.map((a) => a.puzzleId)
+        )
+      );
+    }
+
+    return plan;
+  });
+}
+
+// Returns the daily puzzle for `date`, scheduling one first if the date has
+// none. Returns null only when no candidate can fill the date.
+export async function ensureDailyPuzzle(date: string) {
+  const findDaily = () =>
+    db
+      .select()
+      .from(puzzles)
+      .where(and(eq(puzzles.isDaily, true), eq(puzzles.dailyDate, date)))
+      .limit(1);
+
+  const [existing] = await findDaily();
+  if (existing) return existing;
+
+  try {
+    await scheduleDailies(date, 1);
+  } catch (error) {
+    // An admin saved a daily for the date mid-run; use theirs
+    if (!isDailyDateConflict(error)) throw error;
+  }
+  const [scheduled] = await findDaily();
+  return scheduled ?? null;
+}
+
+// ── Daily date conflicts ────────────────────────────────────────────────────
+
+// Returns the daily puzzle holding `dailyDate`, ignoring `excludePuzzleId`
+// (the puzzle being saved), or null if the date is free
+export async function findDailyConflict(
+  dailyDate: string,
+  excludePuzzleId?: string
+): Promise<DailyConflict | null> {
+  const [row] = await db
+    .select({ puzzleId: puzzles.id, title: puzzles.title })
+    .from(puzzles)
+    .where(
+      and(
+        eq(puzzles.isDaily, true),
+        eq(puzzles.dailyDate, dailyDate),
+        excludePuzzleId ? ne(puzzles.id, excludePuzzleId) : undefined
+      )
+    )
+    .limit(1);
+  return row ? { ...row, dailyDate } : null;
+}
+
+// Response body for a write rejected because the date is taken
+export function dailyConflictBody(conflict: DailyConflict) {
+  return {
+    error: `"${conflict.title}" is already the daily for ${conflict.dailyDate}`,
+    conflict,
+  };
+}
+
+// Whether `error` is a unique violation on the daily date index, raised when
+// a concurrent write took the date after the conflict check. Drizzle wraps
+// driver errors, so the Postgres error may be the cause.
+export function isDailyDateConflict(error: unknown): boolean {
+  const pgError = error instanceof Error && error.cause ? error.cause : error;
+  return (
+    typeof pgError === "object" &&
+    pgError !== null &&
+    "code" in pgError &&
+    pgError.code === "23505" &&
+    "constraint" in pgError &&
+    pgError.constraint === DAILY_DATE_INDEX
+  );
+}
+
+// Swaps the daily dates of two scheduled daily puzzles in one transaction.
+// The first puzzle's date is cleared while the second takes it, so the
+// unique index never sees a date held twice.
+export async function swapDailyDates(
+  firstId: string,
+  secondId: string
+): Promise<{ swapped: DailyConflict[] } | { error: string }> {
+  if (firstId === secondId) {
+    return { error: "Pick two different puzzles to swap" };
+  }
+
+  return db.transaction(async (tx) => {
+    const rows = await tx
+      .select({
+        puzzleId: puzzles.id,
+        title: puzzles.title,
+        isDaily: puzzles.isDaily,
+        dailyDate: puzzles.dailyDate,
+      })
+      .from(puzzles)
+      .where(inArray(puzzles.id, [firstId, secondId]))
+      .for("update");
+
+    const first = rows.find((r) => r.puzzleId === firstId);
+    const second = rows.find((r) => r.puzzleId === secondId);
+    if (!first || !second) {
+      return { error: "One or both puzzles do not exist" };
+    }
+    if (
+      !first.isDaily ||
+      !first.dailyDate ||
+      !second.isDaily ||
+      !second.dailyDate
+    ) {
+      return { error: "Both puzzles must be dailies with a date" };
+    }
+
+    await tx
+      .update(puzzles)
+      .set({ dailyDate: null })
+      .where(eq(puzzles.id, firstId));
+    await tx
+      .update(puzzles)
+      .set({ dailyDate: first.dailyDate })
+      .where(eq(puzzles.id, secondId));
+    await tx
+      .update(puzzles)
+      .set({ dailyDate: second.dailyDate })
+      .where(eq(puzzles.id, firstId));
+
+    return {
+      swapped: [
+        { puzzleId: firstId, title: first.title, dailyDate: second.dailyDate },
+        { puzzleId: secondId, title: second.title, dailyDate: first.dailyDate },
+      ],
+    };
+  });
+}
+
+// The schedule for the `days` days starting at `from`, with the puzzles the
+// next run would assign to the open dates. Nothing is written.
+export async function previewDailySchedule(
+  from: string,
+  days: number
+): Promise<{ days: DailyScheduleDay[]; gaps: string[] }> {
+  const dates = dateRange(from, days);
+  const scheduled = await loadScheduled(db, dates[0], dates[dates.length - 1]);
+  const plan = planDailies(dates, scheduled, await loadCandidates(db));
+
+  return {
+    days: dates.map((date) => {
+      const daily = scheduled.find((d) => d.date === date);
+      return {
+        date,
+        scheduled: daily
+          ? { puzzleId: daily.id, title: daily.title, category: daily.category }
+          : null,
+        planned: plan.assignments.find((a) => a.date === date) ?? null,
+      };
+    }),
+    gaps: plan.gaps,
+  };
+}
@@ -0,0 +1,289 @@
+// ── Structured Event Dates ──────────────────────────────────────────────────
+// Events are dated with an astronomical year (1 BC is year 0, 2 BC is -1, and
+// so on), an optional month and day, a precision and a circa flag. The
+// precision says how much of the date is known — "March 2024" has month
+// precision, "1990s" decade precision — and the display string is always
+// produced by formatEventDate rather than typed by hand.
+//
+// For ordering, every date covers a range: a month-precision date spans the
+// whole month, a decade the whole decade. Circa dates are widened by one unit
+// of their precision on each side. Two events whose ranges overlap cannot be
+// told apart chronologically and count as a tie.
+
+export const DATE_PRECISIONS = [
+  "day",
+  "month",
+  "year",
+  "decade",
+  "century",
+] as const;
+
+export type DatePrecision = (typeof DATE_PRECISIONS)[number];
+
+export interface EventDate {
+  year: number;
+  month: number | null;
+  day: number | null;
+  precision: DatePrecision;
+  circa: boolean;
+}
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// ── Range keys ──────────────────────────────────────────────────────────────
+// Dates are compared as integer keys with 31 slots per month and 12 months
+// per year. Some keys are not real days (February 30th), which is harmless
+// since keys are only ever compared with each other.
+const KEYS_PER_MONTH = 31;
+const KEYS_PER_YEAR = 12 * KEYS_PER_MONTH;
+
+// How far a circa date is widened on each side, in keys
+const CIRCA_MARGIN: Record<DatePrecision, number> = {
+  day: 1,
+  month: KEYS_PER_MONTH,
+  year: KEYS_PER_YEAR,
+  decade: 10 * KEYS_PER_YEAR,
+  century: 100 * KEYS_PER_YEAR,
+};
+
+function dateKey(year: number, month: number, day: number): number {
+  return year * KEYS_PER_YEAR + (month - 1) * KEYS_PER_MONTH + (day - 1);
+}
+
+// Year as written with an era: 44 BC is { eraYear: 44, bc: true }
+function toEraYear(year: number): { eraYear: number; bc: boolean } {
+  return year <= 0
+    ? { eraYear: 1 - year, bc: true }
+    : { eraYear: year, bc: false };
+}
+
+function fromEraYear(eraYear: number, bc: boolean): number {
+  return bc ? 1 - eraYear : eraYear;
+}
+
+// The first and last astronomical year covered by a decade or century. BC
+// periods run backwards: the 1200s BC span 1209 BC to 1200 BC.
+function periodYears(date: EventDate): { first: number; last: number } {
+  const { eraYear, bc } = toEraYear(date.year);
+  let lo: number;
+  let hi: number;
+
+  if (date.precision === "decade") {
+    lo = Math.floor(eraYear / 10) * 10;
+    hi = lo + 9;
+  } else if (date.precision === "century") {
+    const century = Math.ceil(eraYear / 100);
+    lo = (century - 1) * 100 + 1;
+    hi = century * 100;
+  } else {
+    lo = hi = eraYear;
+  }
+
+  const a = fromEraYear(lo, bc);
+  const b = fromEraYear(hi, bc);
+  return { first: Math.min(a, b), last: Math.max(a, b) };
+}
+
+// The inclusive range of keys a date covers, widened for circa dates
+export function eventDateRange(date: EventDate): { start: number; end: number } {
+  let start: number;
+  let end: number;
+
+  switch (date.precision) {
+    case "day":
+      start = end = dateKey(date.year, date.month!, date.day!);
+      break;
+    case "month":
+      start = dateKey(date.year, date.month!, 1);
+      end = dateKey(date.year, date.month!, KEYS_PER_MONTH);
+      break;
+    default: {
+      const { first, last } = periodYears(date);
+      start = dateKey(first, 1, 1);
+      end = dateKey(last, 12, KEYS_PER_MONTH);
+    }
+  }
+
+  if (date.circa) {
+    start -= CIRCA_MARGIN[date.precision];
+    end += CIRCA_MARGIN[date.precision];
+  }
+  return { start, end };
+}
+
+// The inclusive range of months a date covers, as `year * 12 + (month - 1)`
+export function eventDateMonthRange(date: EventDate): {
+  start: number;
+  end: number;
+} {
+  const { start, end } = eventDateRange(date);
+  return {
+    start: Math.floor(start / KEYS_PER_MONTH),
+    end: Math.floor(end / KEYS_PER_MONTH),
+  };
+}
+
+// -1 if `a` lies entirely before `b`, 1 if entirely after, 0 if their ranges
+// overlap (a tie)
+export function compareEventDates(a: EventDate, b: EventDate): -1 | 0 | 1 {
+  const ra = eventDateRange(a);
+  const rb = eventDateRange(b);
+  if (ra.end < rb.start) return -1;
+  if (ra.start > rb.end) return 1;
+  return 0;
+}
+
+// Sort comparator: earlier ranges first, narrower first when they start
+// together. Consistent with compareEventDates for dates that do not tie.
+export function sortEventDates(a: EventDate, b: EventDate): number {
+  const ra = eventDateRange(a);
+  const rb = eventDateRange(b);
+  return ra.start - rb.start || ra.end - rb.end;
+}
+
+// ── Formatting ──────────────────────────────────────────────────────────────
+
+function ordinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+// Display string for a date, e.g. "March 15, 2024", "March 2024", "c. 1200
+// BC", "1990s" or "5th century BC"
+export function formatEventDate(date: EventDate): string {
+  const { eraYear, bc } = toEraYear(date.year);
+  const era = bc ? " BC" : "";
+  let text: string;
+
+  switch (date.precision) {
+    case "day":
+      text = `${MONTH_NAMES[date.month! - 1]} ${date.day}, ${eraYear}${era}`;
+      break;
+    case "month":
+      text = `${MONTH_NAMES[date.month! - 1]} ${eraYear}${era}`;
+      break;
+    case "year":
+      text = `${eraYear}${era}`;
+      break;
+    case "decade":
+      text = `${Math.floor(eraYear / 10) * 10}s${era}`;
+      break;
+    case "century":
+      text = `${ordinal(Math.ceil(eraYear / 100))} century${era}`;
+      break;
+  }
+
+  return date.circa ? `c. ${text}` : text;
+}
+
+// ── Validation ──────────────────────────────────────────────────────────────
+
+// Proleptic Gregorian leap years, valid for astronomical (including
+// negative) years
+function isLeapYear(year: number): boolean {
+  const mod = (n: number) => ((year % n) + n) % n;
+  return mod(4) === 0 && (mod(100) !== 0 || mod(400) === 0);
+}
+
+function daysInMonth(year: number, month: number): number {
+  if (month === 2) return isLeapYear(year) ? 29 : 28;
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+// Validates the structured date fields of a request body. Month and day must
+// be given exactly when the precision calls for them. Returns the normalized
+// date or an error message.
+export function parseEventDate(
+  value: Record<string, unknown>
+): { date: EventDate } | { error: string } {
+  const { year, month, day, precision, circa } = value;
+
+  if (!Number.isInteger(year)) {
+    return { error: "year must be a whole number (negative for BC)" };
+  }
+  if (!DATE_PRECISIONS.includes(precision as DatePrecision)) {
+    return { error: `precision must be one of ${DATE_PRECISIONS.join(", ")}` };
+  }
+  if (circa !== undefined && typeof circa !== "boolean") {
+    return { error: "circa must be a boolean" };
+  }
+
+  const p = precision as DatePrecision;
+  const needsMonth = p === "day" || p === "month";
+  const needsDay = p === "day";
+  const hasMonth = month !== undefined && month !== null;
+  const hasDay = day !== undefined && day !== null;
+
+  if (needsMonth !== hasMonth) {
+    return {
+      error: needsMonth
+        ? `month is required for ${p} precision`
+        : `month must be omitted for ${p} precision`,
+    };
+  }
+  if (needsDay !== hasDay) {
+    return {
+      error: needsDay
+        ? "day is required for day precision"
+        : `day must be omitted for ${p} precision`,
+    };
+  }
+  if (
+    hasMonth &&
+    (!Number.isInteger(month) || (month as number) < 1 || (month as number) > 12)
+  ) {
+    return { error: "month must be between 1 and 12" };
+  }
+  if (
+    hasDay &&
+    (!Number.isInteger(day) ||
+      (day as number) < 1 ||
+      (day as number) > daysInMonth(year as number, month as number))
+  ) {
+    return { error: "day does not exist in that month" };
+  }
+
+  return {
+    date: {
+      year: year as number,
+      month: hasMonth ? (month as number) : null,
+      day: hasDay ? (day as number) : null,
+      precision: p,
+      circa: circa === true,
+    },
+  };
+}
+
+// Picks the structured date fields out of an event row
+export function toEventDate(row: EventDate): EventDate {
+  return {
+    year: row.year,
+    month: row.month,
+    day: row.day,
+    precision: row.precision,
+    circa: row.circa,
+  };
+}
@@ -0,0 +1,18 @@
+// ── Game Recorded Notifications ─────────────────────────────────────────────
+// The navbar's daily streak badge is fetched once per sign-in. Game pages
+// announce each successful submit so the badge refetches only when a game
+// may have extended the streak.
+
+const GAME_RECORDED_EVENT = "game-recorded";
+
+// Announces that a game submission succeeded
+export function notifyGameRecorded(): void {
+  window.dispatchEvent(new Event(GAME_RECORDED_EVENT));
+}
+
+// Calls `listener` after every successful submission. Returns a function
+// that stops listening.
+export function onGameRecorded(listener: () => void): () => void {
+  window.addEventListener(GAME_RECORDED_EVENT, listener);
+  return () => window.removeEventListener(GAME_RECORDED_EVENT, listener);
+}
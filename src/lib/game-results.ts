@@ -0,0 +1,275 @@
+import type { DbExecutor } from "@/db";
+import {
+  puzzles,
+  gameResults,
+  users,
+  achievements,
+  userAchievements,
+} from "@/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import {
+  checkAchievements,
+  getCategoryTotals,
+  loadPendingAchievementRules,
+} from "./achievements";
+import type { AchievementFacts } from "./achievement-rules";
+import { levelForXp } from "./levels";
+import { recordPlayerStats } from "./player-stats";
+import { nextAttemptNumber } from "./puzzle-stats";
+import { getDailyStreaks, playedOnDailyDate } from "./streaks";
+import { DEFAULT_TIME_ZONE, localDate } from "./time-zones";
+import { recordXpAwards } from "./xp-ledger";
+import type { XpAward } from "./xp";
+import type { Achievement, GameMode } from "@/types";
+
+// A finished game ready to be persisted for a signed-in player. Scores are
+// in the units of the game mode; `maxScore` records the scale.
+export interface CompletedGame {
+  userId: string;
+  puzzleId: string;
+  mode: GameMode;
+  won: boolean;
+  score: number;
+  maxScore: number;
+  hintsUsed: number;
+  solveTimeMs: number;
+}
+
+// Facts computed while recording a game that the mode's XP rules depend on
+export interface GameXpContext {
+  currentStreak: number;
+  isDaily: boolean;
+  attemptNumber: number;
+}
+
+// Thrown by recordGameResult when the player already has a result for
+// today's daily in this mode, where "today" is the date in the player's time
+// zone. Throwing rolls back the submit route's transaction, so the session
+// claim is undone along with it.
+export class DuplicateDailyError extends Error {
+  constructor() {
+    super("You have already completed today's daily challenge");
+    this.name = "DuplicateDailyError";
+  }
+}
+
+export type RecordGameOutcome =
+  | {
+      status: "recorded";
+      xpEarned: number;
+      newAchievements: Achievement[];
+      // The player's level before and after this game's XP
+      levelBefore: number;
+      levelAfter: number;
+      // 1 if this was the player's first play of the puzzle in this mode
+      attemptNumber: number;
+    }
+  // The session's user has no row — only possible if the DB was reset
+  // after sign-in
+  | { status: "user-missing" };
+
+// recordGameResult runs the persistence pipeline shared by every game mode:
+// it records the result, updates the player's stats, unlocks achievements
+// and awards XP. The mode itemizes its XP through `calculateGameXp`; the
+// rewards of newly unlocked achievements are added as further awards.
+//
+// Every step runs on `tx`, the submit route's transaction, so a failure
+// leaves nothing half-recorded. The player's row is locked first: concurrent
+// submissions by the same player run one after the other, which keeps the
+// daily duplicate check and the achievement checks race-free.
+export async function recordGameResult(
+  tx: DbExecutor,
+  game: CompletedGame,
+  calculateGameXp: (context: GameXpContext) => XpAward[]
+): Promise<RecordGameOutcome> {
+  const userResult = await tx
+    .select()
+    .from(users)
+    .where(eq(users.id, game.userId))
+    .for("update");
+
+  if (userResult.length === 0) {
+    return { status: "user-missing" };
+  }
+
+  const user = userResult[0];
+
+  // ── Daily duplicate check ───────────────────────────────────────────────
+  // A game counts as the daily challenge only on the puzzle's daily date in
+  // the player's time zone; replays of past dailies from the archive are
+  // ordinary games. If the player has already submitted today's daily in
+  // this mode, reject the submission (see DuplicateDailyError) to prevent
+  // repeated XP farming. Only results played on the daily date count: a
+  // puzzle played from the archive before it was scheduled can still be
+  // completed as the daily.
+  const timeZone = user.timeZone ?? DEFAULT_TIME_ZONE;
+  const [puzzle] = await tx
+    .select({
+      isDaily: puzzles.isDaily,
+      dailyDate: puzzles.dailyDate,
+      category: puzzles.category,
+    })
+    .from(puzzles)
+    .where(eq(puzzles.id, game.puzzleId))
+    .limit(1);
+  const isDaily =
+    puzzle !== undefined &&
+    puzzle.isDaily &&
+    puzzle.dailyDate === localDate(timeZone);
+
+  if (isDaily) {
+    const existingResult = await tx
+      .select({ id: gameResults.id })
+      .from(gameResults)
+      .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
+      .where(
+        and(
+          eq(gameResults.userId, user.id),
+          eq(gameResults.puzzleId, game.puzzleId),
+          eq(gameResults.mode, game.mode),
+          playedOnDailyDate(timeZone)
+        )
+      )
+      .limit(1);
+
+    if (existingResult.length > 0) {
+      throw new DuplicateDailyError();
+    }
+  }
+
+  // ── Record the game result and update player stats ─────────────────────
+  // The counters in player_stats advance with every result (see
+  // src/lib/player-stats.ts). Attempts are numbered per puzzle and mode so
+  // per-puzzle stats can tell first attempts from retries.
+  const attemptNumber = await nextAttemptNumber(
+    tx,
+    user.id,
+    game.puzzleId,
+    game.mode
+  );
+  const [gameResult] = await tx
+    .insert(gameResults)
+    .values({
+      userId: user.id,
+      puzzleId: game.puzzleId,
+      mode: game.mode,
+      won: game.won,
+      score: game.score,
+      maxScore: game.maxScore,
+      hintsUsed: game.hintsUsed,
+      solveTimeMs: game.solveTimeMs,
+      attemptNumber,
+    })
+    .returning({ id: gameResults.id });
+
+  const stats = await recordPlayerStats(tx, user.id, {
+    mode: game.mode,
+    won: game.won,
+    hintsUsed: game.hintsUsed,
+    solveTimeMs: game.solveTimeMs,
+    isDaily,
+  });
+  const { currentStreak } = stats;
+
+  // ── Check for newly unlocked achievements ───────────────────────────────
+  // Each achievement still locked for the player is unlocked when its rule
+  // holds (see src/lib/achievement-rules.ts). Daily and category facts cost
+  // extra queries, so they are only gathered when a pending rule needs them;
+  // they are read through `tx` to include the game just recorded.
+  const pendingRules = await loadPendingAchievementRules(tx, user.id);
+  const facts: AchievementFacts = {
+    game: {
+      mode: game.mode,
+      attemptNumber,
+      won: game.won,
+      hintsUsed: game.hintsUsed,
+      solveTimeMs: game.solveTimeMs,
+    },
+    lifetime: {
+      gamesPlayed: stats.gamesPlayed,
+      wins: stats.wins,
+      perfectWins: stats.perfectWins,
+      winStreak: currentStreak,
+    },
+  };
+
+  if (pendingRules.some((r) => r.rule.scope === "daily")) {
+    const { dailyStreak } = await getDailyStreaks(user.id, timeZone, tx);
+    facts.daily = { completed: stats.dailiesCompleted, streak: dailyStreak };
+  }
+  if (
+    puzzle &&
+    pendingRules.some(
+      (r) => r.rule.scope === "category" && r.rule.category === puzzle.category
+    )
+  ) {
+    facts.category = await getCategoryTotals(tx, user.id, puzzle.category);
+  }
+
+  const newlyUnlockedIds = checkAchievements(pendingRules, facts);
+
+  // ── Persist newly unlocked achievements ─────────────────────────────────
+  let newAchievements: Achievement[] = [];
+  let achievementAwards: (XpAward & { reason: string })[] = [];
+  if (newlyUnlockedIds.length > 0) {
+    // Insert rows into the user_achievements join table
+    await tx.insert(userAchievements).values(
+      newlyUnlockedIds.map((achievementId) => ({
+        userId: user.id,
+        achievementId,
+      }))
+    );
+
+    // Fetch full achievement details using inArray to handle any number of
+    // newly unlocked achievements in a single query
+    const achievementRows = await tx
+      .select()
+      .from(achievements)
+      .where(inArray(achievements.id, newlyUnlockedIds));
+
+    newAchievements = achievementRows.map((a) => ({
+      id: a.id,
+      title: a.title,
+      description: a.description,
+      icon: a.icon,
+      xpReward: a.xpReward,
+    }));
+
+    // Each achievement's reward is its own ledger entry
+    achievementAwards = achievementRows.map((a) => ({
+      source: `achievement:${a.id}` as const,
+      amount: a.xpReward,
+      reason: a.title,
+    }));
+  }
+
+  // ── Award XP ────────────────────────────────────────────────────────────
+  // Each part of the award becomes a row of the XP ledger, and users.xp is
+  // incremented in the database rather than written back from a value read
+  // earlier (see src/lib/xp-ledger.ts)
+  const xpEarned = await recordXpAwards(
+    tx,
+    user.id,
+    [
+      ...calculateGameXp({ currentStreak, isDaily, attemptNumber }),
+      ...achievementAwards,
+    ],
+    gameResult.id
+  );
+
+  // ── Update user record ──────────────────────────────────────────────────
+  await tx
+    .update(users)
+    .set({ lastPlayedAt: new Date() })
+    .where(eq(users.id, user.id));
+
+  // The user row is locked, so the XP read at the start is still current
+  return {
+    status: "recorded",
+    xpEarned,
+    newAchievements,
+    levelBefore: levelForXp(user.xp),
+    levelAfter: levelForXp(user.xp + xpEarned),
+    attemptNumber,
+  };
+}
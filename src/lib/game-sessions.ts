@@ -0,0 +1,124 @@
+import { randomBytes } from "crypto";
+import { getServerSession } from "next-auth";
+import { and, eq, isNull } from "drizzle-orm";
+import { authOptions } from "./auth";
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { gameSessions } from "@/db/schema";
+import { GAME_SESSION_TTL_MS, IDEMPOTENCY_KEY_MAX_LENGTH } from "./constants";
+import type { GameMode } from "@/types";
+
+// Parses the `mode` query parameter of the puzzle routes. A missing value
+// means classic mode; an unknown value returns null so the route can reject it.
+export function parseGameMode(value: string | null): GameMode | null {
+  if (value === null || value === "classic") return "classic";
+  if (value === "pinpoint") return "pinpoint";
+  return null;
+}
+
+// Starts a new play session for the given puzzle and returns its token. The
+// session records the server-side start time, the event order that was sent
+// to the client and the game mode the submission must match. If the request
+// is authenticated, the session is bound to the user so that nobody else can
+// submit it.
+export async function startGameSession(
+  puzzleId: string,
+  shuffle: string[],
+  mode: GameMode = "classic"
+): Promise<string> {
+  const session = await getServerSession(authOptions);
+  const userId = session?.user?.dbId ?? null;
+
+  // 32 random bytes, hex-encoded — unguessable and fits the 64-char column
+  const token = randomBytes(32).toString("hex");
+
+  // Timestamps come from the app server clock — the same clock the submit
+  // route uses to stamp completion — so elapsed time is not skewed by any
+  // drift between the app and database hosts
+  const startedAt = new Date();
+
+  await db.insert(gameSessions).values({
+    token,
+    userId,
+    puzzleId,
+    mode,
+    shuffle,
+    startedAt,
+    expiresAt: new Date(startedAt.getTime() + GAME_SESSION_TTL_MS),
+  });
+
+  return token;
+}
+
+// Checks the optional `idempotencyKey` of a submit request body. Returns the
+// key, null when absent, or undefined when the value is invalid.
+export function parseIdempotencyKey(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string" || value.length === 0) return undefined;
+  return value.length <= IDEMPOTENCY_KEY_MAX_LENGTH ? value : undefined;
+}
+
+// Looks up a play session by token. Returns null if no session matches.
+// Pass the submit transaction as `executor` to read the session inside it.
+export async function getGameSession(
+  token: string,
+  executor: DbExecutor = db
+) {
+  const rows = await executor
+    .select()
+    .from(gameSessions)
+    .where(eq(gameSessions.token, token))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// ── Submission ──────────────────────────────────────────────────────────────
+// A submit route claims the session, records the game and stores its
+// response in one transaction. Clients send the same idempotency key with
+// every retry of a submission, so a retried request whose first attempt
+// was committed (but whose response never arrived) gets that response back
+// instead of a conflict, and the game is recorded only once. A failed
+// attempt rolls back entirely, leaving the session open for the retry.
+
+// Marks the session submitted, exactly once. Returns false if it had already
+// been submitted; a concurrent claim waits for the first to commit.
+export async function claimGameSession(
+  tx: DbExecutor,
+  gameSessionId: string,
+  completedAt: Date,
+  idempotencyKey: string | null
+): Promise<boolean> {
+  const claimed = await tx
+    .update(gameSessions)
+    .set({ completedAt, idempotencyKey })
+    .where(
+      and(eq(gameSessions.id, gameSessionId), isNull(gameSessions.completedAt))
+    )
+    .returning({ id: gameSessions.id });
+  return claimed.length > 0;
+}
+
+// Stores the response of a claimed session for replays
+export async function saveSubmissionResponse(
+  tx: DbExecutor,
+  gameSessionId: string,
+  response: object
+): Promise<void> {
+  await tx
+    .update(gameSessions)
+    .set({ response })
+    .where(eq(gameSessions.id, gameSessionId));
+}
+
+// Returns the stored response of an already submitted session when the
+// request carries the idempotency key of the original submission, and null
+// otherwise — a different or missing key means a genuine second submission.
+export function replayedSubmission(
+  gameSession: typeof gameSessions.$inferSelect,
+  idempotencyKey: string | null
+): unknown {
+  if (!idempotencyKey || gameSession.idempotencyKey !== idempotencyKey) {
+    return null;
+  }
+  return gameSession.response ?? null;
+}
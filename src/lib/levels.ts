@@ -0,0 +1,127 @@
+import { LEVEL_CURVE } from "./constants";
+
+// ── Levels ──────────────────────────────────────────────────────────────────
+// A player's level is derived from their total XP by a level curve, which
+// gives the total XP at which each level starts. Every player starts at
+// level 0 with 0 XP. Three kinds of curve are supported:
+//   linear    — level N starts at N × xpPerLevel
+//   quadratic — level N starts at N² × base, so each level costs more
+//   table     — hand-tuned thresholds: thresholds[N - 1] is where level N
+//               starts. Past the end of the table every level costs the
+//               same as the last step of the table.
+// The curve in use is LEVEL_CURVE (see src/lib/constants.ts). A curve must
+// be strictly increasing with finite thresholds; LEVEL_CURVE is checked
+// when this module loads, so a misconfigured curve fails at startup.
+
+export type LevelCurve =
+  | { type: "linear"; xpPerLevel: number }
+  | { type: "quadratic"; base: number }
+  | { type: "table"; thresholds: number[] };
+
+// A player's position on the level curve
+export interface LevelProgress {
+  level: number;
+  // Total XP at which the current level started
+  levelStartXp: number;
+  // Total XP at which the next level starts
+  nextLevelXp: number;
+  // Share of the current level completed, in [0, 1)
+  levelProgress: number;
+}
+
+// Total XP at which `level` starts
+export function xpForLevel(
+  level: number,
+  curve: LevelCurve = LEVEL_CURVE
+): number {
+  if (level <= 0) return 0;
+
+  switch (curve.type) {
+    case "linear":
+      return level * curve.xpPerLevel;
+    case "quadratic":
+      return level * level * curve.base;
+    case "table": {
+      const { thresholds } = curve;
+      if (level <= thresholds.length) return thresholds[level - 1];
+      const last = thresholds[thresholds.length - 1];
+      const step = last - (thresholds[thresholds.length - 2] ?? 0);
+      return last + (level - thresholds.length) * step;
+    }
+  }
+}
+
+// Throws unless every level of `curve` starts at more XP than the one below
+export function assertValidLevelCurve(curve: LevelCurve): void {
+  const positive = (n: number) => Number.isFinite(n) && n > 0;
+  switch (curve.type) {
+    case "linear":
+      if (!positive(curve.xpPerLevel)) {
+        throw new Error("Linear level curve needs a positive xpPerLevel");
+      }
+      return;
+    case "quadratic":
+      if (!positive(curve.base)) {
+        throw new Error("Quadratic level curve needs a positive base");
+      }
+      return;
+    case "table": {
+      const { thresholds } = curve;
+      if (
+        thresholds.length === 0 ||
+        !thresholds.every((t, i) => positive(t - (thresholds[i - 1] ?? 0)))
+      ) {
+        throw new Error(
+          "Level table needs finite thresholds that strictly increase from above 0"
+        );
+      }
+      return;
+    }
+  }
+}
+
+assertValidLevelCurve(LEVEL_CURVE);
+
+// The level reached with `xp` total XP
+export function levelForXp(xp: number, curve: LevelCurve = LEVEL_CURVE): number {
+  if (!(xp >= xpForLevel(1, curve))) return 0;
+
+  switch (curve.type) {
+    case "linear":
+      return Math.floor(xp / curve.xpPerLevel);
+    case "quadratic": {
+      // The square root can be off by one after rounding; settle on the
+      // exact level
+      let level = Math.floor(Math.sqrt(xp / curve.base));
+      while (xpForLevel(level + 1, curve) <= xp) level++;
+      while (xpForLevel(level, curve) > xp) level--;
+      return level;
+    }
+    case "table": {
+      const { thresholds } = curve;
+      const next = thresholds.findIndex((t) => t > xp);
+      if (next !== -1) return next;
+      // Past the end of the table every level costs the last step
+      const last = thresholds[thresholds.length - 1];
+      const step = last - (thresholds[thresholds.length - 2] ?? 0);
+      return thresholds.length + Math.floor((xp - last) / step);
+    }
+  }
+}
+
+// The level reached with `xp` total XP, with the bounds of that level
+export function levelProgress(
+  xp: number,
+  curve: LevelCurve = LEVEL_CURVE
+): LevelProgress {
+  const level = levelForXp(xp, curve);
+  const levelStartXp = xpForLevel(level, curve);
+  const nextLevelXp = xpForLevel(level + 1, curve);
+
+  return {
+    level,
+    levelStartXp,
+    nextLevelXp,
+    levelProgress: (xp - levelStartXp) / (nextLevelXp - levelStartXp),
+  };
+}
@@ -0,0 +1,95 @@
+import {
+  PINPOINT_MAX_POINTS,
+  PINPOINT_HALF_LIFE_MONTHS,
+  PINPOINT_YEAR_ONLY_CREDIT,
+  PINPOINT_WIN_THRESHOLD,
+} from "./constants";
+import { eventDateMonthRange } from "./event-dates";
+import type { EventDate } from "./event-dates";
+import type { PinpointGuess, PinpointEventResult } from "@/types";
+
+// The facts about an event that a Pinpoint guess is scored against: its
+// structured date and the formatted display string
+export interface PinpointAnswer extends EventDate {
+  eventId: string;
+  date: string;
+}
+
+// Distance from `value` to the inclusive range [start, end]; 0 inside it
+function distanceToRange(value: number, start: number, end: number): number {
+  if (value < start) return start - value;
+  if (value > end) return value - end;
+  return 0;
+}
+
+export interface PinpointScore {
+  won: boolean;
+  score: number;
+  maxScore: number;
+  normalizedScore: number;
+  events: PinpointEventResult[];
+}
+
+// Points for a single guess. The distance is measured in months: a guess
+// that names the month is compared month-to-month, a year-only guess is
+// compared year-to-year (so the right year is distance 0) but capped at
+// PINPOINT_YEAR_ONLY_CREDIT. Points halve every PINPOINT_HALF_LIFE_MONTHS.
+//
+// Events dated at a coarser precision cover a range ("1990s" spans ten
+// years, circa dates are widened); any guess inside the range is exact.
+export function scorePinpointGuess(
+  guess: PinpointGuess,
+  answer: PinpointAnswer
+): PinpointEventResult {
+  const range = eventDateMonthRange(answer);
+
+  const distanceMonths =
+    guess.month === null
+      ? distanceToRange(
+          guess.year,
+          Math.floor(range.start / 12),
+          Math.floor(range.end / 12)
+        ) * 12
+      : distanceToRange(guess.year * 12 + guess.month - 1, range.start, range.end);
+
+  const credit = guess.month === null ? PINPOINT_YEAR_ONLY_CREDIT : 1;
+  const points = Math.round(
+    PINPOINT_MAX_POINTS *
+      credit *
+      Math.pow(0.5, distanceMonths / PINPOINT_HALF_LIFE_MONTHS)
+  );
+
+  return {
+    eventId: answer.eventId,
+    guess,
+    date: answer.date,
+    year: answer.year,
+    month: answer.month,
+    distanceMonths,
+    points,
+  };
+}
+
+// Scores a full Pinpoint submission. `guesses` must contain exactly one guess
+// per answer; results are returned in the order of `answers`.
+export function scorePinpointGame(
+  guesses: PinpointGuess[],
+  answers: PinpointAnswer[]
+): PinpointScore {
+  const guessById = new Map(guesses.map((g) => [g.eventId, g]));
+  const events = answers.map((answer) =>
+    scorePinpointGuess(guessById.get(answer.eventId)!, answer)
+  );
+
+  const score = events.reduce((sum, e) => sum + e.points, 0);
+  const maxScore = answers.length * PINPOINT_MAX_POINTS;
+  const normalizedScore = maxScore > 0 ? score / maxScore : 0;
+
+  return {
+    won: normalizedScore >= PINPOINT_WIN_THRESHOLD,
+    score,
+    maxScore,
+    normalizedScore,
+    events,
+  };
+}
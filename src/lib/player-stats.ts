@@ -0,0 +1,222 @@
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { gameResults, playerStats, puzzles, users } from "@/db/schema";
+import { asc, desc, eq, sql } from "drizzle-orm";
+import { playedOnDailyDate } from "./streaks";
+import { DEFAULT_TIME_ZONE } from "./time-zones";
+import type { CategoryStats, GameMode } from "@/types";
+
+// ── Player Stats ────────────────────────────────────────────────────────────
+// Running totals for each player, stored in player_stats and advanced by
+// every recorded game instead of being recomputed from the full
+// game_results history. The same applyGameToStats fold drives both the
+// per-game update and the rebuild from history, so the two cannot drift.
+
+// The stored counters of one player. Solve time totals cover winning games
+// only, since losses don't represent meaningful solve times.
+export interface PlayerStatsCounters {
+  gamesPlayed: number;
+  wins: number;
+  currentStreak: number;
+  bestStreak: number;
+  perfectWins: number;
+  dailiesCompleted: number;
+  fastestSolveTimeMs: number | null;
+  totalSolveTimeMs: number;
+}
+
+// The facts about one game that the counters depend on. `isDaily` is true
+// when the game was that day's daily challenge in the player's time zone.
+export interface StatsGame {
+  mode: GameMode;
+  won: boolean;
+  hintsUsed: number;
+  solveTimeMs: number;
+  isDaily: boolean;
+}
+
+export const EMPTY_PLAYER_STATS: PlayerStatsCounters = {
+  gamesPlayed: 0,
+  wins: 0,
+  currentStreak: 0,
+  bestStreak: 0,
+  perfectWins: 0,
+  dailiesCompleted: 0,
+  fastestSolveTimeMs: null,
+  totalSolveTimeMs: 0,
+};
+
+// Advances the counters by one game. A perfect win is a classic win without
+// hints: a Pinpoint win only needs to come close and offers no hints, so it
+// never counts. Any loss ends the current win streak.
+export function applyGameToStats(
+  stats: PlayerStatsCounters,
+  game: StatsGame
+): PlayerStatsCounters {
+  const currentStreak = game.won ? stats.currentStreak + 1 : 0;
+
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    wins: stats.wins + (game.won ? 1 : 0),
+    currentStreak,
+    bestStreak: Math.max(stats.bestStreak, currentStreak),
+    perfectWins:
+      stats.perfectWins +
+      (game.mode === "classic" && game.won && game.hintsUsed === 0 ? 1 : 0),
+    dailiesCompleted: stats.dailiesCompleted + (game.isDaily ? 1 : 0),
+    fastestSolveTimeMs: game.won
+      ? Math.min(stats.fastestSolveTimeMs ?? Infinity, game.solveTimeMs)
+      : stats.fastestSolveTimeMs,
+    totalSolveTimeMs:
+      stats.totalSolveTimeMs + (game.won ? game.solveTimeMs : 0),
+  };
+}
+
+// Picks the counters out of a player_stats row
+function toCounters(row: typeof playerStats.$inferSelect): PlayerStatsCounters {
+  return {
+    gamesPlayed: row.gamesPlayed,
+    wins: row.wins,
+    currentStreak: row.currentStreak,
+    bestStreak: row.bestStreak,
+    perfectWins: row.perfectWins,
+    dailiesCompleted: row.dailiesCompleted,
+    fastestSolveTimeMs: row.fastestSolveTimeMs,
+    totalSolveTimeMs: row.totalSolveTimeMs,
+  };
+}
+
+// Writes a player's counters, creating the row if needed
+async function saveStats(
+  executor: DbExecutor,
+  userId: string,
+  stats: PlayerStatsCounters
+): Promise<void> {
+  await executor
+    .insert(playerStats)
+    .values({ userId, ...stats })
+    .onConflictDoUpdate({
+      target: playerStats.userId,
+      set: { ...stats, updatedAt: new Date() },
+    });
+}
+
+// Locks a player's row for the rest of the transaction, creating it first
+// if needed, and returns the stored counters
+async function lockStatsRow(
+  tx: DbExecutor,
+  userId: string
+): Promise<PlayerStatsCounters> {
+  await tx.insert(playerStats).values({ userId }).onConflictDoNothing();
+
+  const [row] = await tx
+    .select()
+    .from(playerStats)
+    .where(eq(playerStats.userId, userId))
+    .for("update");
+  return toCounters(row);
+}
+
+// Applies one game to a player's stored counters and returns the new
+// counters. Must run inside the transaction that records the game: the row
+// is locked so concurrent submissions by the same player apply in turn.
+export async function recordPlayerStats(
+  tx: DbExecutor,
+  userId: string,
+  game: StatsGame
+): Promise<PlayerStatsCounters> {
+  const stats = applyGameToStats(await lockStatsRow(tx, userId), game);
+  await saveStats(tx, userId, stats);
+  return stats;
+}
+
+// Returns a player's counters; players without games get empty counters
+export async function getPlayerStats(
+  userId: string
+): Promise<PlayerStatsCounters> {
+  const [row] = await db
+    .select()
+    .from(playerStats)
+    .where(eq(playerStats.userId, userId))
+    .limit(1);
+  return row ? toCounters(row) : EMPTY_PLAYER_STATS;
+}
+
+// Recomputes a player's counters from their full game history, oldest game
+// first, and stores them. Used by the backfill script and after results are
+// inserted out of order, like migrated guest games. Holds the same row lock
+// as recordPlayerStats, so a game submitted meanwhile is applied either
+// before the history is read or on top of the rebuilt counters.
+export async function rebuildPlayerStats(
+  userId: string
+): Promise<PlayerStatsCounters> {
+  return db.transaction(async (tx) => {
+    await lockStatsRow(tx, userId);
+
+    const [user] = await tx
+      .select({ timeZone: users.timeZone })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    const timeZone = user?.timeZone ?? DEFAULT_TIME_ZONE;
+
+    const history = await tx
+      .select({
+        mode: gameResults.mode,
+        won: gameResults.won,
+        hintsUsed: gameResults.hintsUsed,
+        solveTimeMs: gameResults.solveTimeMs,
+        isDaily: playedOnDailyDate(timeZone),
+      })
+      .from(gameResults)
+      .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
+      .where(eq(gameResults.userId, userId))
+      .orderBy(asc(gameResults.playedAt));
+
+    const stats = history.reduce(applyGameToStats, EMPTY_PLAYER_STATS);
+    await saveStats(tx, userId, stats);
+    return stats;
+  });
+}
+
+// The derived figures shown on profiles and leaderboards
+export function summarizePlayerStats(stats: PlayerStatsCounters) {
+  return {
+    gamesPlayed: stats.gamesPlayed,
+    wins: stats.wins,
+    winRate: stats.gamesPlayed > 0 ? stats.wins / stats.gamesPlayed : 0,
+    currentStreak: stats.currentStreak,
+    bestStreak: stats.bestStreak,
+    avgSolveTimeMs:
+      stats.wins > 0 ? Math.round(stats.totalSolveTimeMs / stats.wins) : 0,
+    fastestSolveTimeMs: stats.fastestSolveTimeMs,
+  };
+}
+
+// Returns a player's record in each puzzle category they have played, most
+// played first. Computed from game_results, since categories are open-ended
+// and a player typically has only a handful.
+export async function getCategoryStats(
+  userId: string
+): Promise<CategoryStats[]> {
+  const gamesPlayed = sql<number>`count(*)::int`;
+  const rows = await db
+    .select({
+      category: puzzles.category,
+      gamesPlayed,
+      wins: sql<number>`count(*) filter (where ${gameResults.won})::int`,
+      fastestSolveTimeMs: sql<
+        number | null
+      >`min(${gameResults.solveTimeMs}) filter (where ${gameResults.won})`,
+    })
+    .from(gameResults)
+    .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
+    .where(eq(gameResults.userId, userId))
+    .groupBy(puzzles.category)
+    .orderBy(desc(gamesPlayed), asc(puzzles.category));
+
+  return rows.map((r) => ({
+    ...r,
+    winRate: r.gamesPlayed > 0 ? r.wins / r.gamesPlayed : 0,
+  }));
+}
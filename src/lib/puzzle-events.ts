@@ -0,0 +1,278 @@
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { events, puzzleEvents } from "@/db/schema";
+import { asc, eq, inArray } from "drizzle-orm";
+import {
+  compareEventDates,
+  formatEventDate,
+  parseEventDate,
+  sortEventDates,
+  toEventDate,
+} from "./event-dates";
+import type { DatePrecision, EventDate } from "./event-dates";
+
+// A bank event as used by one puzzle, with its position in that puzzle.
+// `date` is the formatted display string of the structured date fields.
+export interface PuzzleEventRow extends EventDate {
+  id: string;
+  text: string;
+  date: string;
+  url: string | null;
+  tags: string[];
+  orderIndex: number;
+  tieGroup: number | null;
+}
+
+// One entry of the `events` array accepted by the admin puzzle routes:
+// either a reference to an existing bank event, or a new event that is added
+// to the bank when the puzzle is saved. Events whose dates overlap must
+// carry the same `tieGroup` label.
+export type PuzzleEventInput = (
+  | { eventId: string }
+  | {
+      text: string;
+      year: number;
+      month?: number | null;
+      day?: number | null;
+      precision: DatePrecision;
+      circa?: boolean;
+      url?: string;
+      tags?: string[];
+    }
+) & { tieGroup?: number };
+
+// A puzzle's link to one bank event, as stored in puzzle_events
+export interface PuzzleEventLink {
+  eventId: string;
+  orderIndex: number;
+  tieGroup: number | null;
+}
+
+// Returns a puzzle's events in their correct chronological order
+export async function getPuzzleEvents(
+  puzzleId: string
+): Promise<PuzzleEventRow[]> {
+  const rows = await db
+    .select({
+      id: events.id,
+      text: events.text,
+      year: events.year,
+      month: events.month,
+      day: events.day,
+      precision: events.precision,
+      circa: events.circa,
+      url: events.url,
+      tags: events.tags,
+      orderIndex: puzzleEvents.orderIndex,
+      tieGroup: puzzleEvents.tieGroup,
+    })
+    .from(puzzleEvents)
+    .innerJoin(events, eq(puzzleEvents.eventId, events.id))
+    .where(eq(puzzleEvents.puzzleId, puzzleId))
+    .orderBy(asc(puzzleEvents.orderIndex));
+
+  return rows.map((row) => ({ ...row, date: formatEventDate(row) }));
+}
+
+// Validates the `events` array of an admin puzzle request body. Returns an
+// error message for the first invalid entry, or null if all are valid.
+export function validatePuzzleEventInputs(inputs: unknown[]): string | null {
+  const seenEventIds = new Set<string>();
+
+  for (let i = 0; i < inputs.length; i++) {
+    const ev = inputs[i] as Record<string, unknown>;
+    if (!ev || typeof ev !== "object") {
+      return `Event at index ${i} is not an object`;
+    }
+
+    if (
+      ev.tieGroup !== undefined &&
+      (!Number.isInteger(ev.tieGroup) || (ev.tieGroup as number) < 1)
+    ) {
+      return `Event at index ${i} has an invalid tieGroup`;
+    }
+
+    // Reference to an existing bank event
+    if (ev.eventId !== undefined) {
+      if (typeof ev.eventId !== "string") {
+        return `Event at index ${i} has an invalid eventId`;
+      }
+      if (seenEventIds.has(ev.eventId)) {
+        return `Event at index ${i} is already part of this puzzle`;
+      }
+      seenEventIds.add(ev.eventId);
+      continue;
+    }
+
+    // New event for the bank
+    if (!ev.text || typeof ev.text !== "string") {
+      return `Event at index ${i} is missing a valid text field`;
+    }
+    const parsed = parseEventDate(ev);
+    if ("error" in parsed) {
+      return `Event at index ${i} has an invalid date: ${parsed.error}`;
+    }
+    if (
+      ev.tags !== undefined &&
+      (!Array.isArray(ev.tags) || !ev.tags.every((t) => typeof t === "string"))
+    ) {
+      return `Event at index ${i} has invalid tags`;
+    }
+  }
+
+  return null;
+}
+
+// The normalized date of a new event input that passed
+// validatePuzzleEventInputs
+function inputDate(input: PuzzleEventInput): EventDate {
+  const parsed = parseEventDate(input as Record<string, unknown>);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.date;
+}
+
+// Computes each event's correct position from its date. `dates` and
+// `tieGroups` are indexed like the admin's input; the result holds the
+// orderIndex for each input, or an error if two events cannot be told apart
+// without being marked as a tie group. Dates are compared at their precision
+// (see src/lib/event-dates.ts), so "March 2024" ties with "March 15, 2024".
+// Tied events keep their input order.
+export function orderPuzzleEvents(
+  dates: EventDate[],
+  tieGroups: (number | null)[]
+): { orderIndexes: number[] } | { error: string } {
+  const sorted = dates
+    .map((date, i) => ({ i, date, tieGroup: tieGroups[i] }))
+    .sort((a, b) => sortEventDates(a.date, b.date) || a.i - b.i);
+
+  // Every tie group must hold at least two events
+  const groupSizes = new Map<number, number>();
+  for (const e of sorted) {
+    if (e.tieGroup === null) continue;
+    groupSizes.set(e.tieGroup, (groupSizes.get(e.tieGroup) ?? 0) + 1);
+  }
+  for (const [group, size] of groupSizes) {
+    if (size < 2) {
+      return { error: `Tie group ${group} must contain at least two events` };
+    }
+  }
+
+  // Events in the same tie group must tie, and events that tie must be in
+  // the same tie group. Puzzles are small, so every pair is checked.
+  for (let a = 0; a < sorted.length; a++) {
+    for (let b = a + 1; b < sorted.length; b++) {
+      const first = sorted[a];
+      const second = sorted[b];
+      const tie = compareEventDates(first.date, second.date) === 0;
+      const grouped =
+        first.tieGroup !== null && first.tieGroup === second.tieGroup;
+
+      if (grouped && !tie) {
+        return {
+          error: `Tie group ${first.tieGroup} contains events at index ${first.i} and ${second.i}, whose dates do not overlap`,
+        };
+      }
+      if (tie && !grouped) {
+        return {
+          error: `Events at index ${first.i} and ${second.i} have overlapping dates; mark them as a tie group or make one of the dates more precise`,
+        };
+      }
+    }
+  }
+
+  const orderIndexes = new Array<number>(sorted.length);
+  sorted.forEach((e, position) => {
+    orderIndexes[e.i] = position;
+  });
+  return { orderIndexes };
+}
+
+// Resolves validated admin event inputs to puzzle links. Each event's
+// orderIndex is derived from its date (see orderPuzzleEvents) — the
+// array order is ignored. New events are inserted into the bank, tagged with
+// the puzzle's category unless tags were given; nothing is inserted if the
+// inputs are rejected. Run it in the transaction that saves the puzzle, so
+// new events are not left in the bank if the save fails. Returns an error if
+// a referenced event does not exist or the dates contain an unmarked tie.
+export async function resolvePuzzleEventInputs(
+  tx: DbExecutor,
+  inputs: PuzzleEventInput[],
+  category: string
+): Promise<{ links: PuzzleEventLink[] } | { error: string }> {
+  // Load the dates of referenced bank events, checking they all exist
+  const referencedIds = inputs.flatMap((ev) =>
+    "eventId" in ev ? [ev.eventId] : []
+  );
+  const bankDates = new Map<string, EventDate>();
+  if (referencedIds.length > 0) {
+    const found = await tx
+      .select({
+        id: events.id,
+        year: events.year,
+        month: events.month,
+        day: events.day,
+        precision: events.precision,
+        circa: events.circa,
+      })
+      .from(events)
+      .where(inArray(events.id, referencedIds));
+    if (found.length !== referencedIds.length) {
+      return { error: "One or more referenced events do not exist" };
+    }
+    for (const row of found) bankDates.set(row.id, toEventDate(row));
+  }
+
+  // ── Derive the correct order before writing anything ──────────────────
+  const tieGroups = inputs.map((ev) => ev.tieGroup ?? null);
+  const ordered = orderPuzzleEvents(
+    inputs.map((ev) =>
+      "eventId" in ev
+        ? bankDates.get(ev.eventId)!
+        : inputDate(ev)
+    ),
+    tieGroups
+  );
+  if ("error" in ordered) return ordered;
+
+  const links: PuzzleEventLink[] = [];
+  for (let i = 0; i < inputs.length; i++) {
+    const ev = inputs[i];
+    let eventId: string;
+
+    if ("eventId" in ev) {
+      eventId = ev.eventId;
+    } else {
+      const [created] = await tx
+        .insert(events)
+        .values({
+          text: ev.text,
+          ...inputDate(ev),
+          url: ev.url || null,
+          tags: ev.tags ?? [category],
+        })
+        .returning({ id: events.id });
+      eventId = created.id;
+    }
+
+    links.push({
+      eventId,
+      orderIndex: ordered.orderIndexes[i],
+      tieGroup: tieGroups[i],
+    });
+  }
+
+  return { links };
+}
+
+// Replaces a puzzle's events with the given links. Bank events themselves
+// are untouched.
+export async function setPuzzleEvents(
+  tx: DbExecutor,
+  puzzleId: string,
+  links: PuzzleEventLink[]
+): Promise<void> {
+  await tx.delete(puzzleEvents).where(eq(puzzleEvents.puzzleId, puzzleId));
+  await tx
+    .insert(puzzleEvents)
+    .values(links.map((link) => ({ puzzleId, ...link })));
+}
@@ -0,0 +1,177 @@
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { gameResults, users } from "@/db/schema";
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import {
+  PUZZLE_FASTEST_SOLVERS,
+  SOLVE_TIME_HISTOGRAM_BOUNDS_MS,
+} from "./constants";
+import type { GameMode, PuzzleStats, SolveTimeBucket } from "@/types";
+
+// ── Puzzle Stats ────────────────────────────────────────────────────────────
+// How players fare on a single puzzle in one game mode: solve rate, hints,
+// a solve-time histogram and the fastest solvers. Only first attempts count
+// toward these (game_results.attempt_number = 1); a retry is played knowing
+// the answer, so retries are summarized on their own. Solve times cover
+// wins only, as elsewhere. Guest games imported by POST /api/game/migrate
+// are unverified and left out of every figure.
+
+// Conditions matching the games played on a puzzle in a mode, excluding
+// migrated guest games
+function puzzleGames(puzzleId: string, mode: GameMode) {
+  return and(
+    eq(gameResults.puzzleId, puzzleId),
+    eq(gameResults.mode, mode),
+    eq(gameResults.migrated, false)
+  );
+}
+
+// Conditions matching the first attempts at a puzzle in a mode
+function firstAttempts(puzzleId: string, mode: GameMode) {
+  return and(puzzleGames(puzzleId, mode), eq(gameResults.attemptNumber, 1));
+}
+
+// The attempt number of a player's next game on a puzzle in a mode. Migrated
+// guest games are numbered on their own (see renumberAttempts) and are not
+// counted. Must run in the transaction that records the game, with the
+// player's row locked.
+export async function nextAttemptNumber(
+  tx: DbExecutor,
+  userId: string,
+  puzzleId: string,
+  mode: GameMode
+): Promise<number> {
+  const [row] = await tx
+    .select({ attempts: sql<number>`count(*)::int` })
+    .from(gameResults)
+    .where(
+      and(
+        eq(gameResults.userId, userId),
+        eq(gameResults.puzzleId, puzzleId),
+        eq(gameResults.mode, mode),
+        eq(gameResults.migrated, false)
+      )
+    );
+  return row.attempts + 1;
+}
+
+// Renumbers attempts in the order games were played, for one player or, with
+// no `userId`, for everyone. Used after results are inserted out of order,
+// like migrated guest games, and by `npm run db:backfill-attempt-numbers`.
+// Migrated guest games are numbered apart from verified ones: they are
+// back-dated, and would otherwise push a verified first attempt to 2.
+// Returns the number of results renumbered.
+export async function renumberAttempts(
+  userId?: string,
+  executor: DbExecutor = db
+): Promise<number> {
+  const result = await executor.execute(sql`
+    UPDATE ${gameResults} SET attempt_number = ranked.n
+    FROM (
+      SELECT id, row_number() OVER (
+        PARTITION BY user_id, puzzle_id, mode, migrated
+        ORDER BY played_at, id
+      ) AS n
+      FROM ${gameResults}
+      ${userId !== undefined ? sql`WHERE user_id = ${userId}` : sql``}
+    ) AS ranked
+    WHERE ${gameResults.id} = ranked.id
+      AND ${gameResults.attemptNumber} <> ranked.n
+  `);
+  return result.rowCount ?? 0;
+}
+
+// The share (0–100) of other players' winning first attempts at the puzzle
+// that were slower than `solveTimeMs`. Null when nobody else has solved it
+// on a first attempt yet.
+export async function fasterThanPercent(
+  executor: DbExecutor,
+  puzzleId: string,
+  mode: GameMode,
+  solveTimeMs: number,
+  userId: string | null
+): Promise<number | null> {
+  const [row] = await executor
+    .select({
+      solvers: sql<number>`count(*)::int`,
+      slower: sql<number>`count(*) filter (where ${gameResults.solveTimeMs} > ${solveTimeMs})::int`,
+    })
+    .from(gameResults)
+    .where(
+      and(
+        firstAttempts(puzzleId, mode),
+        eq(gameResults.won, true),
+        userId !== null ? ne(gameResults.userId, userId) : undefined
+      )
+    );
+
+  if (row.solvers === 0) return null;
+  return Math.round((row.slower / row.solvers) * 100);
+}
+
+// Loads the stats of one puzzle in one mode
+export async function getPuzzleStats(
+  puzzleId: string,
+  mode: GameMode
+): Promise<PuzzleStats> {
+  // ── Headline figures and retries ─────────────────────────────────────────
+  const [totals] = await db
+    .select({
+      players: sql<number>`count(*) filter (where ${gameResults.attemptNumber} = 1)::int`,
+      wins: sql<number>`count(*) filter (where ${gameResults.attemptNumber} = 1 and ${gameResults.won})::int`,
+      hints: sql<number>`coalesce(sum(${gameResults.hintsUsed}) filter (where ${gameResults.attemptNumber} = 1), 0)::int`,
+      retries: sql<number>`count(*) filter (where ${gameResults.attemptNumber} > 1)::int`,
+      retryWins: sql<number>`count(*) filter (where ${gameResults.attemptNumber} > 1 and ${gameResults.won})::int`,
+    })
+    .from(gameResults)
+    .where(puzzleGames(puzzleId, mode));
+
+  // ── Solve-time histogram ─────────────────────────────────────────────────
+  // width_bucket gives 0 below the first bound, i for [bound i, bound i+1)
+  // and the number of bounds for everything past the last one
+  const bounds = SOLVE_TIME_HISTOGRAM_BOUNDS_MS;
+  const bucket = sql<number>`width_bucket(${gameResults.solveTimeMs}, ARRAY[${sql.raw(bounds.join(","))}])`;
+  const counts = await db
+    .select({ bucket, count: sql<number>`count(*)::int` })
+    .from(gameResults)
+    .where(and(firstAttempts(puzzleId, mode), eq(gameResults.won, true)))
+    .groupBy(bucket);
+  const countByBucket = new Map(counts.map((c) => [c.bucket, c.count]));
+
+  const solveTimeHistogram: SolveTimeBucket[] = [0, ...bounds].map(
+    (minMs, i) => ({
+      minMs,
+      maxMs: bounds[i] ?? null,
+      count: countByBucket.get(i) ?? 0,
+    })
+  );
+
+  // ── Fastest solvers ──────────────────────────────────────────────────────
+  // Ties go to whoever solved it first
+  const solvers = await db
+    .select({
+      walletAddress: users.walletAddress,
+      ensName: users.ensName,
+      solveTimeMs: gameResults.solveTimeMs,
+      hintsUsed: gameResults.hintsUsed,
+    })
+    .from(gameResults)
+    .innerJoin(users, eq(gameResults.userId, users.id))
+    .where(and(firstAttempts(puzzleId, mode), eq(gameResults.won, true)))
+    .orderBy(asc(gameResults.solveTimeMs), asc(gameResults.playedAt))
+    .limit(PUZZLE_FASTEST_SOLVERS);
+
+  return {
+    puzzleId,
+    mode,
+    players: totals.players,
+    solveRate: totals.players > 0 ? totals.wins / totals.players : 0,
+    avgHints: totals.players > 0 ? totals.hints / totals.players : 0,
+    retries: {
+      plays: totals.retries,
+      solveRate: totals.retries > 0 ? totals.retryWins / totals.retries : 0,
+    },
+    solveTimeHistogram,
+    fastestSolvers: solvers.map((s, index) => ({ rank: index + 1, ...s })),
+  };
+}
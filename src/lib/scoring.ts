@@ -0,0 +1,139 @@
+import { SCORING_STRATEGY } from "./constants";
+
+// Available scoring strategies for a sorted submission:
+//   exact   — count of events sitting at exactly their correct index
+//   kendall — count of event pairs in the correct relative order (the
+//             complement of the Kendall tau distance)
+//   lis     — length of the longest run of events (not necessarily
+//             adjacent) that are in increasing chronological order
+export type ScoringStrategy = "exact" | "kendall" | "lis";
+
+// How far an event sits from its correct slot. Negative deltas mean the
+// event was placed too early (above its slot), positive too late.
+export interface EventDelta {
+  eventId: string;
+  delta: number;
+}
+
+export interface ScoreResult {
+  strategy: ScoringStrategy;
+  score: number;
+  maxScore: number;
+  // score / maxScore in [0, 1]; 1 only for a perfectly ordered submission
+  normalizedScore: number;
+  eventDeltas: EventDelta[];
+}
+
+// The highest score a puzzle of `eventCount` events can earn under a strategy
+export function maxScoreFor(
+  eventCount: number,
+  strategy: ScoringStrategy = SCORING_STRATEGY
+): number {
+  return strategy === "kendall"
+    ? (eventCount * (eventCount - 1)) / 2
+    : eventCount;
+}
+
+// scoreOrdering compares the submitted event ordering against the correct
+// chronological order using the selected strategy. All strategies reach
+// their maximum only when every event is in place, so `normalizedScore === 1`
+// is equivalent to a win regardless of strategy. `submitted` must be a
+// permutation of `correctOrder`.
+export function scoreOrdering(
+  submitted: string[],
+  correctOrder: string[],
+  strategy: ScoringStrategy = SCORING_STRATEGY
+): ScoreResult {
+  // Map each event to its correct index; the submission becomes a sequence
+  // of correct indices that every strategy scores
+  const correctIndex = new Map(correctOrder.map((id, i) => [id, i]));
+  const ranks = submitted.map((id) => correctIndex.get(id) ?? -1);
+  const n = ranks.length;
+
+  let score: number;
+
+  switch (strategy) {
+    case "exact":
+      score = ranks.filter((rank, i) => rank === i).length;
+      break;
+    case "kendall":
+      score = countOrderedPairs(ranks);
+      break;
+    case "lis":
+      score = longestIncreasingSubsequence(ranks);
+      break;
+  }
+  const maxScore = maxScoreFor(n, strategy);
+
+  return {
+    strategy,
+    score,
+    maxScore,
+    normalizedScore: maxScore > 0 ? score / maxScore : 1,
+    eventDeltas: submitted.map((eventId, i) => ({
+      eventId,
+      delta: i - (correctIndex.get(eventId) ?? i),
+    })),
+  };
+}
+
+// alignTies adapts the correct order to a submission for puzzles with tied
+// events. Members of a tie group share a date, so any order among them is
+// correct: they are rearranged within their slots to follow the order in
+// which they appear in `submitted`. `tieGroups` holds the tie group of each
+// entry of `correctOrder` (null for untied events). The result is still a
+// valid chronological order and can be scored as usual.
+export function alignTies(
+  submitted: string[],
+  correctOrder: string[],
+  tieGroups: (number | null)[]
+): string[] {
+  const submittedIndex = new Map(submitted.map((id, i) => [id, i]));
+  const aligned = [...correctOrder];
+
+  for (const group of new Set(tieGroups)) {
+    if (group === null) continue;
+    const slots = tieGroups.flatMap((g, i) => (g === group ? [i] : []));
+    const members = slots
+      .map((i) => correctOrder[i])
+      .sort(
+        (a, b) =>
+          (submittedIndex.get(a) ?? -1) - (submittedIndex.get(b) ?? -1)
+      );
+    slots.forEach((slot, k) => {
+      aligned[slot] = members[k];
+    });
+  }
+
+  return aligned;
+}
+
+// Counts index pairs (i < j) whose ranks are in increasing order. O(n²) is
+// fine for puzzles of a handful of events.
+function countOrderedPairs(ranks: number[]): number {
+  let pairs = 0;
+  for (let i = 0; i < ranks.length; i++) {
+    for (let j = i + 1; j < ranks.length; j++) {
+      if (ranks[i] < ranks[j]) pairs++;
+    }
+  }
+  return pairs;
+}
+
+// Length of the longest strictly increasing subsequence, via patience
+// sorting: `tails[k]` holds the smallest tail of any increasing run of
+// length k + 1 seen so far.
+function longestIncreasingSubsequence(ranks: number[]): number {
+  const tails: number[] = [];
+  for (const rank of ranks) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (tails[mid] < rank) lo = mid + 1;
+      else hi = mid;
+    }
+    tails[lo] = rank;
+  }
+  return tails.length;
+}
@@ -0,0 +1,204 @@
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { seasonStandings, seasons, xpEvents } from "@/db/schema";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  gte,
+  isNull,
+  lt,
+  lte,
+  ne,
+  sql,
+} from "drizzle-orm";
+import type { Season } from "@/types";
+
+// ── Seasons ─────────────────────────────────────────────────────────────────
+// Time-windowed leaderboards rank players by the XP they earned within the
+// window, summed from the XP ledger (see src/lib/xp-ledger.ts), so new
+// players can compete with early adopters. Windows are
+//   week   — from Monday 00:00 UTC
+//   month  — from the 1st 00:00 UTC
+//   season — a named [startsAt, endsAt) window created by an admin
+// "legacy" ledger entries are left out: they hold XP earned before the
+// ledger existed, dated when it was opened. Achievement XP found by the
+// backfill is dated at the game that earned it, so it counts toward the
+// window that game fell in; a season already archived keeps its standings.
+//
+// Once a season ends, its final standings are archived to season_standings
+// so past winners stay viewable. Archiving runs lazily when an ended season
+// is requested and from `npm run db:archive-seasons`. Creating and archiving
+// seasons hold a Postgres advisory lock, so a season is archived only once
+// and two overlapping seasons cannot be created side by side.
+
+// Key identifying the seasons advisory lock
+const SEASONS_LOCK = "seasons";
+
+// A player's XP within a window
+export interface WindowStanding {
+  userId: string;
+  xp: number;
+}
+
+// The window of the current week or month, ending now
+export function periodWindow(
+  period: "week" | "month",
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+  if (period === "week") {
+    // getUTCDay() is 0 on Sunday; weeks start on Monday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else {
+    start.setUTCDate(1);
+  }
+  return { start, end: now };
+}
+
+// Players ranked by the XP they earned in [start, end), highest first. Only
+// players who earned XP appear. Ties go to the player who reached their
+// total first. Pass `limit` to keep only the top of the table.
+export async function getWindowStandings(
+  start: Date,
+  end: Date,
+  limit?: number,
+  executor: DbExecutor = db
+): Promise<WindowStanding[]> {
+  const xp = sql<number>`sum(${xpEvents.amount})::int`;
+  const query = executor
+    .select({ userId: xpEvents.userId, xp })
+    .from(xpEvents)
+    .where(
+      and(
+        gte(xpEvents.createdAt, start),
+        lt(xpEvents.createdAt, end),
+        ne(xpEvents.source, "legacy")
+      )
+    )
+    .groupBy(xpEvents.userId)
+    .having(gt(xp, 0))
+    .orderBy(desc(xp), asc(sql`max(${xpEvents.createdAt})`))
+    .$dynamic();
+
+  return limit === undefined ? query : query.limit(limit);
+}
+
+// Converts a seasons row to the shape sent to clients
+function toSeason(row: typeof seasons.$inferSelect): Season {
+  return {
+    id: row.id,
+    name: row.name,
+    startsAt: row.startsAt.toISOString(),
+    endsAt: row.endsAt.toISOString(),
+    archived: row.archivedAt !== null,
+  };
+}
+
+// Every season, most recent first
+export async function listSeasons(): Promise<Season[]> {
+  const rows = await db.select().from(seasons).orderBy(desc(seasons.startsAt));
+  return rows.map(toSeason);
+}
+
+// Returns a season by ID, or the season running now when `id` is null.
+// Null if there is no such season.
+export async function findSeason(id: string | null): Promise<Season | null> {
+  const now = new Date();
+  const [row] = await db
+    .select()
+    .from(seasons)
+    .where(
+      id !== null
+        ? eq(seasons.id, id)
+        : and(lte(seasons.startsAt, now), gt(seasons.endsAt, now))
+    )
+    .limit(1);
+  return row ? toSeason(row) : null;
+}
+
+// Creates a season. Rejected if it overlaps an existing one.
+export async function createSeason(
+  name: string,
+  startsAt: Date,
+  endsAt: Date
+): Promise<{ season: Season } | { error: string }> {
+  return db.transaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT pg_advisory_xact_lock(hashtext(${SEASONS_LOCK}))`
+    );
+
+    const [overlap] = await tx
+      .select({ name: seasons.name })
+      .from(seasons)
+      .where(and(lt(seasons.startsAt, endsAt), gt(seasons.endsAt, startsAt)))
+      .limit(1);
+    if (overlap) {
+      return { error: `The season overlaps "${overlap.name}"` };
+    }
+
+    const [row] = await tx
+      .insert(seasons)
+      .values({ name, startsAt, endsAt })
+      .returning();
+    return { season: toSeason(row) };
+  });
+}
+
+// Writes the final standings of every season that has ended but is not yet
+// archived. Returns the names of the seasons archived.
+export async function archiveEndedSeasons(): Promise<string[]> {
+  return db.transaction(async (tx) => {
+    await tx.execute(
+      sql`SELECT pg_advisory_xact_lock(hashtext(${SEASONS_LOCK}))`
+    );
+
+    const ended = await tx
+      .select()
+      .from(seasons)
+      .where(and(isNull(seasons.archivedAt), lte(seasons.endsAt, new Date())))
+      .orderBy(asc(seasons.endsAt));
+
+    for (const season of ended) {
+      const standings = await getWindowStandings(
+        season.startsAt,
+        season.endsAt,
+        undefined,
+        tx
+      );
+      if (standings.length > 0) {
+        await tx.insert(seasonStandings).values(
+          standings.map((s, index) => ({
+            seasonId: season.id,
+            userId: s.userId,
+            rank: index + 1,
+            xp: s.xp,
+          }))
+        );
+      }
+      await tx
+        .update(seasons)
+        .set({ archivedAt: new Date() })
+        .where(eq(seasons.id, season.id));
+    }
+
+    return ended.map((s) => s.name);
+  });
+}
+
+// The archived final standings of a season, best first
+export async function getArchivedStandings(
+  seasonId: string,
+  limit: number
+): Promise<WindowStanding[]> {
+  return db
+    .select({ userId: seasonStandings.userId, xp: seasonStandings.xp })
+    .from(seasonStandings)
+    .where(eq(seasonStandings.seasonId, seasonId))
+    .orderBy(asc(seasonStandings.rank))
+    .limit(limit);
+}
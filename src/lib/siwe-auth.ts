@@ -1,6 +1,7 @@
 import { createAuthenticationAdapter } from "@rainbow-me/rainbowkit";
 import { SiweMessage } from "siwe";
 import { signIn, signOut, getCsrfToken } from "next-auth/react";
+import { browserTimeZone } from "./time-zones";
 
 // Bridges RainbowKit wallet signatures with NextAuth sessions.
 //
@@ -11,7 +12,9 @@ import { signIn, signOut, getCsrfToken } from "next-auth/react";
 //    chain, and the fetched nonce.
 // 3. `verify` — after the user signs in their wallet, the serialised message
 //    and signature are sent to NextAuth's credentials provider (`siwe`) which
-//    verifies the signature server-side and creates a JWT session.
+//    verifies the signature server-side and creates a JWT session. The
+//    browser's time zone goes along so the player's daily rolls over at
+//    local midnight.
 // 4. `signOut` — destroys the NextAuth session without triggering a redirect.
 export const siweAuthAdapter = createAuthenticationAdapter({
   getNonce: async () => {
@@ -49,6 +52,7 @@ export const siweAuthAdapter = createAuthenticationAdapter({
     const result = await signIn("siwe", {
       message: message as string,
       signature,
+      timeZone: browserTimeZone(),
       redirect: false,
     });
     return result?.ok ?? false;
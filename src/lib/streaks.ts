@@ -0,0 +1,88 @@
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { gameResults, puzzles } from "@/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { localDate } from "./time-zones";
+
+// ── Streaks ─────────────────────────────────────────────────────────────────
+// Two kinds of streak are tracked for each player:
+//   win streak   — consecutive winning games, in any mode and on any puzzle
+//                  (drives the streak achievements and the XP streak bonus).
+//                  Kept in player_stats, see src/lib/player-stats.ts.
+//   daily streak — consecutive calendar days on which the player completed
+//                  that day's daily challenge, won or lost
+// Calendar days are dates in the player's time zone, matching how the daily
+// is served (see src/lib/time-zones.ts).
+
+export interface DailyStreaks {
+  dailyStreak: number;
+  bestDailyStreak: number;
+}
+
+// Days since the epoch for a "YYYY-MM-DD" date
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / 86_400_000);
+}
+
+// computeDailyStreaks takes the dates ("YYYY-MM-DD", any order, duplicates
+// allowed) of every daily challenge the player completed on its own day. The
+// current streak runs back from today, or from yesterday while today's daily
+// is still unplayed.
+export function computeDailyStreaks(
+  completedDates: string[],
+  today: string
+): DailyStreaks {
+  const days = [...new Set(completedDates.map(dayNumber))].sort(
+    (a, b) => a - b
+  );
+
+  // Best streak: longest run of consecutive days
+  let bestDailyStreak = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    bestDailyStreak = Math.max(bestDailyStreak, run);
+  }
+
+  // Current streak: walk back from the latest day if it is today or yesterday
+  const todayNumber = dayNumber(today);
+  let dailyStreak = 0;
+  const latest = days[days.length - 1];
+  if (latest === todayNumber || latest === todayNumber - 1) {
+    dailyStreak = 1;
+    for (let i = days.length - 1; i > 0 && days[i - 1] === days[i] - 1; i--) {
+      dailyStreak++;
+    }
+  }
+
+  return { dailyStreak, bestDailyStreak };
+}
+
+// SQL condition matching game results submitted on their puzzle's daily
+// date in the given time zone. `played_at` is stored as UTC.
+export function playedOnDailyDate(timeZone: string) {
+  return sql<boolean>`(${puzzles.isDaily} = true AND ((${gameResults.playedAt} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date = ${puzzles.dailyDate})`;
+}
+
+// Loads a player's daily streaks. A daily counts only if it was submitted on
+// the day it was the daily challenge; replaying it from the archive later
+// does not extend a streak. Pass a transaction as `executor` to count games
+// it has recorded but not yet committed.
+export async function getDailyStreaks(
+  userId: string,
+  timeZone: string,
+  executor: DbExecutor = db
+): Promise<DailyStreaks> {
+  const rows = await executor
+    .selectDistinct({ dailyDate: puzzles.dailyDate })
+    .from(gameResults)
+    .innerJoin(puzzles, eq(gameResults.puzzleId, puzzles.id))
+    .where(
+      and(eq(gameResults.userId, userId), playedOnDailyDate(timeZone))
+    );
+
+  return computeDailyStreaks(
+    rows.flatMap((r) => (r.dailyDate ? [r.dailyDate] : [])),
+    localDate(timeZone)
+  );
+}
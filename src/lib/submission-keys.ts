@@ -0,0 +1,19 @@
+// ── Submission Keys ─────────────────────────────────────────────────────────
+// Idempotency keys for the game submit routes. Every submit attempt for a
+// play session sends the same key, so when a submit fails on the client but
+// was recorded on the server, the retry gets the recorded response back
+// instead of being counted twice or rejected (see src/lib/game-sessions.ts).
+
+// Key of each play session submitted from this page load, by session token
+const keys = new Map<string, string>();
+
+// Returns the idempotency key for submitting the given play session,
+// creating it on the first attempt
+export function submissionKey(sessionToken: string): string {
+  let key = keys.get(sessionToken);
+  if (!key) {
+    key = crypto.randomUUID();
+    keys.set(sessionToken, key);
+  }
+  return key;
+}
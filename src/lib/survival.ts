@@ -0,0 +1,202 @@
+import { randomBytes } from "crypto";
+import {
+  and,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  max,
+  notInArray,
+  sql,
+} from "drizzle-orm";
+import { db } from "@/db";
+import { events, survivalRuns } from "@/db/schema";
+import { SURVIVAL_RUN_TTL_MS } from "./constants";
+import { compareEventDates, formatEventDate } from "./event-dates";
+import type { EventDate } from "./event-dates";
+
+// Event columns a Survival run needs. The structured date stays on the
+// server; routes convert rows with toTimelineCard / toPendingCard before
+// responding.
+const survivalEventColumns = {
+  id: events.id,
+  text: events.text,
+  url: events.url,
+  year: events.year,
+  month: events.month,
+  day: events.day,
+  precision: events.precision,
+  circa: events.circa,
+};
+
+export type SurvivalEventRow = EventDate & {
+  id: string;
+  text: string;
+  url: string | null;
+};
+
+// A placed timeline card: the display date is revealed
+export function toTimelineCard(e: SurvivalEventRow) {
+  return { id: e.id, text: e.text, date: formatEventDate(e), url: e.url };
+}
+
+// The card waiting to be placed: its date is the answer, so it is withheld
+export function toPendingCard(e: SurvivalEventRow) {
+  return { id: e.id, text: e.text, url: e.url };
+}
+
+// Deals a random event from the bank that is not already part of the run.
+// Returns null once the pool is exhausted.
+export async function dealSurvivalEvent(
+  excludeIds: string[]
+): Promise<SurvivalEventRow | null> {
+  const rows = await db
+    .select(survivalEventColumns)
+    .from(events)
+    .where(
+      excludeIds.length > 0
+        ? notInArray(events.id, excludeIds)
+        : undefined
+    )
+    .orderBy(sql`random()`)
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// Loads the given events keyed by id
+export async function loadSurvivalEvents(
+  ids: string[]
+): Promise<Map<string, SurvivalEventRow>> {
+  const rows = await db
+    .select(survivalEventColumns)
+    .from(events)
+    .where(inArray(events.id, ids));
+  return new Map(rows.map((r) => [r.id, r]));
+}
+
+// Whether inserting an event dated `date` at `position` keeps the timeline
+// (chronological `timelineDates`) in order. An event whose date ties with
+// its neighbour's at their precision may go on either side of it.
+export function isValidPlacement(
+  timelineDates: EventDate[],
+  position: number,
+  date: EventDate
+): boolean {
+  const before = timelineDates[position - 1];
+  const after = timelineDates[position];
+  if (before && compareEventDates(before, date) > 0) return false;
+  if (after && compareEventDates(after, date) < 0) return false;
+  return true;
+}
+
+// The first position at which an event dated `date` may be inserted
+export function findPlacement(
+  timelineDates: EventDate[],
+  date: EventDate
+): number {
+  const index = timelineDates.findIndex((d) => compareEventDates(d, date) > 0);
+  return index === -1 ? timelineDates.length : index;
+}
+
+// Creates a Survival run with its first timeline card and pending card and
+// returns the run token. Signed-in players own their run.
+export async function createSurvivalRun(
+  userId: string | null,
+  firstEventId: string,
+  pendingEventId: string
+): Promise<string> {
+  // 32 random bytes, hex-encoded — same scheme as play session tokens
+  const token = randomBytes(32).toString("hex");
+
+  await db.insert(survivalRuns).values({
+    token,
+    userId,
+    timeline: [firstEventId],
+    pendingEventId,
+  });
+
+  return token;
+}
+
+// Looks up a Survival run by token. Returns null if no run matches.
+export async function getSurvivalRun(token: string) {
+  const rows = await db
+    .select()
+    .from(survivalRuns)
+    .where(eq(survivalRuns.token, token))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// Whether a run has sat idle for longer than SURVIVAL_RUN_TTL_MS
+export function isSurvivalRunExpired(
+  run: { lastPlayedAt: Date },
+  now: Date = new Date()
+): boolean {
+  return run.lastPlayedAt.getTime() + SURVIVAL_RUN_TTL_MS < now.getTime();
+}
+
+// Ends every unfinished run that has sat idle for longer than
+// SURVIVAL_RUN_TTL_MS. An expired run keeps the score it reached, so it
+// counts toward the leaderboard like any finished run. Run from the place
+// route for the run being played and from `npm run db:expire-survival-runs`
+// for abandoned ones. Returns the number of runs expired.
+export async function expireSurvivalRuns(
+  runId?: string,
+  now: Date = new Date()
+): Promise<number> {
+  const expired = await db
+    .update(survivalRuns)
+    .set({ pendingEventId: null, endedAt: now })
+    .where(
+      and(
+        runId !== undefined ? eq(survivalRuns.id, runId) : undefined,
+        isNull(survivalRuns.endedAt),
+        lt(
+          survivalRuns.lastPlayedAt,
+          new Date(now.getTime() - SURVIVAL_RUN_TTL_MS)
+        )
+      )
+    )
+    .returning({ id: survivalRuns.id });
+  return expired.length;
+}
+
+// Conditions matching the finished runs of signed-in players
+const rankedRuns = and(
+  isNotNull(survivalRuns.userId),
+  isNotNull(survivalRuns.endedAt)
+);
+
+// Signed-in players ranked by their longest finished run, best first. Only
+// players with a finished run appear.
+export async function getSurvivalStandings(
+  limit: number
+): Promise<{ userId: string; best: number }[]> {
+  const best = max(survivalRuns.score);
+  const rows = await db
+    .select({ userId: survivalRuns.userId, best })
+    .from(survivalRuns)
+    .where(rankedRuns)
+    .groupBy(survivalRuns.userId)
+    .orderBy(desc(best))
+    .limit(limit);
+  return rows.map((r) => ({ userId: r.userId!, best: r.best ?? 0 }));
+}
+
+// Best finished run of each of the given players, keyed by user id. Players
+// without a finished run are left out.
+export async function getBestSurvivalScores(
+  userIds: string[]
+): Promise<Map<string, number>> {
+  if (userIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ userId: survivalRuns.userId, best: max(survivalRuns.score) })
+    .from(survivalRuns)
+    .where(and(rankedRuns, inArray(survivalRuns.userId, userIds)))
+    .groupBy(survivalRuns.userId);
+  return new Map(rows.map((r) => [r.userId!, r.best ?? 0]));
+}
@@ -0,0 +1,40 @@
+// ── Time Zones ──────────────────────────────────────────────────────────────
+// The daily challenge rolls over at local midnight: a puzzle's `daily_date`
+// is matched against the calendar date in the player's IANA time zone
+// ("America/New_York", "Europe/Berlin", ...). Signed-in players have their
+// zone stored on the users row at sign-in, and every server path reads it
+// from there; guests send the browser's zone with each request. Anything
+// missing or unrecognised falls back to UTC.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Whether `value` is an IANA time zone name the runtime recognises
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value.length === 0 || value.length > 64) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar date ("YYYY-MM-DD") of `at` in the given time zone
+export function localDate(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)!.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+// The browser's time zone, sent by guests so their daily matches the
+// player's calendar. Client-side only.
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
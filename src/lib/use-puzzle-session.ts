@@ -0,0 +1,113 @@
+import { useCallback, useState } from "react";
+import { notifyGameRecorded } from "@/lib/game-recorded";
+import { submissionKey } from "@/lib/submission-keys";
+import type { Puzzle, SubmitResult, HintResult } from "@/types";
+
+// ─── Puzzle Session Hook ─────────────────────────────────────────────────────
+// Server-backed GameBoard handlers for a classic puzzle, shared by the home
+// and archive pages. The play session starts as the one served with the
+// puzzle and is replaced whenever the player retries; loading another puzzle
+// starts over from that puzzle's session.
+
+export function usePuzzleSession(puzzle: Puzzle | null) {
+  // The session started by the latest retry, remembered with the puzzle it
+  // belongs to so a newly loaded puzzle falls back to its own session
+  const [retried, setRetried] = useState<
+    { puzzle: Puzzle; sessionToken: string } | null
+  >(null);
+
+  const sessionToken =
+    retried && retried.puzzle === puzzle
+      ? retried.sessionToken
+      : (puzzle?.sessionToken ?? null);
+
+  // ─── Submit Handler ─────────────────────────────────────────────────────
+  // Sends the player's ordering to POST /api/game/submit for server-side
+  // validation. The server computes the score and solve time from the play
+  // session, checks for wins, persists game results (if authenticated),
+  // calculates XP, and returns newly unlocked achievements.
+  const handleSubmit = useCallback(
+    async (orderedIds: string[]): Promise<SubmitResult> => {
+      if (!sessionToken) {
+        throw new Error("No puzzle loaded");
+      }
+
+      const res = await fetch("/api/game/submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionToken,
+          orderedEventIds: orderedIds,
+          idempotencyKey: submissionKey(sessionToken),
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(
+          data?.error || `Submission failed (${res.status})`
+        );
+      }
+
+      const result: SubmitResult = await res.json();
+      notifyGameRecorded();
+      return result;
+    },
+    [sessionToken]
+  );
+
+  // ─── Hint Handler ───────────────────────────────────────────────────────
+  // Asks POST /api/game/hint to reveal one misplaced event from the current
+  // ordering. The server records the hint on the play session so that the
+  // submit route can count it.
+  const handleHint = useCallback(
+    async (orderedIds: string[]): Promise<HintResult> => {
+      if (!sessionToken) {
+        throw new Error("No puzzle loaded");
+      }
+
+      const res = await fetch("/api/game/hint", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionToken,
+          orderedEventIds: orderedIds,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || `Hint request failed (${res.status})`);
+      }
+
+      return res.json();
+    },
+    [sessionToken]
+  );
+
+  // ─── Retry Handler ──────────────────────────────────────────────────────
+  // Starts a new play session for the current puzzle via POST
+  // /api/game/session. The previous session was consumed by its submission,
+  // so a retry needs a fresh token and server-side start time.
+  const handleRetry = useCallback(async () => {
+    if (!puzzle) {
+      throw new Error("No puzzle loaded");
+    }
+
+    const res = await fetch("/api/game/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ puzzleId: puzzle.id }),
+    });
+
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      throw new Error(data?.error || `Failed to restart puzzle (${res.status})`);
+    }
+
+    const data: { sessionToken: string } = await res.json();
+    setRetried({ puzzle, sessionToken: data.sessionToken });
+  }, [puzzle]);
+
+  return { handleSubmit, handleHint, handleRetry };
+}
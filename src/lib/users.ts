@@ -0,0 +1,62 @@
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./time-zones";
+
+// Returns the internal user UUID for a wallet address, creating the users row
+// on first sight. Uses an upsert so concurrent sign-ins for the same wallet
+// cannot race into a unique-constraint error: the no-op update on conflict
+// makes RETURNING yield the existing row's id. A valid `timeZone` is stored
+// only when the row is created or has no zone yet: the zone decides which
+// day counts as the daily, so letting each sign-in change it would let a
+// player play the daily twice or stretch a streak.
+export async function ensureUser(
+  walletAddress: string,
+  timeZone?: string
+): Promise<string> {
+  const valid = isValidTimeZone(timeZone);
+  const [user] = await db
+    .insert(users)
+    .values({ walletAddress, ...(valid && { timeZone }) })
+    .onConflictDoUpdate({
+      target: users.walletAddress,
+      set: {
+        walletAddress,
+        ...(valid && {
+          timeZone: sql`coalesce(${users.timeZone}, ${timeZone})`,
+        }),
+      },
+    })
+    .returning({ id: users.id });
+  return user.id;
+}
+
+// Resolves the time zone that decides a player's daily. Signed-in players
+// always use the zone stored on their users row, as game submission, stats
+// and streaks do; an account with none yet (created before zones were
+// stored) adopts the zone sent by the browser, which is saved so every later
+// read agrees. Guests use the browser's zone. Anything missing or invalid
+// falls back to UTC.
+export async function getPlayerTimeZone(
+  userId: string | undefined,
+  requested: string | null
+): Promise<string> {
+  const zone = isValidTimeZone(requested) ? requested : null;
+  if (!userId) return zone ?? DEFAULT_TIME_ZONE;
+
+  const [user] = await db
+    .select({ timeZone: users.timeZone })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (user?.timeZone) return user.timeZone;
+  if (!user || !zone) return DEFAULT_TIME_ZONE;
+
+  // Only fill an empty zone, so a concurrent sign-in's zone is kept
+  const [saved] = await db
+    .update(users)
+    .set({ timeZone: sql`coalesce(${users.timeZone}, ${zone})` })
+    .where(eq(users.id, userId))
+    .returning({ timeZone: users.timeZone });
+  return saved?.timeZone ?? DEFAULT_TIME_ZONE;
+}
@@ -0,0 +1,133 @@
+import { db } from "@/db";
+import type { DbExecutor } from "@/db";
+import { users, xpEvents } from "@/db/schema";
+import { desc, eq, sql } from "drizzle-orm";
+import { sumXp } from "./xp";
+import type { XpAward } from "./xp";
+import type { XpEvent, XpSource, XpSourceTotal } from "@/types";
+
+// ── XP Ledger ───────────────────────────────────────────────────────────────
+// Every XP award is appended to xp_events with its source, and `users.xp`
+// is advanced by the same amount in the same transaction, so the cached
+// total always equals the sum of the ledger. Nothing is ever edited: a bad
+// award is corrected by an admin adjustment with the opposite amount.
+
+// Appends awards to a player's ledger and adds their total to `users.xp`.
+// `gameResultId` links game awards to the game that earned them. An award's
+// `createdAt` dates it in the past, for XP earned by an earlier game;
+// otherwise it is dated now. Returns the XP added.
+export async function recordXpAwards(
+  tx: DbExecutor,
+  userId: string,
+  awards: (XpAward & { reason?: string | null; createdAt?: Date })[],
+  gameResultId: string | null = null
+): Promise<number> {
+  if (awards.length === 0) return 0;
+
+  await tx.insert(xpEvents).values(
+    awards.map((a) => ({
+      userId,
+      source: a.source,
+      amount: a.amount,
+      gameResultId,
+      reason: a.reason ?? null,
+      createdAt: a.createdAt,
+    }))
+  );
+
+  const total = sumXp(awards);
+  await tx
+    .update(users)
+    .set({ xp: sql`${users.xp} + ${total}` })
+    .where(eq(users.id, userId));
+  return total;
+}
+
+// Issues an admin correction: a positive amount grants XP, a negative one
+// removes it. Rejected if it would take the player below zero XP.
+export async function adjustXp(
+  walletAddress: string,
+  amount: number,
+  reason: string,
+  adminWallet: string
+): Promise<{ event: XpEvent; xp: number } | { error: string }> {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select({ id: users.id, xp: users.xp })
+      .from(users)
+      // Addresses are stored checksummed, so compare case-insensitively
+      .where(
+        sql`lower(${users.walletAddress}) = ${walletAddress.toLowerCase()}`
+      )
+      .for("update");
+
+    if (!user) {
+      return { error: "No player with that wallet address" };
+    }
+    if (user.xp + amount < 0) {
+      return {
+        error: `The player has only ${user.xp} XP; a correction of ${amount} would go below zero`,
+      };
+    }
+
+    const [row] = await tx
+      .insert(xpEvents)
+      .values({
+        userId: user.id,
+        source: "admin",
+        amount,
+        reason,
+        createdBy: adminWallet,
+      })
+      .returning();
+
+    await tx
+      .update(users)
+      .set({ xp: sql`${users.xp} + ${amount}` })
+      .where(eq(users.id, user.id));
+
+    return { event: toXpEvent(row), xp: user.xp + amount };
+  });
+}
+
+// Returns a player's most recent XP awards, newest first
+export async function getXpHistory(
+  userId: string,
+  limit: number
+): Promise<XpEvent[]> {
+  const rows = await db
+    .select()
+    .from(xpEvents)
+    .where(eq(xpEvents.userId, userId))
+    .orderBy(desc(xpEvents.createdAt))
+    .limit(limit);
+  return rows.map(toXpEvent);
+}
+
+// Returns a player's XP totals per source, largest first. Achievement
+// rewards are summed under one "achievement" entry.
+export async function getXpBreakdown(userId: string): Promise<XpSourceTotal[]> {
+  const source = sql<XpSourceTotal["source"]>`
+    CASE WHEN ${xpEvents.source} LIKE 'achievement:%' THEN 'achievement'
+    ELSE ${xpEvents.source} END`;
+
+  const rows = await db
+    .select({ source, amount: sql<number>`sum(${xpEvents.amount})::int` })
+    .from(xpEvents)
+    .where(eq(xpEvents.userId, userId))
+    .groupBy(source);
+
+  return rows.sort((a, b) => b.amount - a.amount);
+}
+
+// Converts a ledger row to the shape sent to clients
+function toXpEvent(row: typeof xpEvents.$inferSelect): XpEvent {
+  return {
+    id: row.id,
+    source: row.source as XpSource,
+    amount: row.amount,
+    gameResultId: row.gameResultId,
+    reason: row.reason,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
@@ -1,41 +1,145 @@
 import { XP_AWARDS, SPEED_BONUS_THRESHOLD_MS } from "./constants";
+import type { XpSource, XpSourceTotal } from "@/types";
+
+// One part of the XP earned for a game, recorded as its own row of the XP
+// ledger (see src/lib/xp-ledger.ts)
+export interface XpAward {
+  source: XpSource;
+  amount: number;
+}
 
 // Input parameters for XP calculation after a game ends
 interface XpCalcInput {
   won: boolean;
+  // Score normalized to [0, 1] by the scoring strategy (1 for a win)
+  normalizedScore: number;
   hintsUsed: number;
   solveTimeMs: number;
   currentStreak: number;
   isDaily: boolean;
+  // 1 for the player's first play of the puzzle; later attempts are played
+  // knowing the answer
+  attemptNumber: number;
 }
 
-// calculateXp computes the total XP earned for a single game based on the
-// player's performance. XP is only awarded for wins. Bonuses stack additively:
-//   - Base win XP (100)
+// calculateXp itemizes the XP earned for a single game based on the
+// player's performance. Bonuses stack additively:
+//   - Base XP (100 × normalized score) — partial credit for near-misses
 //   - Perfect bonus (+50) if zero hints were used
 //   - Speed bonus (+30) if solved under the threshold (30s)
 //   - Streak multiplier (+20 * current streak) for consecutive wins
 //   - Daily challenge bonus (+75) if the puzzle is today's daily
-export function calculateXp(input: XpCalcInput): number {
-  // No XP for losses — early return avoids unnecessary computation
-  if (!input.won) return 0;
+//
+// Only the base award applies to losses; every bonus requires a win. The
+// speed and streak bonuses also require a first attempt, since a retry
+// starts with the answer already revealed. Awards worth nothing are left
+// out.
+export function calculateXp(input: XpCalcInput): XpAward[] {
+  // Start with the base award, scaled by how close the ordering was
+  const awards: XpAward[] = [
+    { source: "win", amount: Math.round(XP_AWARDS.win * input.normalizedScore) },
+  ];
+
+  // Losses earn partial base credit only — no bonuses
+  if (input.won) {
+    // Perfect bonus: no hints used during the entire game
+    if (input.hintsUsed === 0) {
+      awards.push({ source: "perfect", amount: XP_AWARDS.perfectBonus });
+    }
+
+    const firstAttempt = input.attemptNumber === 1;
+
+    // Speed bonus: solved faster than the configured threshold
+    if (firstAttempt && input.solveTimeMs < SPEED_BONUS_THRESHOLD_MS) {
+      awards.push({ source: "speed", amount: XP_AWARDS.speedBonus });
+    }
 
-  // Start with the base win award
-  let xp = XP_AWARDS.win;
+    // Streak multiplier: scales linearly with consecutive wins (only applies
+    // when the streak is greater than 1, since a single win is the base case)
+    if (firstAttempt && input.currentStreak > 1) {
+      awards.push({
+        source: "streak",
+        amount: XP_AWARDS.streakMultiplier * input.currentStreak,
+      });
+    }
 
-  // Perfect bonus: no hints used during the entire game
-  if (input.hintsUsed === 0) xp += XP_AWARDS.perfectBonus;
+    // Daily challenge bonus: extra incentive for playing the daily puzzle
+    if (input.isDaily) {
+      awards.push({ source: "daily", amount: XP_AWARDS.dailyChallenge });
+    }
+  }
 
-  // Speed bonus: solved faster than the configured threshold
-  if (input.solveTimeMs < SPEED_BONUS_THRESHOLD_MS) xp += XP_AWARDS.speedBonus;
+  return awards.filter((a) => a.amount !== 0);
+}
 
-  // Streak multiplier: scales linearly with consecutive wins (only applies
-  // when the streak is greater than 1, since a single win is the base case)
-  if (input.currentStreak > 1)
-    xp += XP_AWARDS.streakMultiplier * input.currentStreak;
+// Input parameters for XP calculation after a Pinpoint game ends
+interface PinpointXpCalcInput {
+  won: boolean;
+  // Points earned as a fraction of the maximum, in [0, 1]
+  normalizedScore: number;
+  currentStreak: number;
+  isDaily: boolean;
+  attemptNumber: number;
+}
 
-  // Daily challenge bonus: extra incentive for playing the daily puzzle
-  if (input.isDaily) xp += XP_AWARDS.dailyChallenge;
+// calculatePinpointXp itemizes the XP earned for a Pinpoint game. Pinpoint
+// has no hints or sorting speed, so it uses a subset of the classic rules:
+//   - Base XP (100 × normalized score)
+//   - Perfect bonus (+50) if every event was pinpointed to the exact month
+//   - Streak multiplier (+20 * current streak) for consecutive wins
+//   - Daily challenge bonus (+75) if the puzzle is today's daily
+//
+// As in classic mode, every bonus requires a win and the streak bonus a
+// first attempt.
+export function calculatePinpointXp(input: PinpointXpCalcInput): XpAward[] {
+  const awards: XpAward[] = [
+    { source: "win", amount: Math.round(XP_AWARDS.win * input.normalizedScore) },
+  ];
+
+  if (input.won) {
+    // A normalized score of 1 is only reachable with exact month guesses
+    if (input.normalizedScore === 1) {
+      awards.push({ source: "perfect", amount: XP_AWARDS.perfectBonus });
+    }
+
+    if (input.attemptNumber === 1 && input.currentStreak > 1) {
+      awards.push({
+        source: "streak",
+        amount: XP_AWARDS.streakMultiplier * input.currentStreak,
+      });
+    }
+
+    if (input.isDaily) {
+      awards.push({ source: "daily", amount: XP_AWARDS.dailyChallenge });
+    }
+  }
+
+  return awards.filter((a) => a.amount !== 0);
+}
+
+// Total XP of a list of awards
+export function sumXp(awards: XpAward[]): number {
+  return awards.reduce((sum, a) => sum + a.amount, 0);
+}
 
-  return xp;
+// Display name of an XP source, used for both the per-source totals and
+// single awards in the profile's XP history
+export function xpSourceLabel(source: XpSourceTotal["source"]): string {
+  if (source.startsWith("achievement")) return "Achievement";
+  switch (source) {
+    case "win":
+      return "Game score";
+    case "perfect":
+      return "Perfect bonus";
+    case "speed":
+      return "Speed bonus";
+    case "streak":
+      return "Streak bonus";
+    case "daily":
+      return "Daily bonus";
+    case "admin":
+      return "Correction";
+    default:
+      return "Earned before XP history";
+  }
 }
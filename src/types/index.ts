@@ -1,3 +1,9 @@
+import type { ScoringStrategy, EventDelta } from "@/lib/scoring";
+
+// Game modes: "classic" sorts a puzzle's events into chronological order,
+// "pinpoint" guesses the year (and optionally month) of each event
+export type GameMode = "classic" | "pinpoint";
+
 // Represents a single event within a puzzle that the player must sort
 export interface PuzzleEvent {
   id: string;
@@ -6,21 +12,114 @@ export interface PuzzleEvent {
   url: string | null;
 }
 
-// A complete puzzle as returned by the API (events in shuffled order, no sort_date exposed)
+// A complete puzzle as returned by the API (events in shuffled order, no dates exposed).
+// Dates are revealed by hints and by the submission result.
+// `sessionToken` identifies the server-side play session started when the
+// puzzle was served; hints and the final submission must send it back.
 export interface Puzzle {
   id: string;
   title: string;
   category: string;
-  events: PuzzleEvent[];
+  events: Omit<PuzzleEvent, "date">[];
+  sessionToken: string;
 }
 
-// Result returned by the server after submitting an answer
+// Result returned by the server after submitting an answer. `score` and
+// `maxScore` are in the units of the scoring `strategy` (see
+// src/lib/scoring.ts); `eventDeltas` gives each event's offset from its
+// correct slot (0 = correct).
 export interface SubmitResult {
   won: boolean;
   score: number;
+  maxScore: number;
+  normalizedScore: number;
+  strategy: ScoringStrategy;
+  eventDeltas: EventDelta[];
   correctOrder: string[];
+  // Display date of every event, by event ID
+  eventDates: Record<string, string>;
   xpEarned: number;
   newAchievements: Achievement[];
+  // The player's level before and after this game's XP; they differ when
+  // the game caused a level-up. Both are 0 for guests.
+  levelBefore: number;
+  levelAfter: number;
+  // Share (0–100) of other players' winning first attempts at this puzzle
+  // that were slower. Null for losses, retries, and puzzles nobody else has
+  // solved yet.
+  fasterThanPercent: number | null;
+}
+
+// A puzzle served for Pinpoint mode. Event dates are withheld because they
+// are the answer.
+export interface PinpointPuzzle extends Omit<Puzzle, "events"> {
+  events: Omit<PuzzleEvent, "date">[];
+}
+
+// A player's guess for one event in Pinpoint mode. `month` (1-12) is
+// optional; a year-only guess is scored at year precision.
+export interface PinpointGuess {
+  eventId: string;
+  year: number;
+  month: number | null;
+}
+
+// Per-event outcome of a Pinpoint submission. `year` and `month` are the
+// event's own date; `month` is null for events known only to the year or
+// coarser.
+export interface PinpointEventResult {
+  eventId: string;
+  guess: PinpointGuess;
+  date: string;
+  year: number;
+  month: number | null;
+  distanceMonths: number;
+  points: number;
+}
+
+// Result returned by the server after submitting a Pinpoint game
+export interface PinpointSubmitResult {
+  won: boolean;
+  score: number;
+  maxScore: number;
+  normalizedScore: number;
+  events: PinpointEventResult[];
+  xpEarned: number;
+  newAchievements: Achievement[];
+  levelBefore: number;
+  levelAfter: number;
+  fasterThanPercent: number | null;
+}
+
+// State of a Survival run after it starts. `timeline` holds the placed cards
+// in chronological order (dates revealed); `pending` is the card to place.
+export interface SurvivalStartResult {
+  runToken: string;
+  timeline: PuzzleEvent[];
+  pending: Omit<PuzzleEvent, "date">;
+  score: number;
+}
+
+// Result of placing the pending card. `position` is where the card belongs
+// in the timeline — the requested slot when `correct`, otherwise the slot it
+// should have gone in. `pending` is the next card, or null once the run ends.
+export interface SurvivalPlaceResult {
+  correct: boolean;
+  placed: PuzzleEvent;
+  position: number;
+  score: number;
+  pending: Omit<PuzzleEvent, "date"> | null;
+  ended: boolean;
+}
+
+// Result returned by the server after requesting a hint. `eventId` is null
+// when every event is already in its correct position (no hint is consumed).
+export interface HintResult {
+  eventId: string | null;
+  date: string | null;
+  correctIndex: number | null;
+  hintsUsed: number;
+  hintsLeft: number;
 }
 
 // Achievement definition
@@ -37,17 +136,83 @@ export interface UserAchievement extends Achievement {
   unlockedAt: string;
 }
 
-// Player stats computed from game history
+// Progress toward an achievement's target, e.g. 38 of 50 games played
+export interface AchievementProgress {
+  current: number;
+  target: number;
+}
+
+// An achievement in the public catalog. `description` is null for hidden
+// achievements, which players only learn about by unlocking them.
+// `unlockPercent` is the share (0–100) of active players who have unlocked
+// it, null until rarity is first computed.
+export interface CatalogAchievement extends Omit<Achievement, "description"> {
+  description: string | null;
+  hidden: boolean;
+  unlockPercent: number | null;
+}
+
+// Player stats computed from game history. Win streaks count consecutive
+// winning games; daily streaks count consecutive days with a completed daily
+// challenge.
 export interface PlayerStats {
   gamesPlayed: number;
   wins: number;
   winRate: number;
   currentStreak: number;
   bestStreak: number;
+  dailyStreak: number;
+  bestDailyStreak: number;
   avgSolveTimeMs: number;
   fastestSolveTimeMs: number | null;
   xp: number;
   level: number;
+  // Progress through the current level (see src/lib/levels.ts)
+  levelStartXp: number;
+  nextLevelXp: number;
+  levelProgress: number;
+}
+
+// A player's record in one puzzle category. Solve times cover wins only.
+export interface CategoryStats {
+  category: string;
+  gamesPlayed: number;
+  wins: number;
+  winRate: number;
+  fastestSolveTimeMs: number | null;
+}
+
+// Where an XP award came from. Game awards are split into their parts: the
+// base award for the score ("win") and each bonus. Achievement rewards name
+// the achievement; "admin" is a manual correction and "legacy" the balance
+// earned before awards were itemized.
+export type XpSource =
+  | "win"
+  | "perfect"
+  | "speed"
+  | "streak"
+  | "daily"
+  | `achievement:${string}`
+  | "admin"
+  | "legacy";
+
+// One entry of a player's XP ledger, as returned by GET /api/stats/me.
+// `amount` is negative for corrections that remove XP.
+export interface XpEvent {
+  id: string;
+  source: XpSource;
+  amount: number;
+  gameResultId: string | null;
+  // Free-text context: the achievement title or the admin's reason
+  reason: string | null;
+  createdAt: string;
+}
+
+// A player's total XP from one kind of source, with every achievement
+// counted under "achievement"
+export interface XpSourceTotal {
+  source: XpSource | "achievement";
+  amount: number;
 }
 
 // Guest stats stored in localStorage before wallet connection
@@ -77,5 +242,81 @@ export interface LeaderboardEntry {
   xp: number;
   currentStreak: number;
   bestStreak: number;
+  // Longest Survival run, 0 if the player has not finished one
+  bestSurvival: number;
+  // XP earned within the leaderboard's period; absent for all-time rankings
+  periodXp?: number;
   isCurrentUser: boolean;
 }
+
+// One bar of a puzzle's solve-time histogram: winning first attempts that
+// took at least `minMs` and less than `maxMs` (null for the last bar)
+export interface SolveTimeBucket {
+  minMs: number;
+  maxMs: number | null;
+  count: number;
+}
+
+// A player among the fastest to solve a puzzle on their first attempt
+export interface PuzzleSolver {
+  rank: number;
+  walletAddress: string;
+  ensName: string | null;
+  solveTimeMs: number;
+  hintsUsed: number;
+}
+
+// How players fare on one puzzle in one game mode. Only each player's first
+// attempt counts toward the headline figures, so replays of a puzzle whose
+// answer is already known do not inflate them; retries are summarized
+// separately.
+export interface PuzzleStats {
+  puzzleId: string;
+  mode: GameMode;
+  // Players who have attempted the puzzle
+  players: number;
+  // Share of first attempts won, and hints used per first attempt
+  solveRate: number;
+  avgHints: number;
+  retries: { plays: number; solveRate: number };
+  solveTimeHistogram: SolveTimeBucket[];
+  fastestSolvers: PuzzleSolver[];
+}
+
+// Time window a leaderboard ranks XP over (see src/lib/seasons.ts). "all"
+// is the all-time leaderboard; "season" is an admin-defined season.
+export type LeaderboardPeriod = "all" | "week" | "month" | "season";
+
+// A named leaderboard season. `archived` is true once its final standings
+// have been recorded.
+export interface Season {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  archived: boolean;
+}
+
+// A player's outcome on an archived puzzle: won if any play was a win, lost
+// if every play was a loss. Null for guests.
+export type ArchiveStatus = "won" | "lost" | "unplayed";
+
+// Puzzle metadata as listed in the archive (no events)
+export interface ArchivePuzzle {
+  id: string;
+  title: string;
+  category: string;
+  isDaily: boolean;
+  dailyDate: string | null;
+  createdAt: string;
+  status: ArchiveStatus | null;
+}
+
+// One page of the archive, as returned by GET /api/puzzles/archive
+export interface ArchivePage {
+  puzzles: ArchivePuzzle[];
+  page: number;
+  pageSize: number;
+  total: number;
+  categories: string[];
+}
@@ -3,12 +3,20 @@ import "next-auth/jwt";
 
 // Module augmentation for next-auth v4.
 // Extends the default Session and JWT types to include the Ethereum wallet
-// address set during SIWE authentication (see src/lib/auth.ts callbacks).
+// address and internal user UUID set during SIWE authentication (see
+// src/lib/auth.ts callbacks).
 declare module "next-auth" {
+  interface User {
+    /** Internal users.id UUID, provisioned in `authorize` */
+    dbId?: string;
+  }
+
   interface Session {
     user: {
       /** Ethereum wallet address (checksummed) */
       id: string;
+      /** Internal users.id UUID */
+      dbId: string;
       name?: string | null;
       email?: string | null;
       image?: string | null;
@@ -20,5 +28,7 @@ declare module "next-auth/jwt" {
   interface JWT {
     /** Ethereum wallet address persisted in the JWT */
     address?: string;
+    /** Internal users.id UUID persisted in the JWT */
+    dbId?: string;
   }
 }